@@ -1,8 +1,9 @@
 // Expose kvdex
 export { kvdex } from "./src/kvdex.ts"
 
-// Expose classes, model and builders
+// Expose classes, model, validator and builders
 export { model } from "./src/model.ts"
+export { validator } from "./src/validator.ts"
 export { KvDex } from "./src/kvdex.ts"
 export { Collection, collection } from "./src/collection.ts"
 export {
@@ -10,8 +11,14 @@ export {
   indexableCollection,
 } from "./src/indexable_collection.ts"
 export { LargeCollection, largeCollection } from "./src/large_collection.ts"
+export {
+  DerivedCollection,
+  derivedCollection,
+} from "./src/derived_collection.ts"
 export { AtomicBuilder } from "./src/atomic_builder.ts"
+export { ChangeLog } from "./src/change_log.ts"
 export { Document } from "./src/document.ts"
+export { Query } from "./src/query.ts"
 
 // Expose errors
 export * from "./src/errors.ts"
@@ -2,6 +2,7 @@ import type { Collection } from "./collection.ts"
 import { InvalidAtomicBuilderCollectionError } from "./errors.ts"
 import { IndexableCollection } from "./indexable_collection.ts"
 import { LargeCollection } from "./large_collection.ts"
+import { DerivedCollection } from "./derived_collection.ts"
 import type {
   AtomicCheck,
   AtomicMutation,
@@ -17,15 +18,22 @@ import type {
   QueueValue,
   Schema,
   SchemaDefinition,
+  UpdateFn,
 } from "./types.ts"
 import {
+  addChange,
+  addCount,
   allFulfilled,
+  applyViewChanges,
   deleteIndices,
   extendKey,
   getDocumentId,
   keyEq,
+  migrateValue,
   prepareEnqueue,
   setIndices,
+  stampVersion,
+  updateIndices,
 } from "./utils.ts"
 
 /**
@@ -37,11 +45,12 @@ import {
 export class AtomicBuilder<
   const T1 extends Schema<SchemaDefinition>,
   const T2 extends KvValue,
+  const TInput = T2,
 > {
   private kv: Deno.Kv
   private schema: T1
   private operations: Operations
-  private collection: Collection<T2, CollectionOptions<T2>>
+  private collection: Collection<T2, CollectionOptions<T2>, TInput>
 
   /**
    * Create a new AtomicBuilder for building and executing atomic operations in the KV store.
@@ -54,7 +63,7 @@ export class AtomicBuilder<
   constructor(
     kv: Deno.Kv,
     schema: T1,
-    collection: Collection<T2, CollectionOptions<T2>>,
+    collection: Collection<T2, CollectionOptions<T2>, TInput>,
     operations?: Operations,
   ) {
     // Check for large collection
@@ -64,6 +73,13 @@ export class AtomicBuilder<
       )
     }
 
+    // Check for derived collection
+    if (collection instanceof DerivedCollection) {
+      throw new InvalidAtomicBuilderCollectionError(
+        "Atomic operations are not supported for DerivedCollection",
+      )
+    }
+
     // Set kv and schema
     this.kv = kv
     this.schema = schema
@@ -72,8 +88,10 @@ export class AtomicBuilder<
     this.operations = operations ?? {
       atomic: kv.atomic(),
       prepareDeleteFns: [],
+      prepareUpdateFns: [],
       indexDeleteCollectionKeys: [],
       indexAddCollectionKeys: [],
+      viewChanges: [],
     }
 
     // Set colection context
@@ -94,8 +112,8 @@ export class AtomicBuilder<
    * @param selector - Selector function for selecting a new collection from the database schema.
    * @returns A new AtomicBuilder instance.
    */
-  select<const TValue extends KvValue>(
-    selector: CollectionSelector<T1, TValue>,
+  select<const TValue extends KvValue, const TValueInput = TValue>(
+    selector: CollectionSelector<T1, TValue, TValueInput>,
   ) {
     return new AtomicBuilder(
       this.kv,
@@ -122,7 +140,7 @@ export class AtomicBuilder<
    * @param options - Set options, optional.
    * @returns Current AtomicBuilder instance.
    */
-  add(value: T2, options?: AtomicSetOptions) {
+  add(value: TInput, options?: AtomicSetOptions) {
     // Perform set operation with generated id.
     return this.set(null, value, options)
   }
@@ -145,10 +163,13 @@ export class AtomicBuilder<
    * @param options - Set options, optional.
    * @returns Current AtomicBuilder instance.
    */
-  set(id: KvId | null, value: T2, options?: AtomicSetOptions) {
+  set(id: KvId | null, value: TInput, options?: AtomicSetOptions) {
     // Create id key from collection id key and id
     const collection = this.collection
-    const parsed = collection._model.parse(value)
+    const parsed = stampVersion(
+      collection._model.parse(value),
+      collection._migrations,
+    )
     const docId = id ?? collection._idGenerator(parsed)
     const idKey = extendKey(collection._keys.idKey, docId)
 
@@ -159,6 +180,13 @@ export class AtomicBuilder<
       options,
     )
 
+    // Increment counters of the new document
+    addCount(1, this.operations.atomic, collection)
+
+    // Add the new document to derived collections and record the change
+    this.addViewChange(docId, null, parsed)
+    addChange("set", docId, parsed, this.operations.atomic, collection)
+
     if (collection instanceof IndexableCollection) {
       // Set data as KvObject type
       const _data = parsed as KvObject
@@ -204,6 +232,9 @@ export class AtomicBuilder<
     // Add delete operation
     this.operations.atomic.delete(idKey)
 
+    // Decrement counters and update derived collections if the document exists
+    this.prepareTrackedDelete(id, idKey)
+
     // If collection is indexable, handle indexing
     if (this.collection instanceof IndexableCollection) {
       // Add collection key for collision detection
@@ -224,6 +255,85 @@ export class AtomicBuilder<
     return this
   }
 
+  /**
+   * Updates a document with the given id by applying an update function to its current value.
+   *
+   * The current document value is read when the atomic operation is committed,
+   * and the new value is written with a check against the read versionstamp.
+   * If the document does not exist or is concurrently modified, the atomic operation fails.
+   *
+   * @example
+   * ```ts
+   * db
+   *  .atomic(schema => schema.users)
+   *  .updateWith("user1", (user) => ({
+   *    ...user,
+   *    age: user.age + 1,
+   *  }))
+   * ```
+   *
+   * @param id - Id of document to be updated.
+   * @param fn - Update function, receives the current document value and returns the new value.
+   * @param options - Set options, optional.
+   * @returns Current AtomicBuilder instance.
+   */
+  updateWith(id: KvId, fn: UpdateFn<T2, TInput>, options?: AtomicSetOptions) {
+    // Create id key from id and collection id key
+    const collection = this.collection
+    const atomic = this.operations.atomic
+    const idKey = extendKey(collection._keys.idKey, id)
+
+    // If collection is indexable, add collection key for collision detection
+    if (collection instanceof IndexableCollection) {
+      this.operations.indexAddCollectionKeys.push(collection._keys.baseKey)
+    }
+
+    // Add update preperation function to prepare update functions list
+    this.operations.prepareUpdateFns.push(async (kv) => {
+      // Get current document entry
+      const { value, versionstamp } = await kv.get<T2>(idKey)
+
+      // If no document exists, fail the operation
+      if (value === null || versionstamp === null) {
+        return false
+      }
+
+      // Apply update function to migrated value and parse new versioned document value
+      const migrated = migrateValue(value, collection._migrations).value as T2
+      const parsed = stampVersion(
+        collection._model.parse(fn(migrated)),
+        collection._migrations,
+      )
+
+      // Add check and set operations
+      atomic.check({ key: idKey, versionstamp }).set(idKey, parsed, options)
+
+      // Replace the current document in derived collections and record the change
+      this.addViewChange(id, value, parsed)
+      addChange("set", id, parsed, atomic, collection)
+
+      // If collection is indexable, add index update operations
+      if (collection instanceof IndexableCollection) {
+        updateIndices(
+          id,
+          value as KvObject,
+          parsed as KvObject,
+          atomic,
+          collection as unknown as IndexableCollection<
+            KvObject,
+            IndexableCollectionOptions<KvObject>
+          >,
+          options,
+        )
+      }
+
+      return true
+    })
+
+    // Return current AtomicBuilder
+    return this
+  }
+
   /**
    * Check if documents have been changed since a specific versionstamp.
    *
@@ -362,7 +472,7 @@ export class AtomicBuilder<
    * @param mutations - Atomic mutations to be performed.
    * @returns Current AtomicBuilder instance.
    */
-  mutate(...mutations: AtomicMutation<T2>[]) {
+  mutate(...mutations: AtomicMutation<T2, TInput>[]) {
     // Get collection ref
     const collection = this.collection
 
@@ -378,7 +488,10 @@ export class AtomicBuilder<
       }
 
       const { value: _, ...rest2 } = rest
-      const parsed = collection._model.parse(rest.value)
+      const parsed = stampVersion(
+        collection._model.parse(rest.value),
+        collection._migrations,
+      )
 
       return {
         key: idKey,
@@ -392,12 +505,29 @@ export class AtomicBuilder<
 
     // Addtional checks
     kvMutations.forEach((mut) => {
-      // If mutation type is "set", add check operation
+      // If mutation type is "set", add check operation and increment counters
       if (mut.type === "set") {
         this.operations.atomic.check({
           key: mut.key,
           versionstamp: null,
         })
+
+        addCount(1, this.operations.atomic, collection)
+
+        // Add the new document to derived collections and record the change
+        const id = getDocumentId(mut.key)
+        if (typeof id !== "undefined") {
+          this.addViewChange(id, null, mut.value)
+          addChange("set", id, mut.value, this.operations.atomic, collection)
+        }
+      }
+
+      // If mutation type is "delete", decrement counters and update derived collections if the document exists
+      if (mut.type === "delete") {
+        const id = getDocumentId(mut.key)
+        if (typeof id !== "undefined") {
+          this.prepareTrackedDelete(id, mut.key)
+        }
       }
 
       // If collection is indexable, handle indexing
@@ -516,6 +646,24 @@ export class AtomicBuilder<
       }
     }
 
+    // Prepare update ops, if any document could not be updated return commit error
+    const preparedUpdates = await Promise.all(
+      this.operations.prepareUpdateFns.map((fn) => fn(this.kv)),
+    )
+
+    if (preparedUpdates.some((prepared) => !prepared)) {
+      return {
+        ok: false,
+      }
+    }
+
+    // Add derived collection updates of all written documents
+    await applyViewChanges(
+      this.kv,
+      this.operations.atomic,
+      this.operations.viewChanges,
+    )
+
     // Prepare delete ops
     const preparedIndexDeletes = await allFulfilled(
       this.operations.prepareDeleteFns.map((fn) => fn(this.kv)),
@@ -557,4 +705,63 @@ export class AtomicBuilder<
     // Return commit result
     return commitResult
   }
+
+  /**
+   * Add a document change to be applied to the derived collections of the current collection.
+   *
+   * @param id - Document id.
+   * @param oldValue - Stored value being replaced, or null if no document existed.
+   * @param newValue - Stored value being written, or null if the document is deleted.
+   */
+  private addViewChange(id: KvId, oldValue: unknown, newValue: unknown) {
+    // If the collection has no derived collections, do nothing
+    const collection = this.collection
+    if (collection._views.length === 0) {
+      return
+    }
+
+    this.operations.viewChanges.push({
+      views: collection._views,
+      migrations: collection._migrations,
+      id,
+      oldValue,
+      newValue,
+    })
+  }
+
+  /**
+   * Prepare decrementing the counters of a deleted document, removing it from derived collections
+   * and recording the change, if maintained by the collection.
+   *
+   * The document entry is read when the atomic operation is committed,
+   * and changes are only applied if the document exists at the read versionstamp.
+   *
+   * @param id - Document id.
+   * @param idKey - Document id key.
+   */
+  private prepareTrackedDelete(id: KvId, idKey: Deno.KvKey) {
+    // If neither counters, derived collections nor the change log are maintained, do nothing
+    const collection = this.collection
+    if (
+      !collection._counterShards && collection._views.length === 0 &&
+      !collection._changelog
+    ) {
+      return
+    }
+
+    // Add preparation function checking the document and applying changes of the deleted document
+    const atomic = this.operations.atomic
+    this.operations.prepareUpdateFns.push(async (kv) => {
+      const { value, versionstamp } = await kv.get(idKey)
+
+      if (versionstamp !== null) {
+        atomic.check({ key: idKey, versionstamp })
+        addCount(-1, atomic, collection)
+        addChange("delete", id, null, atomic, collection)
+        this.addViewChange(id, value, null)
+      }
+
+      return true
+    })
+  }
 }
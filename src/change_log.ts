@@ -0,0 +1,281 @@
+import {
+  ATOMIC_OPERATION_MUTATION_LIMIT,
+  CHANGELOG_CLOCK_KEY_PREFIX,
+  CHANGELOG_KEY_PREFIX,
+  CHANGELOG_PENDING_KEY_PREFIX,
+  CHECKPOINT_KEY_PREFIX,
+  DEFAULT_CHANGELOG_RETENTION,
+} from "./constants.ts"
+import { InvalidChangesOptionsError } from "./errors.ts"
+import type {
+  Change,
+  ChangeEntry,
+  ChangesOptions,
+  ChangesResult,
+  CompactOptions,
+} from "./types.ts"
+import { allFulfilled, useAtomics } from "./utils.ts"
+
+/**
+ * Represents the durable change log of a database.
+ *
+ * Contains every document write of collections that record changes,
+ * written in the same atomic operation as the document.
+ * Writes of large collections are not recorded.
+ *
+ * Entries are written under pending keys, and are moved to keys
+ * ordered by versionstamp when changes are read.
+ */
+export class ChangeLog {
+  private kv: Deno.Kv
+
+  constructor(kv: Deno.Kv) {
+    this.kv = kv
+  }
+
+  /**
+   * Read all changes written after a versionstamp, in versionstamp order.
+   *
+   * Changes written in the same atomic operation share the same versionstamp,
+   * and are always read together. Pending change log entries are first ordered by versionstamp,
+   * after which only the entries written after the given versionstamp are read.
+   *
+   * @example
+   * ```ts
+   * // Read all recorded changes
+   * const { changes, versionstamp } = await db.changes.since(null)
+   *
+   * // Read the next 100 changes
+   * const next = await db.changes.since(versionstamp, { limit: 100 })
+   * ```
+   *
+   * @param versionstamp - Versionstamp to read changes after, or null to read all changes.
+   * @param options - Changes options, optional.
+   * @returns A promise that resolves to the read changes and the versionstamp of the last read change.
+   */
+  async since(
+    versionstamp: string | null,
+    options?: ChangesOptions,
+  ): Promise<ChangesResult> {
+    // Check that the limit is a positive integer
+    const limit = options?.limit
+    if (
+      typeof limit !== "undefined" && (!Number.isInteger(limit) || limit < 1)
+    ) {
+      throw new InvalidChangesOptionsError(`Invalid changes limit: ${limit}`)
+    }
+
+    // Order pending entries, getting the versionstamp before which all changes are ordered
+    const clock = await this.order()
+
+    // Read ordered entries written after the versionstamp and before the clock
+    const iter = this.kv.list<Change>({
+      start: versionstamp === null
+        ? [CHANGELOG_KEY_PREFIX]
+        : [CHANGELOG_KEY_PREFIX, versionstamp, true],
+      end: [CHANGELOG_KEY_PREFIX, clock],
+    })
+
+    // Collect changes until the limit is reached, without splitting atomic operations
+    const changes: Change[] = []
+
+    for await (const { value } of iter) {
+      const last = changes.at(-1)
+      if (
+        typeof limit !== "undefined" && changes.length >= limit &&
+        last?.versionstamp !== value.versionstamp
+      ) {
+        break
+      }
+
+      changes.push(value)
+    }
+
+    // Return changes and the versionstamp of the last read change
+    return {
+      changes,
+      versionstamp: changes.at(-1)?.versionstamp ?? versionstamp,
+    }
+  }
+
+  /**
+   * Read all changes written after the checkpoint of a consumer.
+   *
+   * The checkpoint is not moved, and should be set using `checkpoint()`
+   * once the read changes have been processed.
+   *
+   * @example
+   * ```ts
+   * const { changes, versionstamp } = await db.changes.read("search")
+   *
+   * // Process changes...
+   *
+   * await db.changes.checkpoint("search", versionstamp)
+   * ```
+   *
+   * @param consumer - Name of the consumer.
+   * @param options - Changes options, optional.
+   * @returns A promise that resolves to the read changes and the versionstamp of the last read change.
+   */
+  async read(consumer: string, options?: ChangesOptions) {
+    const versionstamp = await this.getCheckpoint(consumer)
+    return await this.since(versionstamp, options)
+  }
+
+  /**
+   * Set the checkpoint of a consumer, marking all changes up to a versionstamp as processed.
+   *
+   * @example
+   * ```ts
+   * await db.changes.checkpoint("search", versionstamp)
+   * ```
+   *
+   * @param consumer - Name of the consumer.
+   * @param versionstamp - Versionstamp of the last processed change, or null to reset the checkpoint.
+   * @returns A promise that resolves to void.
+   */
+  async checkpoint(consumer: string, versionstamp: string | null) {
+    const key = [CHECKPOINT_KEY_PREFIX, consumer]
+
+    // Delete the checkpoint if reset, otherwise set the versionstamp
+    if (versionstamp === null) {
+      await this.kv.delete(key)
+    } else {
+      await this.kv.set(key, versionstamp)
+    }
+  }
+
+  /**
+   * Get the checkpoint of a consumer.
+   *
+   * @example
+   * ```ts
+   * const versionstamp = await db.changes.getCheckpoint("search")
+   * ```
+   *
+   * @param consumer - Name of the consumer.
+   * @returns A promise that resolves to the versionstamp of the last processed change, or null if not set.
+   */
+  async getCheckpoint(consumer: string) {
+    const { value } = await this.kv.get<string>([
+      CHECKPOINT_KEY_PREFIX,
+      consumer,
+    ])
+
+    return value
+  }
+
+  /**
+   * Delete all change log entries older than the retention period.
+   *
+   * Entries are deleted in versionstamp order, until the first entry within the retention period.
+   *
+   * @example
+   * ```ts
+   * // Delete changes older than 7 days
+   * const count = await db.changes.compact()
+   *
+   * // Delete changes older than 1 day
+   * await db.changes.compact({ retention: 24 * 60 * 60 * 1_000 })
+   * ```
+   *
+   * @param options - Compact options, optional.
+   * @returns A promise that resolves to the number of deleted change log entries.
+   */
+  async compact(options?: CompactOptions) {
+    // Get the time before which entries are deleted
+    const retention = options?.retention ?? DEFAULT_CHANGELOG_RETENTION
+    const cutoff = Date.now() - retention
+
+    // Order pending entries, then collect keys of ordered entries written before the cutoff
+    await this.order()
+
+    const keys: Deno.KvKey[] = []
+    const iter = this.kv.list<Change>({ prefix: [CHANGELOG_KEY_PREFIX] })
+
+    for await (const { key, value } of iter) {
+      if (value.timestamp >= cutoff) {
+        break
+      }
+
+      keys.push(key)
+    }
+
+    // Delete the collected entries
+    await useAtomics(this.kv, keys, (key, atomic) => atomic.delete(key))
+
+    // Return the number of deleted entries
+    return keys.length
+  }
+
+  /**
+   * Move pending change log entries to keys ordered by versionstamp.
+   *
+   * A clock key is written first, and only entries written before its versionstamp are moved,
+   * as entries written while listing may be missed. All changes before the clock versionstamp
+   * are thereby ordered once moved, also if moved concurrently by another reader.
+   *
+   * @returns A promise that resolves to the clock versionstamp.
+   */
+  private async order() {
+    // Write the clock key to get the current versionstamp
+    const { versionstamp: clock } = await this.kv.set(
+      [CHANGELOG_CLOCK_KEY_PREFIX],
+      null,
+    )
+
+    // Move pending entries written before the clock in batches
+    const iter = this.kv.list<ChangeEntry>({
+      prefix: [CHANGELOG_PENDING_KEY_PREFIX],
+    })
+
+    let batch: Deno.KvEntry<ChangeEntry>[] = []
+
+    for await (const entry of iter) {
+      if (entry.versionstamp >= clock) {
+        continue
+      }
+
+      batch.push(entry)
+      if (batch.length === ATOMIC_OPERATION_MUTATION_LIMIT) {
+        await this.movePending(batch)
+        batch = []
+      }
+    }
+
+    await this.movePending(batch)
+    return clock
+  }
+
+  /**
+   * Move pending change log entries to keys ordered by versionstamp,
+   * keyed by the versionstamp of the write followed by the pending entry id.
+   *
+   * @param entries - Pending change log entries.
+   * @returns A promise that resolves to void.
+   */
+  private async movePending(entries: Deno.KvEntry<ChangeEntry>[]) {
+    if (entries.length === 0) {
+      return
+    }
+
+    // Delete pending entries and set ordered entries, checking that they were not already moved
+    const atomic = this.kv.atomic()
+    entries.forEach(({ key, value, versionstamp }) => {
+      atomic
+        .check({ key, versionstamp })
+        .delete(key)
+        .set(
+          [CHANGELOG_KEY_PREFIX, versionstamp, key[1]],
+          { ...value, versionstamp } satisfies Change,
+        )
+    })
+
+    const cr = await atomic.commit()
+
+    // If any entry was concurrently moved, move the entries one at a time
+    if (!cr.ok && entries.length > 1) {
+      await allFulfilled(entries.map((entry) => this.movePending([entry])))
+    }
+  }
+}
@@ -1,43 +1,112 @@
 import {
+  COUNTER_KEY_PREFIX,
+  DEFAULT_CONFLICT_RETRY,
+  DEFAULT_COUNTER_SHARDS,
+  DEFAULT_PAGE_SIZE,
+  DEFAULT_PAGE_TOKEN_SECRET,
+  DEFAULT_UPDATE_WITH_RETRY,
+  DEFAULT_UPSERT_RETRY,
   ID_KEY_PREFIX,
   KVDEX_KEY_PREFIX,
+  SORT_BUFFER_SIZE,
+  SORT_KEY_PREFIX,
   UNDELIVERED_KEY_PREFIX,
 } from "./constants.ts"
 import type {
+  AggregateOptions,
+  AggregateResult,
   CollectionKeys,
   CollectionOptions,
   CommitResult,
+  CountAllOptions,
   CountOptions,
+  DeleteOptions,
+  DocumentCallbackFailure,
+  DocumentData,
+  DocumentIterator,
   EnqueueOptions,
   FindManyOptions,
   FindOptions,
   IdGenerator,
   KvId,
   KvKey,
-  KvObject,
   KvValue,
   ListOptions,
+  ListOrder,
+  MigrateOptions,
+  MigrateProgress,
+  MigrateResult,
+  Migration,
   Model,
+  OrderedDocument,
+  PaginateOptions,
+  PaginateResult,
+  QueryDefinition,
+  QueryOrderDirection,
+  QueryPlan,
+  QueryResult,
   QueueListenerOptions,
   QueueMessageHandler,
   QueueValue,
   SetOptions,
-  UpdateData,
+  UpdateFn,
   UpdateManyOptions,
+  UpdateOptions,
+  UpdateStrategy,
+  UpdateValue,
+  UpdateWithOptions,
+  UpsertOptions,
+  UpsertResult,
+  UpsertValue,
+  WatchEvent,
+  WatchFilter,
+  WatchOptions,
 } from "./types.ts"
 import {
+  addChange,
+  addCount,
+  aggregateDocuments,
   allFulfilled,
+  applyUpdate,
+  applyViewChanges,
+  createCounterSelector,
+  createDocumentComparator,
+  createDocumentIterator,
   createHandlerId,
   createListSelector,
+  createQueryFilter,
+  createWatchStream,
+  decodeOrderCursor,
+  decodePageToken,
+  decodeQueryCursor,
+  encodeOrderCursor,
+  encodePageToken,
+  encodeQueryCursor,
   extendKey,
   generateId,
   getDocumentId,
-  isKvObject,
+  getFieldValue,
+  handleDocuments,
   kvGetMany,
+  mergeSorted,
+  migrateValue,
+  parseDeleteArgs,
   prepareEnqueue,
+  readCount,
+  stampVersion,
+  stringifyKey,
+  useAtomics,
 } from "./utils.ts"
 import { Document } from "./document.ts"
-import { model } from "./model.ts"
+import { model, toValidatedModel } from "./model.ts"
+import { Query } from "./query.ts"
+import {
+  DocumentCallbackError,
+  InvalidPaginationError,
+  InvalidQueryError,
+  SortRunError,
+} from "./errors.ts"
+import type { DerivedCollection } from "./derived_collection.ts"
 
 /**
  * Create a collection builder function.
@@ -53,8 +122,8 @@ import { model } from "./model.ts"
  * @param options - Collection options.
  * @returns A collection builder function.
  */
-export function collection<const T1 extends KvValue>(
-  model: Model<T1>,
+export function collection<const T1 extends KvValue, const TInput = T1>(
+  model: Model<T1, TInput>,
   options?: CollectionOptions<T1>,
 ) {
   return (
@@ -63,7 +132,7 @@ export function collection<const T1 extends KvValue>(
     queueHandlers: Map<string, QueueMessageHandler<QueueValue>[]>,
     idempotentListener: () => void,
   ) =>
-    new Collection<T1, CollectionOptions<T1>>(
+    new Collection<T1, CollectionOptions<T1>, TInput>(
       kv,
       key,
       model,
@@ -81,6 +150,7 @@ export function collection<const T1 extends KvValue>(
 export class Collection<
   const T1 extends KvValue,
   const T2 extends CollectionOptions<T1>,
+  const TInput = T1,
 > {
   private queueHandlers: Map<string, QueueMessageHandler<QueueValue>[]>
   private idempotentListener: () => void
@@ -90,11 +160,17 @@ export class Collection<
   readonly _idGenerator: IdGenerator<KvValue>
   readonly _keys: CollectionKeys
   readonly _model: Model<T1>
+  readonly _migrations: Migration[]
+  readonly _writeBackMigrations: boolean
+  readonly _counterShards: number
+  readonly _changelog: boolean
+  readonly _pageTokenSecret: Uint8Array
+  readonly _views: DerivedCollection<KvValue, KvValue>[]
 
   constructor(
     kv: Deno.Kv,
     key: KvKey,
-    model: Model<T1>,
+    model: Model<T1, TInput>,
     queueHandlers: Map<string, QueueMessageHandler<QueueValue>[]>,
     idempotentListener: () => void,
     options?: T2,
@@ -110,8 +186,30 @@ export class Collection<
     this._idGenerator = options?.idGenerator as IdGenerator<KvValue> ??
       generateId
 
-    // Set model
-    this._model = model
+    // Set model, wrapping schemas to throw validation errors
+    this._model = toValidatedModel(model)
+
+    // Set schema migrations
+    this._migrations = options?.migrations ?? []
+    this._writeBackMigrations = options?.writeBackMigrations ?? false
+
+    // Set number of counter shards, zero if counters are not maintained
+    this._counterShards = options?.counter === true
+      ? DEFAULT_COUNTER_SHARDS
+      : options?.counter
+      ? options.counter.shards ?? DEFAULT_COUNTER_SHARDS
+      : 0
+
+    // Set whether document writes are recorded in the change log
+    this._changelog = options?.changelog ?? false
+
+    // Set secret key of page tokens
+    this._pageTokenSecret = typeof options?.pageTokenSecret === "string"
+      ? new TextEncoder().encode(options.pageTokenSecret)
+      : options?.pageTokenSecret ?? DEFAULT_PAGE_TOKEN_SECRET
+
+    // Set derived collections, linked when the database schema is created
+    this._views = []
 
     // Set the collection keys
     this._keys = {
@@ -121,6 +219,11 @@ export class Collection<
         ...key,
         ID_KEY_PREFIX,
       ),
+      counterKey: extendKey(
+        [KVDEX_KEY_PREFIX],
+        ...key,
+        COUNTER_KEY_PREFIX,
+      ),
     }
   }
 
@@ -151,7 +254,7 @@ export class Collection<
     }
 
     // Return document
-    return new Document<T1>(this._model, {
+    return await this.constructDocument({
       id,
       versionstamp: result.versionstamp,
       value: result.value,
@@ -196,7 +299,7 @@ export class Collection<
 
       // Add document to result list
       result.push(
-        new Document<T1>(this._model, {
+        await this.constructDocument({
           id,
           versionstamp,
           value,
@@ -223,7 +326,7 @@ export class Collection<
    * @param options - Set options, optional.
    * @returns Promise resolving to a CommitResult object.
    */
-  async add(value: T1, options?: SetOptions) {
+  async add(value: TInput, options?: SetOptions) {
     // Set document value with generated id
     return await this.setDocument(null, value, options, false)
   }
@@ -244,7 +347,7 @@ export class Collection<
    * @param options - Set options, optional.
    * @returns Promise resolving to a CommitResult object.
    */
-  async set(id: KvId, data: T1, options?: SetOptions) {
+  async set(id: KvId, data: TInput, options?: SetOptions) {
     return await this.setDocument(id, data, options, false)
   }
 
@@ -267,27 +370,67 @@ export class Collection<
    * @param options - Set options, optional.
    * @returns Promise resolving to a CommitResult object.
    */
-  async write(id: KvId, value: T1, options?: SetOptions) {
+  async write(id: KvId, value: TInput, options?: SetOptions) {
     return await this.setDocument(id, value, options, true)
   }
 
   /**
    * Deletes one or more documents with the given ids from the KV store.
    *
+   * A single document can be deleted with delete options,
+   * such as only deleting the document if it is at an expected versionstamp.
+   *
    * @example
    * ```ts
    * await db.users.delete("oliver")
    *
    * await db.users.delete("user1", "user2", "user3")
+   *
+   * // Only deletes the document if it is unchanged since being read
+   * const cr = await db.users.delete("oliver", {
+   *   ifVersionstamp: doc.versionstamp,
+   * })
    * ```
    * @param ids - IDs of documents to be deleted.
    * @returns A promise that resovles to void.
    */
-  async delete(...ids: KvId[]) {
+  async delete(...ids: KvId[]): Promise<void>
+
+  /**
+   * Deletes a document with the given id from the KV store, using delete options.
+   *
+   * @param id - ID of document to be deleted.
+   * @param options - Delete options.
+   * @returns A promise that resolves to a commit result.
+   */
+  async delete(
+    id: KvId,
+    options: DeleteOptions,
+  ): Promise<Deno.KvCommitResult | Deno.KvCommitError>
+
+  async delete(
+    ...args: (KvId | DeleteOptions)[]
+  ): Promise<Deno.KvCommitResult | Deno.KvCommitError | void> {
+    // Get document ids and delete options
+    const { ids, options } = parseDeleteArgs(args)
+
+    // If delete options are given, perform checked delete of single document
+    if (options) {
+      return await this.deleteDocument(ids[0], options)
+    }
+
     // Perform delete operation for each id
     await allFulfilled(ids.map(async (id) => {
       const key = extendKey(this._keys.idKey, id)
-      await this.kv.delete(key)
+
+      // If writes are not tracked, delete the document entry directly
+      if (!this.isTracked()) {
+        await this.kv.delete(key)
+        return
+      }
+
+      // Delete the document at its current versionstamp, retry if concurrently modified
+      await this.deleteDocument(id, {})
     }))
   }
 
@@ -300,6 +443,8 @@ export class Collection<
    * For custom object types, this method merges the
    * new data with the exisiting data.
    *
+   * A different update strategy can be selected using the strategy option.
+   *
    * @example
    * ```ts
    * const result1 = await db.numbers.update("num1", 10)
@@ -307,17 +452,27 @@ export class Collection<
    * const result2 = await db.users.update("oliver", {
    *   age: 30 // Partial update, only updates the age field
    * })
+   *
+   * // Deep update, only updates the city of the address field
+   * const result3 = await db.users.update("oliver", {
+   *   address: { city: "Oslo" },
+   * }, { strategy: "deep" })
+   *
+   * // JSON Patch update
+   * const result4 = await db.users.update("oliver", [
+   *   { op: "replace", path: "/address/city", value: "Oslo" },
+   * ], { strategy: "json-patch" })
    * ```
    *
    * @param id - Id of document to be updated
    * @param data - Updated data to be inserted into document
-   * @param options - Set options, optional.
+   * @param options - Update options, optional.
    * @returns
    */
-  async update(
+  async update<TStrategy extends UpdateStrategy = "shallow">(
     id: KvId,
-    data: UpdateData<T1>,
-    options?: SetOptions,
+    data: UpdateValue<T1, TStrategy, TInput>,
+    options?: UpdateOptions<TStrategy>,
   ): Promise<CommitResult<T1> | Deno.KvCommitError> {
     // Get document
     const doc = await this.find(id)
@@ -333,6 +488,126 @@ export class Collection<
     return await this.updateDocument(doc, data, options)
   }
 
+  /**
+   * Update a document with the given id by applying an update function to its current value.
+   *
+   * The new value is written with a check against the versionstamp of the read document.
+   * If the document is concurrently modified, the update function is re-run
+   * on the current value until the write succeeds or retry attempts are spent.
+   *
+   * @example
+   * ```ts
+   * const result = await db.users.updateWith("oliver", (user) => ({
+   *   ...user,
+   *   loginCount: user.loginCount + 1,
+   * }))
+   * ```
+   *
+   * @param id - Id of document to be updated.
+   * @param fn - Update function, receives the current document value and returns the new value.
+   * @param options - Update with options, optional.
+   * @returns Promise resolving to a CommitResult object.
+   */
+  async updateWith(
+    id: KvId,
+    fn: UpdateFn<T1, TInput>,
+    options?: UpdateWithOptions,
+  ): Promise<CommitResult<T1> | Deno.KvCommitError> {
+    // Get document
+    const doc = await this.find(id)
+
+    // If no document is found, return commit error
+    if (!doc) {
+      return {
+        ok: false,
+      }
+    }
+
+    // Write new document value, checking that the document is unchanged
+    const cr = await this.setDocument(id, fn(doc.value), {
+      ...options,
+      retry: 0,
+      ifVersionstamp: doc.versionstamp,
+    }, true)
+
+    // Re-run update function on current document if remaining attempts
+    const retry = options?.retry ?? DEFAULT_UPDATE_WITH_RETRY
+    if (!cr.ok && retry > 0) {
+      return await this.updateWith(id, fn, {
+        ...options,
+        retry: retry - 1,
+      })
+    }
+
+    // Return commit result or error
+    return cr
+  }
+
+  /**
+   * Update a document with the given id if it exists, otherwise insert a new document.
+   *
+   * An existing document is updated with a check against its read versionstamp,
+   * while a new document is only inserted if no document exists.
+   * If the document is concurrently inserted or modified, the upsert is re-attempted.
+   *
+   * @example
+   * ```ts
+   * const result = await db.users.upsert("oliver", {
+   *   update: { age: 25 },
+   *   set: {
+   *     username: "oliver",
+   *     age: 25,
+   *   },
+   * })
+   *
+   * console.log(result.ok && result.inserted) // true if a new document was inserted
+   * ```
+   *
+   * @param id - Id of document to be upserted.
+   * @param value - Update data for an existing document, and value for a new document.
+   * @param options - Upsert options, optional.
+   * @returns Promise resolving to an UpsertResult object.
+   */
+  async upsert<TStrategy extends UpdateStrategy = "shallow">(
+    id: KvId,
+    value: UpsertValue<T1, TStrategy, TInput>,
+    options?: UpsertOptions<TStrategy>,
+  ): Promise<UpsertResult<T1> | Deno.KvCommitError> {
+    // Get document
+    const doc = await this.find(id)
+
+    // Update existing document at read versionstamp, or set new document
+    const cr = doc
+      ? await this.updateDocument(doc, value.update, {
+        ...options,
+        retry: 0,
+        ifVersionstamp: doc.versionstamp,
+      })
+      : await this.setDocument(id, value.set, { ...options, retry: 0 }, false)
+
+    // Return upsert result if successful
+    if (cr.ok) {
+      return {
+        ...cr,
+        inserted: !doc,
+      }
+    }
+
+    // Re-attempt upsert if remaining attempts
+    const retry = options?.retry ?? DEFAULT_UPSERT_RETRY
+    if (retry > 0) {
+      return await this.upsert(id, value, {
+        ...options,
+        retry: retry - 1,
+      })
+    }
+
+    // Return commit error
+    return {
+      ok: false,
+    }
+  }
+
   /**
    * Update the value of multiple existing documents in the collection.
    *
@@ -357,13 +632,13 @@ export class Collection<
    * @param options - Update many options, optional.
    * @returns Promise resolving to an object containing iterator cursor and result list.
    */
-  async updateMany(
-    value: UpdateData<T1>,
-    options?: UpdateManyOptions<T1>,
+  async updateMany<TStrategy extends UpdateStrategy = "shallow">(
+    value: UpdateValue<T1, TStrategy, TInput>,
+    options?: UpdateManyOptions<T1, TStrategy>,
   ) {
     // Update each document, add commit result to result list
     return await this.handleMany(
-      this._keys.idKey,
+      createListSelector(this._keys.idKey, options),
       (doc) => this.updateDocument(doc, value, options),
       options,
     )
@@ -394,7 +669,7 @@ export class Collection<
    * @param options - Set options, optional.
    * @returns A promise that resolves to a list of Deno.KvCommitResult or Deno.KvCommitError objects
    */
-  async addMany(values: T1[], options?: SetOptions) {
+  async addMany(values: TInput[], options?: SetOptions) {
     // Initiate result and error lists
     const results: (CommitResult<T1> | Deno.KvCommitError)[] = []
     const errors: unknown[] = []
@@ -442,7 +717,7 @@ export class Collection<
   async deleteMany(options?: ListOptions<T1>) {
     // Execute delete operation for each document entry
     const { cursor } = await this.handleMany(
-      this._keys.idKey,
+      createListSelector(this._keys.idKey, options),
       (doc) => this.delete(doc.id),
       options,
     )
@@ -470,14 +745,182 @@ export class Collection<
    * @returns A promise that resovles to an object containing a list of the retrieved documents and the iterator cursor
    */
   async getMany(options?: ListOptions<T1>) {
+    // Get each document in field order if ordered
+    if (options?.orderBy) {
+      return await this.handleManyOrdered(
+        options.orderBy,
+        (doc) => doc,
+        options,
+      )
+    }
+
     // Get each document, return result list and current iterator cursor
     return await this.handleMany(
-      this._keys.idKey,
+      createListSelector(this._keys.idKey, options),
       (doc) => doc,
       options,
     )
   }
 
+  /**
+   * Lists documents in the collection as an async iterator, according to the given options.
+   *
+   * Documents are lazily listed as they are iterated,
+   * allowing any number of documents to be processed in constant memory.
+   * The iterator cursor can be used to resume listing after the last yielded document.
+   *
+   * If no options are given, all documents are listed.
+   *
+   * @example
+   * ```ts
+   * // List all users
+   * for await (const doc of db.users.list()) {
+   *   console.log(doc.value)
+   * }
+   *
+   * // List users with username that starts with "a", stopping after the first 100
+   * const iter = db.users.list({
+   *   filter: doc => doc.value.username.startsWith("a")
+   * })
+   *
+   * let count = 0
+   * for await (const doc of iter) {
+   *   if (++count === 100) break
+   * }
+   *
+   * // Resume listing after the last yielded document
+   * const rest = db.users.list({ cursor: iter.cursor })
+   * ```
+   *
+   * @param options - List options, optional.
+   * @returns A document iterator.
+   */
+  list(options?: ListOptions<T1>): DocumentIterator<T1> {
+    // List documents by id keys
+    return this.listDocuments(
+      createListSelector(this._keys.idKey, options),
+      options,
+    )
+  }
+
+  /**
+   * Gets a page of documents in the collection.
+   *
+   * Documents are listed until the page is full, so that filtered pages have a predictable size.
+   * The returned page tokens are opaque and tamper-evident,
+   * encoding the cursor, page size and order of the listing.
+   * Tokens are signed with the `pageTokenSecret` collection option if set,
+   * otherwise with a secret generated per process, which is lost on restart.
+   *
+   * @example
+   * ```ts
+   * // Get the first page of users with age > 20
+   * const page1 = await db.users.paginate({
+   *   pageSize: 50,
+   *   filter: doc => doc.value.age > 20
+   * })
+   *
+   * // Get the next page, then go back to the previous page
+   * const page2 = await db.users.paginate({
+   *   pageToken: page1.nextPageToken,
+   *   filter: doc => doc.value.age > 20
+   * })
+   *
+   * const previous = await db.users.paginate({
+   *   pageToken: page2.previousPageToken,
+   *   filter: doc => doc.value.age > 20
+   * })
+   * ```
+   *
+   * @param options - Paginate options, optional.
+   * @returns A promise that resolves to an object containing the page of documents and the next and previous page tokens.
+   */
+  async paginate(options?: PaginateOptions<T1>): Promise<PaginateResult<T1>> {
+    // Decode page token, check that it matches the given options
+    const token = options?.pageToken
+      ? await decodePageToken(
+        options.pageToken,
+        this._keys.baseKey,
+        this._pageTokenSecret,
+      )
+      : undefined
+
+    if (
+      token && (
+        (options?.pageSize ?? token.pageSize) !== token.pageSize ||
+        (options?.reverse ?? token.reverse) !== token.reverse
+      )
+    ) {
+      throw new InvalidPaginationError(
+        "Page token does not match the pagination options",
+      )
+    }
+
+    const pageSize = token?.pageSize ?? options?.pageSize ?? DEFAULT_PAGE_SIZE
+    const reverse = token?.reverse ?? options?.reverse ?? false
+    const backward = token?.backward ?? false
+
+    // Check that page size is a positive integer
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new InvalidPaginationError(`Invalid page size: ${pageSize}`)
+    }
+
+    // List documents, in the opposite direction if paging backward
+    const iter = this.listDocuments({ prefix: this._keys.idKey }, {
+      cursor: token?.cursor,
+      reverse: reverse !== backward,
+      consistency: options?.consistency,
+      filter: options?.filter,
+    })
+
+    // Collect documents until the page is full, tracking the cursors of the first and last document
+    const docs: Document<T1>[] = []
+    let firstCursor: string | undefined = undefined
+    let lastCursor: string | undefined = undefined
+    let more = false
+
+    for await (const doc of iter) {
+      // Stop when a document beyond the page is found
+      if (docs.length === pageSize) {
+        more = true
+        break
+      }
+
+      docs.push(doc)
+      firstCursor ??= iter.cursor
+      lastCursor = iter.cursor
+    }
+
+    // Create a page token from a cursor, if defined
+    const createToken = async (cursor: string | undefined, back: boolean) =>
+      cursor
+        ? await encodePageToken(
+          { cursor, pageSize, reverse, backward: back },
+          this._keys.baseKey,
+          this._pageTokenSecret,
+        )
+        : undefined
+
+    // Return page in list order with tokens of the surrounding pages
+    if (backward) {
+      return {
+        result: docs.reverse(),
+        nextPageToken: await createToken(firstCursor ?? token?.cursor, false),
+        previousPageToken: more
+          ? await createToken(lastCursor, true)
+          : undefined,
+      }
+    }
+
+    return {
+      result: docs,
+      nextPageToken: more ? await createToken(lastCursor, false) : undefined,
+      previousPageToken: token
+        ? await createToken(firstCursor ?? token.cursor, true)
+        : undefined,
+    }
+  }
+
   /**
    * Executes a callback function for every document according to the given options.
    *
@@ -492,6 +935,11 @@ export class Collection<
    * await db.users.forEach(doc => console.log(doc.value.username), {
    *   filter: doc => doc.value.age < 18
    * })
+   *
+   * // Notify all users, with at most 10 notifications sent at a time
+   * await db.users.forEach(doc => notify(doc.value), {
+   *   concurrency: 10
+   * })
    * ```
    *
    * @param fn - Callback function.
@@ -500,11 +948,13 @@ export class Collection<
    */
   async forEach(fn: (doc: Document<T1>) => void, options?: ListOptions<T1>) {
     // Execute callback function for each document entry and return cursor
-    const { cursor } = await this.handleMany(
-      this._keys.idKey,
-      (doc) => fn(doc),
-      options,
-    )
+    const { cursor } = options?.orderBy
+      ? await this.handleManyOrdered(options.orderBy, (doc) => fn(doc), options)
+      : await this.handleMany(
+        createListSelector(this._keys.idKey, options),
+        (doc) => fn(doc),
+        options,
+      )
 
     return { cursor }
   }
@@ -535,9 +985,18 @@ export class Collection<
     fn: (doc: Document<T1>) => T,
     options?: ListOptions<T1>,
   ) {
+    // Execute callback function for each document in field order if ordered
+    if (options?.orderBy) {
+      return await this.handleManyOrdered(
+        options.orderBy,
+        (doc) => fn(doc),
+        options,
+      )
+    }
+
     // Execute callback function for each document entry, return result and cursor
     return await this.handleMany(
-      this._keys.idKey,
+      createListSelector(this._keys.idKey, options),
       (doc) => fn(doc),
       options,
     )
@@ -546,6 +1005,9 @@ export class Collection<
   /**
    * Counts the number of documents in the collection.
    *
+   * If the collection maintains counters and no filter is given,
+   * the count is read from the materialized document counter instead of listing documents.
+   *
    * @example
    * ```ts
    * // Returns the total number of user documents in the KV store
@@ -561,104 +1023,400 @@ export class Collection<
    * @returns A promise that resolves to a number representing the performed count.
    */
   async count(options?: CountOptions<T1>) {
+    // Read the document counter if maintained and no filter is given
+    if (this._counterShards && !options?.filter) {
+      return await this.readCounter([], options)
+    }
+
     // Initiate count variable, increment for each document entry, return result
     let result = 0
-    await this.handleMany(this._keys.idKey, () => result++, options)
+    await this.handleMany(
+      createListSelector(this._keys.idKey, options),
+      () => result++,
+      options,
+    )
     return result
   }
 
   /**
-   * Add data to the collection queue to be delivered to the queue listener
-   * via ``db.collection.listenQueue()``. The data will only be received by queue
-   * listeners on the specified collection and topic. The method takes an optional options
-   * argument that can be used to set a delivery delay and topic.
+   * Recounts all documents in the collection and repairs its materialized counters.
+   *
+   * Documents are lazily listed and counted, after which every counter is reset to its recounted value.
+   * Should be run after counters were enabled for an existing collection,
+   * or after documents were written outside of the collection methods, such as by reindexing.
+   * Writes performed while recounting may not be reflected in the repaired counters.
    *
    * @example
    * ```ts
-   * // Immediate delivery
-   * await db.users.enqueue("some data")
-   *
-   * // Delay of 2 seconds before delivery, sent to the "food" topic
-   * await db.users.enqueue("cake", {
-   *   delay: 2_000,
-   *   topic: "food"
-   * })
+   * // Repair the user counters, returns the number of user documents
+   * const count = await db.users.recount()
    * ```
    *
-   * @param data - Data to be added to the collection queue.
-   * @param options - Enqueue options, optional.
-   * @returns - Promise resolving to Deno.KvCommitResult.
+   * @param options - Count all options, optional.
+   * @returns A promise that resolves to the number of documents in the collection.
    */
-  async enqueue(data: QueueValue, options?: EnqueueOptions) {
-    // Prepare message and options for enqueue
-    const prep = prepareEnqueue(
-      this._keys.baseKey,
-      data,
-      options,
+  async recount(options?: CountAllOptions) {
+    // Count documents for every counter
+    const counts = new Map<string, { keyParts: Deno.KvKey; count: number }>()
+    const iter = this.listDocuments({ prefix: this._keys.idKey }, options)
+
+    for await (const doc of iter) {
+      this.getCounterKeyParts(doc).forEach((keyParts) => {
+        const counterId = stringifyKey(keyParts)
+        const counter = counts.get(counterId) ?? { keyParts, count: 0 }
+        counter.count++
+        counts.set(counterId, counter)
+      })
+    }
+
+    // Get the total document count
+    const total = counts.get(stringifyKey([]))?.count ?? 0
+
+    // If counters are not maintained, return the count without repairing counters
+    if (!this._counterShards) {
+      return total
+    }
+
+    // Create counter entries storing recounted values at the first shard
+    const entries = Array.from(counts.values()).map(({ keyParts, count }) => ({
+      key: extendKey(this._keys.counterKey, ...keyParts as KvKey, 0),
+      value: new Deno.KvU64(BigInt(count)),
+    }))
+
+    // Collect stale counter shards that are not reset
+    const entryKeys = new Set(entries.map(({ key }) => stringifyKey(key)))
+    const staleKeys: KvKey[] = []
+
+    for await (
+      const { key } of this.kv.list({ prefix: this._keys.counterKey })
+    ) {
+      if (!entryKeys.has(stringifyKey(key))) {
+        staleKeys.push(key as KvKey)
+      }
+    }
+
+    // Delete stale counter shards and reset counters
+    await useAtomics(this.kv, staleKeys, (key, atomic) => atomic.delete(key))
+    await useAtomics(
+      this.kv,
+      entries,
+      ({ key, value }, atomic) => atomic.set(key, value),
     )
 
-    // Enqueue message with options
-    return await this.kv.enqueue(prep.msg, prep.options)
+    // Return the total document count
+    return total
   }
 
   /**
-   * Listen for data from the collection queue that was enqueued with ``db.collection.enqueue()``.
-   * Will only receive data that was enqueued to the specific collection queue.
-   * Takes a handler function as argument.
+   * Aggregates documents in the collection, optionally grouped by the value of a field.
+   *
+   * Documents are aggregated as they are listed, without keeping them in memory.
+   * Null and undefined field values are ignored by sum, avg, min and max.
    *
    * @example
    * ```ts
-   * // Prints the data to console when recevied
-   * db.users.listenQueue((data) => console.log(data))
-   *
-   * // Sends post request when data is received in the "posts" topic
-   * db.users.listenQueue(async (data) => {
-   *   const dataBody = JSON.stringify(data)
-   *
-   *   const res = await fetch("...", {
-   *     method: "POST",
-   *     body: dataBody
-   *   })
+   * // Returns the number of users and their average age
+   * const { count, avg } = await db.users.aggregate({ avg: "age" })
+   *
+   * // Returns a map of total amount and min/max latency by order status
+   * const byStatus = await db.orders.aggregate({
+   *   groupBy: "status",
+   *   sum: "amount",
+   *   min: "latency",
+   *   max: "latency",
+   *   filter: (doc) => doc.value.amount > 0,
+   * })
    *
-   *   console.log("POSTED:", dataBody, res.ok)
-   * }, { topic: "posts" })
+   * const { count, sum, min, max } = byStatus.get("paid")
    * ```
    *
-   * @param handler - Message handler function.
-   * @param options - Queue listener options.
-   * @returns void.
+   * @param options - Aggregate options, optional.
+   * @returns A promise that resolves to the aggregate values, or a map of aggregate values by group value if grouped.
    */
-  listenQueue<T extends QueueValue = QueueValue>(
-    handler: QueueMessageHandler<T>,
-    options?: QueueListenerOptions,
-  ) {
-    // Create handler id
-    const handlerId = createHandlerId(this._keys.baseKey, options?.topic)
-
-    // Add new handler to specified handlers
-    const handlers = this.queueHandlers.get(handlerId) ?? []
-    handlers.push(handler as QueueMessageHandler<QueueValue>)
-    this.queueHandlers.set(handlerId, handlers)
+  async aggregate<const TOptions extends AggregateOptions<T1>>(
+    options?: TOptions,
+  ): Promise<AggregateResult<T1, TOptions>> {
+    // List documents and aggregate them as they are iterated
+    const result = await aggregateDocuments(
+      this.listDocuments(
+        createListSelector(this._keys.idKey, options),
+        options,
+      ),
+      options,
+    )
 
-    // Activate idempotent listener
-    this.idempotentListener()
+    return result as AggregateResult<T1, TOptions>
   }
 
   /**
-   * Find an undelivered document entry by id from the collection queue.
+   * Creates a declarative query for documents in the collection.
+   *
+   * Queries are executed by scanning and filtering all documents.
+   * Indexable collections automatically use the best matching primary or secondary index.
    *
    * @example
    * ```ts
-   * const doc1 = await db.users.findUndelivered("undelivered_id")
+   * // Get the 50 youngest adult admins
+   * const { result, cursor } = await db.users
+   *   .query()
+   *   .where("age", ">=", 18)
+   *   .where("role", "==", "admin")
+   *   .orderBy("age")
+   *   .limit(50)
+   *   .get()
+   * ```
    *
-   * const doc2 = await db.users.findUndelivered("undelivered_id", {
-   *   consistency: "eventual", // "strong" by default
+   * @returns A new Query instance.
+   */
+  query(): Query<T1> {
+    // Create query that is planned and executed on get
+    return new Query<T1>(async (definition) =>
+      await this.executeQuery(this.planQuery(definition), definition)
+    )
+  }
+
+  /**
+   * Eagerly migrate all outdated documents in the collection to the current schema version.
+   *
+   * Documents are otherwise migrated lazily when read.
+   * Documents that are concurrently modified while being migrated are reported as failed,
+   * and the migration should be run again.
+   *
+   * Migration can be performed in pages by setting a limit and resuming from the returned cursor.
+   *
+   * @example
+   * ```ts
+   * // Migrate all documents, logging the progress
+   * const result = await db.users.migrate({
+   *   onProgress: ({ processed, total }) => console.log(`${processed}/${total}`)
    * })
+   *
+   * // Migrate 1000 documents at a time
+   * let cursor: string | undefined = undefined
+   * do {
+   *   const result = await db.users.migrate({ limit: 1_000, cursor })
+   *   cursor = result.cursor
+   * } while (cursor)
    * ```
    *
-   * @param id - Document id.
-   * @param options - Find options, optional.
-   * @returns Document if found, null if not.
+   * @param options - Migrate options, optional.
+   * @returns Promise resolving to a MigrateResult object.
+   */
+  async migrate(options?: MigrateOptions): Promise<MigrateResult> {
+    // Create list selector for document id keys
+    const selector = { prefix: this._keys.idKey }
+
+    // Count the total number of documents
+    let total = 0
+    for await (
+      const _ of this.kv.list(selector, {
+        consistency: options?.consistency,
+      })
+    ) {
+      total++
+    }
+
+    // Initiate progress
+    const progress: MigrateProgress = {
+      total,
+      processed: 0,
+      migrated: 0,
+      failed: 0,
+    }
+
+    // Loop over document entries
+    const iter = this.kv.list(selector, options)
+    for await (const { key } of iter) {
+      // Get document id, continue to next entry if undefined
+      const id = getDocumentId(key)
+      if (typeof id === "undefined") {
+        continue
+      }
+
+      // Migrate document and update progress
+      const cr = await this.migrateDocument(id, options)
+      progress.processed++
+
+      if (cr?.ok) {
+        progress.migrated++
+      } else if (cr) {
+        progress.failed++
+      }
+
+      // Report progress
+      await options?.onProgress?.({ ...progress })
+    }
+
+    // Return migration result
+    return {
+      ok: progress.failed === 0,
+      cursor: iter.cursor || undefined,
+      ...progress,
+    }
+  }
+
+  /**
+   * Watch documents in the collection for changes.
+   *
+   * Returns a stream of change events of type `insert`, `update` or `delete`,
+   * containing the old and new documents. Documents watched by id are watched using `Deno.Kv.watch()`,
+   * falling back to polling if not available. Documents watched by filter, or all documents
+   * if no ids or filter are given, are watched by polling the document keys and versionstamps
+   * of the collection on every interval, reading only changed documents.
+   * Documents that start matching the filter emit an `insert` event,
+   * and documents that stop matching the filter emit a `delete` event.
+   *
+   * Cancel the stream or abort the given signal to stop watching.
+   *
+   * @example
+   * ```ts
+   * // Watch a single user
+   * for await (const event of db.users.watch("user1")) {
+   *   console.log(event.type, event.oldDoc?.value, event.newDoc?.value)
+   * }
+   *
+   * // Watch all users older than 18, polling every 5 seconds
+   * const stream = db.users.watch((doc) => doc.value.age > 18, {
+   *   interval: 5_000,
+   * })
+   * ```
+   *
+   * @param ids - Id or array of ids of documents to watch.
+   * @param options - Watch options, optional.
+   * @returns A stream of change events.
+   */
+  watch(
+    ids: KvId | KvId[],
+    options?: WatchOptions,
+  ): ReadableStream<WatchEvent<T1>>
+
+  watch(
+    filter?: WatchFilter<T1>,
+    options?: WatchOptions,
+  ): ReadableStream<WatchEvent<T1>>
+
+  watch(
+    idsOrFilter?: KvId | KvId[] | WatchFilter<T1>,
+    options?: WatchOptions,
+  ) {
+    // If watching by filter or all documents, poll the document keys of the collection
+    if (
+      typeof idsOrFilter === "function" || typeof idsOrFilter === "undefined"
+    ) {
+      return createWatchStream(
+        this.kv,
+        { prefix: this._keys.idKey },
+        (ids) => this.findMany(ids),
+        idsOrFilter,
+        options,
+      )
+    }
+
+    // Watch documents by id, reading the documents whenever a document key changes
+    const ids = Array.isArray(idsOrFilter) ? idsOrFilter : [idsOrFilter]
+    const keys = ids.map((id) => extendKey(this._keys.idKey, id))
+
+    return createWatchStream(
+      this.kv,
+      keys,
+      (ids) => this.findMany(ids),
+      undefined,
+      options,
+    )
+  }
+
+  /**
+   * Add data to the collection queue to be delivered to the queue listener
+   * via ``db.collection.listenQueue()``. The data will only be received by queue
+   * listeners on the specified collection and topic. The method takes an optional options
+   * argument that can be used to set a delivery delay and topic.
+   *
+   * @example
+   * ```ts
+   * // Immediate delivery
+   * await db.users.enqueue("some data")
+   *
+   * // Delay of 2 seconds before delivery, sent to the "food" topic
+   * await db.users.enqueue("cake", {
+   *   delay: 2_000,
+   *   topic: "food"
+   * })
+   * ```
+   *
+   * @param data - Data to be added to the collection queue.
+   * @param options - Enqueue options, optional.
+   * @returns - Promise resolving to Deno.KvCommitResult.
+   */
+  async enqueue(data: QueueValue, options?: EnqueueOptions) {
+    // Prepare message and options for enqueue
+    const prep = prepareEnqueue(
+      this._keys.baseKey,
+      data,
+      options,
+    )
+
+    // Enqueue message with options
+    return await this.kv.enqueue(prep.msg, prep.options)
+  }
+
+  /**
+   * Listen for data from the collection queue that was enqueued with ``db.collection.enqueue()``.
+   * Will only receive data that was enqueued to the specific collection queue.
+   * Takes a handler function as argument.
+   *
+   * @example
+   * ```ts
+   * // Prints the data to console when recevied
+   * db.users.listenQueue((data) => console.log(data))
+   *
+   * // Sends post request when data is received in the "posts" topic
+   * db.users.listenQueue(async (data) => {
+   *   const dataBody = JSON.stringify(data)
+   *
+   *   const res = await fetch("...", {
+   *     method: "POST",
+   *     body: dataBody
+   *   })
+   *
+   *   console.log("POSTED:", dataBody, res.ok)
+   * }, { topic: "posts" })
+   * ```
+   *
+   * @param handler - Message handler function.
+   * @param options - Queue listener options.
+   * @returns void.
+   */
+  listenQueue<T extends QueueValue = QueueValue>(
+    handler: QueueMessageHandler<T>,
+    options?: QueueListenerOptions,
+  ) {
+    // Create handler id
+    const handlerId = createHandlerId(this._keys.baseKey, options?.topic)
+
+    // Add new handler to specified handlers
+    const handlers = this.queueHandlers.get(handlerId) ?? []
+    handlers.push(handler as QueueMessageHandler<QueueValue>)
+    this.queueHandlers.set(handlerId, handlers)
+
+    // Activate idempotent listener
+    this.idempotentListener()
+  }
+
+  /**
+   * Find an undelivered document entry by id from the collection queue.
+   *
+   * @example
+   * ```ts
+   * const doc1 = await db.users.findUndelivered("undelivered_id")
+   *
+   * const doc2 = await db.users.findUndelivered("undelivered_id", {
+   *   consistency: "eventual", // "strong" by default
+   * })
+   * ```
+   *
+   * @param id - Document id.
+   * @param options - Find options, optional.
+   * @returns Document if found, null if not.
    */
   async findUndelivered<T extends KvValue = KvValue>(
     id: KvId,
@@ -674,7 +1432,7 @@ export class Collection<
     }
 
     // Return document
-    return new Document<T>(model(), {
+    return new Document<T>(model<T>(), {
       id,
       versionstamp: result.versionstamp,
       value: result.value,
@@ -698,30 +1456,667 @@ export class Collection<
 
   /** PROTECTED METHODS */
 
+  /**
+   * Construct a document from a stored document value,
+   * lazily migrating the value to the current schema version.
+   *
+   * Stored values are used as is, only migrated values are parsed by the collection model.
+   * Migrated values are written back if enabled by the collection options.
+   *
+   * @param data - Document data containing the stored document value.
+   * @returns Promise resolving to the constructed document.
+   */
+  protected async constructDocument({
+    id,
+    versionstamp,
+    value,
+  }: DocumentData<T1>): Promise<Document<T1>> {
+    // Migrate document value, return document from stored value if not migrated
+    const migration = migrateValue(value, this._migrations)
+    if (!migration.migrated) {
+      return new Document<T1>(model<T1>(), {
+        id,
+        versionstamp,
+        value,
+      })
+    }
+
+    // Parse migrated value and create document
+    const doc = new Document<T1>(model<T1>(), {
+      id,
+      versionstamp,
+      value: this._model.parse(migration.value),
+    })
+
+    // Return document if write back is disabled
+    if (!this._writeBackMigrations) {
+      return doc
+    }
+
+    // Write back migrated value if not concurrently modified
+    const cr = await this.setDocument(
+      id,
+      migration.value as TInput,
+      { ifVersionstamp: versionstamp },
+      true,
+    )
+
+    // Return document with updated versionstamp if written
+    return cr.ok
+      ? new Document<T1>(model<T1>(), {
+        id,
+        versionstamp: cr.versionstamp,
+        value: doc.value,
+      })
+      : doc
+  }
+
+  /**
+   * Migrate a stored document to the current schema version.
+   *
+   * @param id - Document id.
+   * @param options - Find options or undefined.
+   * @returns Promise resolving to a commit result, or null if the document does not exist or is up to date.
+   */
+  protected async migrateDocument(
+    id: KvId,
+    options: FindOptions | undefined,
+  ): Promise<CommitResult<T1> | Deno.KvCommitError | null> {
+    // Get document entry
+    const key = extendKey(this._keys.idKey, id)
+    const { value, versionstamp } = await this.kv.get(key, options)
+
+    // If no entry exists, return null
+    if (value === null || versionstamp === null) {
+      return null
+    }
+
+    // Write migrated value
+    return await this.writeMigratedValue(id, value, versionstamp)
+  }
+
+  /**
+   * Migrate a stored document value and write it if outdated,
+   * failing if the document was concurrently modified.
+   *
+   * @param id - Document id.
+   * @param value - Stored document value.
+   * @param versionstamp - Versionstamp of the stored document.
+   * @returns Promise resolving to a commit result, or null if the value is up to date.
+   */
+  protected async writeMigratedValue(
+    id: KvId,
+    value: unknown,
+    versionstamp: string,
+  ): Promise<CommitResult<T1> | Deno.KvCommitError | null> {
+    // Migrate document value, return null if up to date
+    const migration = migrateValue(value, this._migrations)
+    if (!migration.migrated) {
+      return null
+    }
+
+    // Write migrated value
+    return await this.setDocument(
+      id,
+      migration.value as TInput,
+      { ifVersionstamp: versionstamp },
+      true,
+    )
+  }
+
+  /**
+   * Get the index key parts of every counter that counts a document.
+   *
+   * @param _doc - Document.
+   * @returns List of counter index key parts, empty parts for the document counter.
+   */
+  protected getCounterKeyParts(_doc: Document<T1>): Deno.KvKey[] {
+    return [[]]
+  }
+
+  /**
+   * Read a materialized document counter.
+   *
+   * @param keyParts - Index key parts of an index value counter, empty for the document counter.
+   * @param options - Count options or undefined.
+   * @returns Promise resolving to the count.
+   */
+  protected async readCounter(
+    keyParts: Deno.KvKey,
+    options: CountOptions<T1> | undefined,
+  ) {
+    // Read the count by summing counter shards
+    const selector = createCounterSelector(this._keys.counterKey, keyParts)
+    const { count, scanned } = await readCount(this.kv, selector, {
+      consistency: options?.consistency,
+    })
+
+    // Explain how documents were counted
+    options?.explain?.({
+      type: "counter",
+      index: keyParts[0] as string | undefined,
+      key: undefined,
+      selector,
+      scanned,
+      returned: count,
+    })
+
+    return count
+  }
+
+  /**
+   * Check whether writes must read the current document before committing,
+   * to maintain document counters, derived collections or the change log.
+   *
+   * @returns True if writes are tracked, false if not.
+   */
+  protected isTracked() {
+    return this._counterShards > 0 || this._views.length > 0 ||
+      this._changelog
+  }
+
+  /**
+   * Add mutations for updating derived collections to an atomic operation.
+   *
+   * @param id - Document id.
+   * @param oldValue - Stored value being replaced, or null if no document existed.
+   * @param newValue - Stored value being written, or null if the document is deleted.
+   * @param atomic - Atomic operation.
+   * @returns Promise resolving to the versionstamp checks of the derived documents.
+   */
+  protected async applyViews(
+    id: KvId,
+    oldValue: unknown,
+    newValue: unknown,
+    atomic: Deno.AtomicOperation,
+  ): Promise<Deno.AtomicCheck[]> {
+    // Skip if there are no derived collections
+    if (this._views.length === 0) {
+      return []
+    }
+
+    return await applyViewChanges(this.kv, atomic, [{
+      views: this._views,
+      migrations: this._migrations,
+      id,
+      oldValue,
+      newValue,
+    }])
+  }
+
+  /**
+   * Delete a document, checking the expected versionstamp if given.
+   *
+   * If writes are tracked and no versionstamp is expected,
+   * the document is deleted at its current versionstamp and the delete is retried if concurrently modified.
+   *
+   * @param id - Id of document to be deleted.
+   * @param options - Delete options.
+   * @param conflictRetry - Number of retries if the document or derived documents are concurrently modified.
+   * @returns A promise that resolves to a commit result.
+   */
+  protected async deleteDocument(
+    id: KvId,
+    options: DeleteOptions,
+    conflictRetry = DEFAULT_CONFLICT_RETRY,
+  ): Promise<Deno.KvCommitResult | Deno.KvCommitError> {
+    const key = extendKey(this._keys.idKey, id)
+    const atomic = this.kv.atomic()
+
+    // Get the current document entry if writes are tracked
+    const entry = this.isTracked() ? await this.kv.get(key) : null
+
+    // Check the expected versionstamp, or the current versionstamp if writes are tracked
+    const versionstamp = typeof options.ifVersionstamp === "undefined"
+      ? entry?.versionstamp
+      : options.ifVersionstamp
+
+    if (typeof versionstamp !== "undefined") {
+      atomic.check({
+        key,
+        versionstamp,
+      })
+    }
+
+    // Decrement the document counter and update derived collections if an existing document is deleted
+    const checks = versionstamp
+      ? await this.applyViews(id, entry?.value ?? null, null, atomic)
+      : []
+
+    if (versionstamp) {
+      addCount(-1, atomic, this)
+      addChange("delete", id, null, atomic, this)
+    }
+
+    // Perform delete
+    const cr = await atomic.delete(key).commit()
+
+    // Retry if the document or derived documents were concurrently modified and attempts remain
+    if (
+      !cr.ok && conflictRetry > 0 && (
+        typeof options.ifVersionstamp === "undefined" ||
+        await this.hasViewConflict(checks)
+      )
+    ) {
+      return await this.deleteDocument(id, options, conflictRetry - 1)
+    }
+
+    return cr
+  }
+
+  /**
+   * Check whether derived documents were modified after being read for a failed write,
+   * in which case the write should be retried.
+   *
+   * @param checks - Versionstamp checks of the derived documents.
+   * @returns Promise resolving to true if any derived document was modified, false if not.
+   */
+  protected async hasViewConflict(checks: Deno.AtomicCheck[]) {
+    // Skip if no derived documents were read
+    if (checks.length === 0) {
+      return false
+    }
+
+    // Compare current versionstamps to the checked versionstamps
+    const entries = await kvGetMany(checks.map(({ key }) => key), this.kv)
+    return entries.some(({ versionstamp }, i) =>
+      versionstamp !== checks[i].versionstamp
+    )
+  }
+
+  /**
+   * Lazily list documents in the collection.
+   *
+   * @param selector - List selector.
+   * @param options - List options, optional.
+   * @returns A document iterator.
+   */
+  protected listDocuments(
+    selector: Deno.KvListSelector,
+    options: ListOptions<T1> | undefined,
+  ): DocumentIterator<T1> {
+    // Create list iterator with given selector and options
+    const iter = this.kv.list<T1>(selector, options)
+
+    // Create document iterator constructing a document from each entry
+    return createDocumentIterator(
+      iter,
+      async ({ key, value, versionstamp }) => {
+        // Get document id, skip entry if undefined
+        const id = getDocumentId(key)
+        if (typeof id === "undefined") {
+          return null
+        }
+
+        // Create document
+        return await this.constructDocument({
+          id,
+          versionstamp,
+          value,
+        })
+      },
+      options?.filter,
+    )
+  }
+
+  /**
+   * Plan how to find the documents of a query.
+   *
+   * @param definition - Query definition.
+   * @returns The query plan.
+   */
+  protected planQuery(definition: QueryDefinition): QueryPlan {
+    // Scan all documents, sorting them if ordered
+    return {
+      type: "scan",
+      index: undefined,
+      key: undefined,
+      selector: { prefix: this._keys.idKey },
+      reverse: false,
+      sort: !!definition.order,
+    }
+  }
+
+  /**
+   * Execute a query according to its plan.
+   *
+   * Documents are listed until the limit is reached,
+   * unless they must be sorted, in which case all matching documents are listed and sorted in bounded memory.
+   *
+   * @param plan - Query plan.
+   * @param definition - Query definition.
+   * @returns Promise resolving to the query result.
+   */
+  protected async executeQuery(
+    plan: QueryPlan,
+    definition: QueryDefinition,
+  ): Promise<QueryResult<T1>> {
+    // Decode cursor and check that it matches the plan
+    const cursor = definition.cursor
+      ? decodeQueryCursor(definition.cursor)
+      : undefined
+
+    if (cursor && ("after" in cursor) !== plan.sort) {
+      throw new InvalidQueryError("Query cursor does not match the query")
+    }
+
+    // Decode the last document of the previous page if sorted
+    const { limit, order } = definition
+    const compare = order && createDocumentComparator(order)
+    const after = order && cursor && "after" in cursor
+      ? decodeOrderCursor(cursor.after, order.field)
+      : undefined
+
+    // List documents matching the query and following the cursor, counting scanned documents
+    const filter = createQueryFilter<T1>(definition)
+    let scanned = 0
+
+    const iter = this.listQueryDocuments(plan, {
+      cursor: cursor && "kv" in cursor ? cursor.kv : undefined,
+      reverse: plan.reverse,
+      consistency: definition.consistency,
+      filter: (doc) => {
+        scanned++
+        return filter(doc) && (!after || !compare || compare(doc, after) > 0)
+      },
+    })
+
+    // Initiate result list and next cursor
+    const result: Document<T1>[] = []
+    let next: string | undefined = undefined
+
+    if (!plan.sort || !order) {
+      // Collect documents in list order until the limit is reached
+      for await (const doc of iter) {
+        result.push(doc)
+        if (result.length === limit) {
+          next = iter.cursor && encodeQueryCursor({ kv: iter.cursor })
+          break
+        }
+      }
+    } else {
+      // Sort documents by ordered field, then by id, one beyond the limit to detect a next page
+      const sorted = this.sortDocuments(iter, order, (limit ?? Infinity) + 1)
+      for await (const docs of sorted) {
+        result.push(...docs)
+      }
+
+      if (typeof limit !== "undefined" && result.length > limit) {
+        result.length = limit
+        next = encodeQueryCursor({
+          after: encodeOrderCursor(result[limit - 1], order.field),
+        })
+      }
+    }
+
+    // Explain how the query was executed
+    definition.explain?.({
+      type: plan.type,
+      index: plan.index,
+      key: plan.key,
+      selector: plan.selector,
+      scanned,
+      returned: result.length,
+    })
+
+    return { result, cursor: next }
+  }
+
+  /**
+   * Lazily list documents according to a query plan.
+   *
+   * @param plan - Query plan.
+   * @param options - List options.
+   * @returns A document iterator.
+   */
+  protected listQueryDocuments(
+    plan: QueryPlan,
+    options: ListOptions<T1>,
+  ): DocumentIterator<T1> {
+    // List documents by id keys
+    return this.listDocuments(
+      plan.selector ?? { prefix: this._keys.idKey },
+      options,
+    )
+  }
+
+  /**
+   * Perform operations on lists of documents in the collection, ordered by a field.
+   *
+   * Documents are sorted in bounded memory, see `sortDocuments()`,
+   * and callback functions are executed for each page of sorted documents.
+   * The returned cursor encodes the ordered field value and id of the last document.
+   *
+   * @param orderBy - Field and direction to order by.
+   * @param fn - Callback function.
+   * @param options - List options.
+   * @returns Promise that resolves to object with cursor.
+   */
+  protected async handleManyOrdered<const T>(
+    orderBy: ListOrder<T1>,
+    fn: (doc: Document<T1>) => T,
+    options: ListOptions<T1>,
+  ) {
+    // Create document comparator and decode the last document of the previous page
+    const compare = createDocumentComparator(orderBy)
+    const after = options.cursor
+      ? decodeOrderCursor(options.cursor, orderBy.field)
+      : undefined
+
+    // Create filter excluding documents before the cursor and without the ordered field
+    const filter = (doc: Document<T1>) =>
+      typeof getFieldValue(doc.value, orderBy.field) !== "undefined" &&
+      (!after || compare(doc, after) > 0) &&
+      (!options.filter || options.filter(doc))
+
+    // List documents by id keys, counting scanned documents
+    const selector = createListSelector(this._keys.idKey, options)
+    let scanned = 0
+
+    const iter = this.listDocuments(selector, {
+      batchSize: options.batchSize,
+      consistency: options.consistency,
+      filter: (doc) => {
+        scanned++
+        return filter(doc)
+      },
+    })
+
+    // Execute callback function for each page of sorted documents, collecting results and failures
+    const result: Awaited<T>[] = []
+    const failures: DocumentCallbackFailure[] = []
+    let returned = 0
+    let last: Document<T1> | undefined = undefined
+
+    for await (
+      const docs of this.sortDocuments(iter, orderBy, options.limit ?? Infinity)
+    ) {
+      try {
+        result.push(...await handleDocuments(docs, fn, options.concurrency))
+      } catch (e) {
+        if (!(e instanceof DocumentCallbackError)) {
+          throw e
+        }
+
+        failures.push(...e.failures)
+      }
+
+      returned += docs.length
+      last = docs.at(-1) ?? last
+    }
+
+    // Explain how documents were read
+    options.explain?.({
+      type: "scan",
+      index: undefined,
+      key: undefined,
+      selector,
+      scanned,
+      returned,
+    })
+
+    // Throw aggregated errors of failed callbacks
+    if (failures.length > 0) {
+      throw new DocumentCallbackError(failures)
+    }
+
+    // Return result and cursor of the last document if limited
+    return {
+      result,
+      cursor: last && returned === options.limit
+        ? encodeOrderCursor(last, orderBy.field)
+        : undefined,
+    }
+  }
+
+  /**
+   * Sort documents by a field, then by id, in bounded memory.
+   *
+   * Documents are sorted in a buffer of bounded size. If the limit fits the buffer,
+   * the buffer is truncated to the limit whenever it is full. Otherwise, the ordered field values
+   * and ids of each full buffer are written to the KV store as a sorted run,
+   * and the runs are merged, reading the documents of each page of merged ids.
+   * Sorted runs are deleted once the documents are iterated or iteration is stopped.
+   *
+   * @param docs - Documents to sort.
+   * @param order - Field and direction to order by.
+   * @param limit - Maximum number of sorted documents.
+   * @returns An async generator yielding pages of sorted documents.
+   */
+  protected async *sortDocuments(
+    docs: AsyncIterable<Document<T1>>,
+    order: { field: string; direction?: QueryOrderDirection },
+    limit: number,
+  ): AsyncGenerator<Document<T1>[]> {
+    // Create document comparator and key of the sorted runs
+    const compare = createDocumentComparator(order)
+    const sortKey = extendKey(this._keys.baseKey, SORT_KEY_PREFIX, generateId())
+    const kv = this.kv
+    let buffer: Document<T1>[] = []
+    let runs = 0
+
+    // Write the ordered field values and ids of sorted documents as a run
+    const writeRun = async (docs: Document<T1>[]) => {
+      const runKey = extendKey(sortKey, runs++)
+      const entries = docs.map((doc, i) => ({
+        key: extendKey(runKey, i),
+        value: [doc.id, getFieldValue(doc.value, order.field)],
+      }))
+
+      const crs = await useAtomics(
+        kv,
+        entries,
+        ({ key, value }, atomic) => atomic.set(key, value),
+      )
+
+      if (!crs.every((cr) => cr.ok)) {
+        throw new SortRunError("Failed to write sorted run of documents")
+      }
+    }
+
+    // Read a sorted run as document stubs holding the ordered field value and id
+    const readRun = async function* (run: number) {
+      const iter = kv.list<[KvId, KvValue]>({ prefix: extendKey(sortKey, run) })
+      for await (const { value: [id, value] } of iter) {
+        yield { id, value: { [order.field]: value } } as OrderedDocument
+      }
+    }
+
+    try {
+      // Collect documents, truncating or writing the buffer whenever it is full
+      for await (const doc of docs) {
+        buffer.push(doc)
+        if (buffer.length < 2 * SORT_BUFFER_SIZE) {
+          continue
+        }
+
+        buffer.sort(compare)
+        if (limit <= SORT_BUFFER_SIZE) {
+          buffer = buffer.slice(0, limit)
+        } else {
+          await writeRun(buffer)
+          buffer = []
+        }
+      }
+
+      buffer.sort(compare)
+
+      // Yield sorted documents if no runs were written
+      if (runs === 0) {
+        yield buffer.slice(0, limit)
+        return
+      }
+
+      // Write remaining documents as the last run
+      await writeRun(buffer)
+      buffer = []
+
+      // Merge runs, yielding the documents of each page of ids
+      const runIters = Array.from({ length: runs }, (_, run) => readRun(run))
+      let ids: KvId[] = []
+      let count = 0
+
+      for await (const { id } of mergeSorted(runIters, compare)) {
+        ids.push(id)
+        count++
+
+        if (ids.length === SORT_BUFFER_SIZE || count === limit) {
+          yield await this.findMany(ids)
+          ids = []
+        }
+
+        if (count === limit) {
+          return
+        }
+      }
+
+      if (ids.length > 0) {
+        yield await this.findMany(ids)
+      }
+    } finally {
+      // Delete sorted runs in pages
+      let keys: KvKey[] = []
+      for await (const { key } of kv.list({ prefix: sortKey })) {
+        keys.push(key as KvKey)
+        if (keys.length === SORT_BUFFER_SIZE) {
+          await useAtomics(kv, keys, (key, atomic) => atomic.delete(key))
+          keys = []
+        }
+      }
+
+      await useAtomics(kv, keys, (key, atomic) => atomic.delete(key))
+    }
+  }
+
   /**
    * Perform operations on lists of documents in the collection.
    *
-   * @param prefixKey - Prefix key for list selector.
+   * @param selector - List selector.
    * @param fn - Callback function.
    * @param options - List options, optional.
+   * @param plan - Strategy and index reported when explaining the read.
    * @returns Promise that resolves to object with iterator cursor.
    */
   protected async handleMany<const T>(
-    prefixKey: KvKey,
+    selector: Deno.KvListSelector,
     fn: (doc: Document<T1>) => T,
     options: ListOptions<T1> | undefined,
+    plan: Pick<QueryPlan, "type" | "index"> = {
+      type: "scan",
+      index: undefined,
+    },
   ) {
-    // Create list iterator with given options
-    const selector = createListSelector(prefixKey, options)
+    // Create list iterator with given selector and options
     const iter = this.kv.list<T1>(selector, options)
 
-    // Initiate lists
+    // Initiate document list and scanned entries count
     const docs: Document<T1>[] = []
-    const result: Awaited<T>[] = []
-    const errors: unknown[] = []
+    let scanned = 0
 
     // Loop over each document entry
     for await (const { key, value, versionstamp } of iter) {
+      scanned++
+
       // Get document id, continue to next entry if undefined
       const id = getDocumentId(key)
       if (typeof id === "undefined") {
@@ -729,10 +2124,10 @@ export class Collection<
       }
 
       // Create document
-      const doc = new Document<T1>(this._model, {
+      const doc = await this.constructDocument({
         id,
         versionstamp,
-        value: value,
+        value,
       })
 
       // Filter document and add to documents list
@@ -741,20 +2136,17 @@ export class Collection<
       }
     }
 
-    // Execute callback function for each document
-    await allFulfilled(docs.map(async (doc) => {
-      try {
-        const res = await fn(doc)
-        result.push(res)
-      } catch (e) {
-        errors.push(e)
-      }
-    }))
+    // Explain how documents were read
+    options?.explain?.({
+      ...plan,
+      key: undefined,
+      selector,
+      scanned,
+      returned: docs.length,
+    })
 
-    // Throw any caught errors
-    if (errors.length > 0) {
-      throw errors
-    }
+    // Execute callback function for each document with bounded concurrency
+    const result = await handleDocuments(docs, fn, options?.concurrency)
 
     // Return result and current iterator cursor
     return {
@@ -770,41 +2162,95 @@ export class Collection<
    * @param value - Document value.
    * @param options - Set options or undefined.
    * @param overwrite - Boolean flag determining whether to overwrite existing entry or fail operation.
+   * @param conflictRetry - Number of retries if derived documents are concurrently modified.
    * @returns Promise resolving to a CommitResult object.
    */
   protected async setDocument(
     id: KvId | null,
-    value: T1,
+    value: T1 | TInput,
     options: SetOptions | undefined,
     overwrite = false,
+    conflictRetry = DEFAULT_CONFLICT_RETRY,
   ): Promise<CommitResult<T1> | Deno.KvCommitError> {
-    // Create id, document key and parse document value
-    const parsed = this._model.parse(value)
+    // Create id, document key and parse versioned document value
+    const parsed = stampVersion(this._model.parse(value), this._migrations)
     const docId = id ?? this._idGenerator(parsed)
     const key = extendKey(this._keys.idKey, docId)
 
     // Create atomic operation with set mutation
     let atomic = this.kv.atomic().set(key, parsed, options)
 
-    // If overwrite is false, check for existing document
-    if (!overwrite) {
+    // Stored value being replaced, null if no document exists
+    let existing: unknown = null
+
+    // Check for existing document at expected versionstamp if given,
+    // otherwise check for existing document if overwrite is false.
+    // Increment the document counter if a new document is set
+    if (typeof options?.ifVersionstamp !== "undefined") {
+      atomic = atomic.check({
+        key,
+        versionstamp: options.ifVersionstamp,
+      })
+
+      // Get the replaced value to update derived collections, and count the document if new
+      if (this.isTracked()) {
+        const { value, versionstamp } = await this.kv.get(key)
+        existing = value
+
+        if (versionstamp === null) {
+          addCount(1, atomic, this)
+        }
+      }
+    } else if (!overwrite) {
       atomic = atomic.check({
         key,
         versionstamp: null,
       })
+
+      addCount(1, atomic, this)
+    } else if (this.isTracked()) {
+      // Check for the current document, to only count new documents
+      const { value, versionstamp } = await this.kv.get(key)
+      existing = value
+      atomic = atomic.check({
+        key,
+        versionstamp,
+      })
+
+      if (versionstamp === null) {
+        addCount(1, atomic, this)
+      }
     }
 
+    // Update derived collections and record the change
+    const checks = await this.applyViews(docId, existing, parsed, atomic)
+    addChange("set", docId, parsed, atomic, this)
+
     // Perform atomic operation
     const cr = await atomic.commit()
 
+    // Retry if derived documents were concurrently modified and attempts remain
+    if (
+      !cr.ok && conflictRetry > 0 && await this.hasViewConflict(checks)
+    ) {
+      return await this.setDocument(
+        docId,
+        value,
+        options,
+        overwrite,
+        conflictRetry - 1,
+      )
+    }
+
     // Retry failed operation if remaining attempts
     const retry = options?.retry ?? 0
     if (!cr.ok && retry > 0) {
       return await this.setDocument(
         docId,
-        parsed,
+        value,
         { ...options, retry: retry - 1 },
         overwrite,
+        conflictRetry,
       )
     }
 
@@ -825,31 +2271,23 @@ export class Collection<
    *
    * @param doc - Old document.
    * @param data - New data.
-   * @param options - Set options or undefined.
+   * @param options - Update options or undefined.
    * @returns Promise that resolves to a commit result.
    */
   protected async updateDocument(
     doc: Document<T1>,
-    data: UpdateData<T1>,
-    options: SetOptions | undefined,
+    data: UpdateValue<T1, UpdateStrategy, TInput>,
+    options: UpdateOptions | undefined,
   ) {
-    // Get document value, delete document entry
+    // Get document value and id
     const { value, id } = doc
 
-    // If value is KvObject, perform partial merge and set new document value
-    if (isKvObject(value)) {
-      return await this.setDocument(
-        id,
-        {
-          ...value as KvObject,
-          ...data as KvObject,
-        } as T1,
-        options,
-        true,
-      )
-    }
-
-    // Set new document value
-    return await this.setDocument(id, data as T1, options, true)
+    // Apply update data using update strategy and set new document value
+    return await this.setDocument(
+      id,
+      applyUpdate(value, data, options?.strategy) as T1,
+      options,
+      true,
+    )
   }
 }
@@ -1,6 +1,14 @@
 // Key prefixes
 export const KVDEX_KEY_PREFIX = "__kvdex__"
 
+export const CHANGELOG_KEY_PREFIX = "__kvdex_changelog__"
+
+export const CHANGELOG_PENDING_KEY_PREFIX = "__kvdex_changelog_pending__"
+
+export const CHANGELOG_CLOCK_KEY_PREFIX = "__kvdex_changelog_clock__"
+
+export const CHECKPOINT_KEY_PREFIX = "__kvdex_checkpoint__"
+
 export const ID_KEY_PREFIX = "__id__"
 
 export const PRIMARY_INDEX_KEY_PREFIX = "__index_primary__"
@@ -11,6 +19,29 @@ export const SEGMENT_KEY_PREFIX = "__segment__"
 
 export const UNDELIVERED_KEY_PREFIX = "__undelivered__"
 
+export const COUNTER_KEY_PREFIX = "__counter__"
+
+export const SORT_KEY_PREFIX = "__sort__"
+
+// Reserved document fields
+export const VERSION_FIELD = "__version__"
+
+// Separators
+export const COMPOUND_INDEX_SEPARATOR = ","
+
+export const KEY_PATH_SEPARATOR = "."
+
+// Key suffix that sorts after any document id following an index value
+export const INDEX_VALUE_UPPER_BOUND_SUFFIX: Deno.KvKey = [true, true]
+
+// Index range bounds of query range operators
+export const QUERY_RANGE_BOUNDS = {
+  ">": "gt",
+  ">=": "gte",
+  "<": "lt",
+  "<=": "lte",
+} as const
+
 // Fixed limits
 export const ATOMIC_OPERATION_MUTATION_LIMIT = 20
 
@@ -18,7 +49,46 @@ export const GET_MANY_KEY_LIMIT = 10
 
 export const LARGE_COLLECTION_STRING_LIMIT = 25_000
 
+// Pagination constants
+export const DEFAULT_PAGE_SIZE = 20
+
+// Process-local secret, page tokens signed with it are rejected by other processes and after restarts
+export const DEFAULT_PAGE_TOKEN_SECRET = crypto.getRandomValues(
+  new Uint8Array(32),
+)
+
+// Counter constants
+export const DEFAULT_COUNTER_SHARDS = 4
+
+// Sort constants
+export const SORT_BUFFER_SIZE = 1_000
+
 // Cron constants
 export const DEFAULT_CRON_INTERVAL = 60 * 60 * 1_000 // 1 hour
 
 export const DEFAULT_CRON_RETRY = 10
+
+// Watch constants
+export const DEFAULT_WATCH_INTERVAL = 1_000
+
+export const WATCH_KEY_LIMIT = 10
+
+// Change log constants
+export const DEFAULT_CHANGELOG_RETENTION = 7 * 24 * 60 * 60 * 1_000 // 7 days
+
+// Reindex constants
+export const DEFAULT_REINDEX_RETRY = 10
+
+export const REINDEX_PAGE_SIZE = 500
+
+export const VERIFY_INDICES_PAGE_SIZE = 500
+
+// Write constants
+export const DEFAULT_CONFLICT_RETRY = 100
+
+// Update constants
+export const DEFAULT_UPDATE_RETRY = 10
+
+export const DEFAULT_UPDATE_WITH_RETRY = 10
+
+export const DEFAULT_UPSERT_RETRY = 10
@@ -0,0 +1,311 @@
+import { Collection } from "./collection.ts"
+import type {
+  CollectionOptions,
+  DerivedCollectionOptions,
+  KvId,
+  KvKey,
+  KvValue,
+  Model,
+  QueueMessageHandler,
+  QueueValue,
+} from "./types.ts"
+import { extendKey, stringifyKey, useAtomics } from "./utils.ts"
+import { InvalidDerivedCollectionError } from "./errors.ts"
+
+/**
+ * Create a derived collection builder function.
+ *
+ * Derived collections hold documents reduced from the documents of a source collection in the same schema,
+ * and are kept in sync whenever documents are written to the source collection.
+ *
+ * @example
+ * ```ts
+ * const orders = collection(model<Order>())
+ *
+ * const db = kvdex(kv, {
+ *   orders,
+ *   orderTotals: derivedCollection(orders, model<OrderTotal>(), {
+ *     id: (order) => order.userId,
+ *     reduce: (total, order, op) => {
+ *       const sign = op === "add" ? 1 : -1
+ *       const count = (total?.count ?? 0) + sign
+ *       const amount = (total?.amount ?? 0) + sign * order.amount
+ *       return count > 0 ? { count, amount } : null
+ *     },
+ *   }),
+ * })
+ * ```
+ *
+ * @param source - Builder function of the source collection.
+ * @param model - Model of derived documents.
+ * @param options - Derived collection options.
+ * @returns A derived collection builder function.
+ */
+export function derivedCollection<
+  const T1 extends KvValue,
+  const T2 extends KvValue,
+>(
+  source: (
+    kv: Deno.Kv,
+    key: KvKey,
+    queueHandlers: Map<string, QueueMessageHandler<QueueValue>[]>,
+    idempotentListener: () => void,
+  ) => Collection<T2, CollectionOptions<T2>>,
+  model: Model<T1>,
+  options: DerivedCollectionOptions<T1, T2>,
+) {
+  return (
+    kv: Deno.Kv,
+    key: KvKey,
+    queueHandlers: Map<string, QueueMessageHandler<QueueValue>[]>,
+    idempotentListener: () => void,
+  ) =>
+    new DerivedCollection<T1, T2>(
+      kv,
+      key,
+      model,
+      queueHandlers,
+      idempotentListener,
+      source,
+      options,
+    )
+}
+
+/**
+ * Represents a collection of documents derived from a source collection.
+ *
+ * Derived documents are written in the same atomic operation as source documents,
+ * and should not be written to directly.
+ */
+export class DerivedCollection<
+  const T1 extends KvValue,
+  const T2 extends KvValue,
+> extends Collection<T1, CollectionOptions<T1>> {
+  readonly _sourceBuilder: unknown
+  readonly _reduce: DerivedCollectionOptions<T1, T2>["reduce"]
+  private getId: DerivedCollectionOptions<T1, T2>["id"]
+
+  /** Source collection, set when the database schema is created. */
+  _source: Collection<T2, CollectionOptions<T2>> | undefined
+
+  constructor(
+    kv: Deno.Kv,
+    key: KvKey,
+    model: Model<T1>,
+    queueHandlers: Map<string, QueueMessageHandler<QueueValue>[]>,
+    idempotentListener: () => void,
+    source: unknown,
+    options: DerivedCollectionOptions<T1, T2>,
+  ) {
+    // Invoke super constructor, derived collections use default collection options
+    super(kv, key, model as Model<T1, T1>, queueHandlers, idempotentListener)
+
+    // Set source builder function and reducer options
+    this._sourceBuilder = source
+    this._reduce = options.reduce
+    this.getId = options.id
+    this._source = undefined
+  }
+
+  /**
+   * Get the id of the derived document a source document is reduced into.
+   *
+   * @param value - Source document value.
+   * @param id - Source document id.
+   * @returns Id of the derived document, or null if not reduced into any document.
+   */
+  _getDerivedId(value: T2, id: KvId) {
+    return this.getId ? this.getId(value, id) : id
+  }
+
+  /**
+   * Derived documents can not be added directly, always rejects with an InvalidDerivedCollectionError.
+   *
+   * @returns A rejected promise.
+   */
+  add(): Promise<never> {
+    return this.rejectWrite("add")
+  }
+
+  /**
+   * Derived documents can not be set directly, always rejects with an InvalidDerivedCollectionError.
+   *
+   * @returns A rejected promise.
+   */
+  set(): Promise<never> {
+    return this.rejectWrite("set")
+  }
+
+  /**
+   * Derived documents can not be written directly, always rejects with an InvalidDerivedCollectionError.
+   *
+   * @returns A rejected promise.
+   */
+  write(): Promise<never> {
+    return this.rejectWrite("write")
+  }
+
+  /**
+   * Derived documents can not be added directly, always rejects with an InvalidDerivedCollectionError.
+   *
+   * @returns A rejected promise.
+   */
+  addMany(): Promise<never> {
+    return this.rejectWrite("addMany")
+  }
+
+  /**
+   * Derived documents can not be updated directly, always rejects with an InvalidDerivedCollectionError.
+   *
+   * @returns A rejected promise.
+   */
+  update(): Promise<never> {
+    return this.rejectWrite("update")
+  }
+
+  /**
+   * Derived documents can not be updated directly, always rejects with an InvalidDerivedCollectionError.
+   *
+   * @returns A rejected promise.
+   */
+  updateWith(): Promise<never> {
+    return this.rejectWrite("updateWith")
+  }
+
+  /**
+   * Derived documents can not be updated directly, always rejects with an InvalidDerivedCollectionError.
+   *
+   * @returns A rejected promise.
+   */
+  updateMany(): Promise<never> {
+    return this.rejectWrite("updateMany")
+  }
+
+  /**
+   * Derived documents can not be upserted directly, always rejects with an InvalidDerivedCollectionError.
+   *
+   * @returns A rejected promise.
+   */
+  upsert(): Promise<never> {
+    return this.rejectWrite("upsert")
+  }
+
+  /**
+   * Derived documents can not be deleted directly, always rejects with an InvalidDerivedCollectionError.
+   *
+   * @returns A rejected promise.
+   */
+  delete(): Promise<never> {
+    return this.rejectWrite("delete")
+  }
+
+  /**
+   * Derived documents can not be deleted directly, always rejects with an InvalidDerivedCollectionError.
+   *
+   * @returns A rejected promise.
+   */
+  deleteMany(): Promise<never> {
+    return this.rejectWrite("deleteMany")
+  }
+
+  /**
+   * Delete all derived documents, used when deleting all documents of the database.
+   *
+   * @returns A promise that resolves to void.
+   */
+  async _deleteAll() {
+    // Collect keys of all derived documents
+    const keys: KvKey[] = []
+    for await (const { key } of this.kv.list({ prefix: this._keys.idKey })) {
+      keys.push(key as KvKey)
+    }
+
+    // Delete the collected derived documents
+    await useAtomics(this.kv, keys, (key, atomic) => atomic.delete(key))
+  }
+
+  /**
+   * Rebuild all derived documents from the documents of the source collection.
+   *
+   * Source documents are lazily listed and reduced in memory,
+   * after which derived documents are written and stale derived documents are deleted.
+   * Source documents written while rebuilding may not be reflected in the rebuilt documents.
+   *
+   * @example
+   * ```ts
+   * // Rebuilds all order totals, returns the number of order total documents
+   * const count = await db.orderTotals.rebuild()
+   * ```
+   *
+   * @returns A promise that resolves to the number of derived documents.
+   */
+  async rebuild() {
+    // Get the source collection
+    const source = this._source
+    if (!source) {
+      throw new InvalidDerivedCollectionError(
+        "Derived collection is not linked to a source collection",
+      )
+    }
+
+    // Reduce every source document into derived document values
+    const values = new Map<string, { key: KvKey; value: T1 | null }>()
+
+    for await (const doc of source.list()) {
+      // Get the derived document id, skip if not reduced into any document
+      const derivedId = this._getDerivedId(doc.value, doc.id)
+      if (derivedId === null) {
+        continue
+      }
+
+      // Reduce the source document into the derived document value
+      const key = extendKey(this._keys.idKey, derivedId)
+      const valueId = stringifyKey(key)
+      const current = values.get(valueId)?.value ?? null
+      values.set(valueId, {
+        key,
+        value: this._reduce(current, doc.value, "add"),
+      })
+    }
+
+    // Create derived document entries, excluding deleted derived documents
+    const entries = Array.from(values.values()).filter((
+      entry,
+    ): entry is { key: KvKey; value: T1 } => entry.value !== null)
+
+    // Collect stale derived documents
+    const entryKeys = new Set(entries.map(({ key }) => stringifyKey(key)))
+    const staleKeys: KvKey[] = []
+
+    for await (const { key } of this.kv.list({ prefix: this._keys.idKey })) {
+      if (!entryKeys.has(stringifyKey(key))) {
+        staleKeys.push(key as KvKey)
+      }
+    }
+
+    // Delete stale derived documents and write rebuilt derived documents
+    await useAtomics(this.kv, staleKeys, (key, atomic) => atomic.delete(key))
+    await useAtomics(
+      this.kv,
+      entries,
+      ({ key, value }, atomic) => atomic.set(key, this._model.parse(value)),
+    )
+
+    // Return the number of derived documents
+    return entries.length
+  }
+
+  /**
+   * Create a rejected promise for a direct write to the derived collection.
+   *
+   * @param method - Name of the write method.
+   * @returns A promise rejected with an InvalidDerivedCollectionError.
+   */
+  private rejectWrite(method: string): Promise<never> {
+    return Promise.reject(
+      new InvalidDerivedCollectionError(
+        `Derived documents can not be written directly using ${method}(), they are written when the source collection is written`,
+      ),
+    )
+  }
+}
@@ -8,6 +8,7 @@ import type {
   Model,
 } from "./types.ts"
 import { isKvObject } from "./utils.ts"
+import { toValidatedModel } from "./model.ts"
 
 export class Document<T extends KvValue> {
   readonly id: KvId
@@ -20,7 +21,7 @@ export class Document<T extends KvValue> {
   ) {
     this.id = id
     this.versionstamp = versionstamp
-    this.value = model.parse(value)
+    this.value = toValidatedModel(model).parse(value)
   }
 
   /**
@@ -1,11 +1,104 @@
+import type {
+  DocumentCallbackFailure,
+  ValidationIssue,
+  ValidationPath,
+} from "./types.ts"
+
 export class InvalidAtomicBuilderCollectionError extends Error {
   constructor(message?: string, options?: ErrorOptions) {
     super(message, options)
   }
 }
 
+export class InvalidDerivedCollectionError extends Error {
+  constructor(message?: string, options?: ErrorOptions) {
+    super(message, options)
+  }
+}
+
+export class InvalidUpsertError extends Error {
+  constructor(message?: string, options?: ErrorOptions) {
+    super(message, options)
+  }
+}
+
 export class CorruptedDocumentDataError extends Error {
   constructor(message?: string, options?: ErrorOptions) {
     super(message, options)
   }
 }
+
+export class InvalidJsonPatchError extends Error {
+  constructor(message?: string, options?: ErrorOptions) {
+    super(message, options)
+  }
+}
+
+export class InvalidQueryError extends Error {
+  constructor(message?: string, options?: ErrorOptions) {
+    super(message, options)
+  }
+}
+
+export class InvalidPaginationError extends Error {
+  constructor(message?: string, options?: ErrorOptions) {
+    super(message, options)
+  }
+}
+
+export class InvalidChangesOptionsError extends Error {
+  constructor(message?: string, options?: ErrorOptions) {
+    super(message, options)
+  }
+}
+
+export class SortRunError extends Error {
+  constructor(message?: string, options?: ErrorOptions) {
+    super(message, options)
+  }
+}
+
+export class DocumentCallbackError extends AggregateError {
+  /** Failed callbacks, each including the document id and the thrown error. */
+  readonly failures: DocumentCallbackFailure[]
+
+  constructor(failures: DocumentCallbackFailure[], options?: ErrorOptions) {
+    super(
+      failures.map(({ error }) => error),
+      `Callback failed for ${failures.length} document(s)`,
+      options,
+    )
+    this.failures = failures
+  }
+}
+
+export class ValidationError extends Error {
+  /** All validation issues, each including the path to the failing value. */
+  readonly issues: ValidationIssue[]
+
+  /** Path to the first failing value, empty if the root value failed. */
+  readonly path: ValidationPath
+
+  constructor(issues: ValidationIssue[], options?: ErrorOptions) {
+    super(formatValidationIssues(issues), options)
+    this.issues = issues
+    this.path = issues[0]?.path ?? []
+  }
+}
+
+/**
+ * Format validation issues as an error message.
+ *
+ * @param issues - Validation issues.
+ * @returns Error message describing the first issue.
+ */
+function formatValidationIssues(issues: ValidationIssue[]) {
+  const [first] = issues
+  if (!first) {
+    return "Validation failed"
+  }
+
+  const at = first.path.length > 0 ? ` at "${first.path.join(".")}"` : ""
+  const rest = issues.length > 1 ? ` (and ${issues.length - 1} more)` : ""
+  return `Validation failed${at}: ${first.message}${rest}`
+}
@@ -1,39 +1,108 @@
 import { Collection } from "./collection.ts"
 import {
+  ATOMIC_OPERATION_MUTATION_LIMIT,
+  COUNTER_KEY_PREFIX,
+  DEFAULT_CONFLICT_RETRY,
+  DEFAULT_REINDEX_RETRY,
+  DEFAULT_UPDATE_RETRY,
+  DEFAULT_UPSERT_RETRY,
   ID_KEY_PREFIX,
   KVDEX_KEY_PREFIX,
   PRIMARY_INDEX_KEY_PREFIX,
+  QUERY_RANGE_BOUNDS,
+  REINDEX_PAGE_SIZE,
   SECONDARY_INDEX_KEY_PREFIX,
+  VERIFY_INDICES_PAGE_SIZE,
 } from "./constants.ts"
 import type {
-  CheckKeyOf,
+  AggregateOptions,
+  AggregateResult,
   CommitResult,
+  CompoundPrimaryIndexKeys,
+  CompoundSecondaryIndexKeys,
+  CountOptions,
+  DeleteOptions,
+  DocumentIterator,
   FindOptions,
   IndexableCollectionKeys,
   IndexableCollectionOptions,
+  IndexCollision,
   IndexDataEntry,
+  IndexElementValue,
+  IndexIdEntry,
+  IndexIssue,
+  IndexIssueType,
+  IndexRange,
   IndexType,
   KvId,
   KvKey,
   KvObject,
   ListOptions,
+  ListOrder,
   Model,
+  MultiIndexKeys,
+  MultiIndexType,
   PrimaryIndexKeys,
+  PrimaryIndexValue,
+  QueryDefinition,
+  QueryPlan,
+  QueryRangeOperator,
+  QueryResult,
   QueueMessageHandler,
   QueueValue,
+  ReindexOptions,
+  ReindexResult,
   SecondaryIndexKeys,
+  SecondaryIndexStorage,
+  SecondaryIndexValue,
   SetOptions,
-  UpdateData,
   UpdateManyOptions,
+  UpdateOptions,
+  UpdateStrategy,
+  UpdateValue,
+  UpsertOptions,
+  UpsertResult,
+  UpsertValue,
+  VerifyIndicesOptions,
+  VerifyIndicesResult,
 } from "./types.ts"
 import {
+  addChange,
+  addCount,
+  aggregateDocuments,
   allFulfilled,
+  applyUpdate,
   checkIndices,
+  createDocumentIterator,
+  createIndexKeyParts,
+  createIndexRangeSelector,
+  createListSelector,
+  createQueryFilter,
+  createSecondaryIndexValue,
+  createUniqueFilter,
   deleteIndices,
   extendKey,
+  getDocumentId,
+  getIndexCounterKeyParts,
+  getIndexKeyParts,
+  getPrimaryIndexKeys,
+  getPrimaryIndexNames,
+  getSecondaryIndexKeys,
+  getSecondaryIndexNames,
+  handleDocuments,
+  isKvId,
+  keyEq,
+  kvGetMany,
+  parseDeleteArgs,
   setIndices,
+  stampVersion,
+  stringifyKey,
+  updateIndices,
+  useAtomics,
+  valueEq,
 } from "./utils.ts"
 import { Document } from "./document.ts"
+import { InvalidUpsertError } from "./errors.ts"
 
 /**
  * Create an indexable collection builder function.
@@ -45,7 +114,11 @@ import { Document } from "./document.ts"
  *   indices: {
  *     username: "primary" // unique
  *     age: "secondary" //non-unique
- *   }
+ *     tags: "multi" // non-unique, one entry per list element
+ *   },
+ *   compoundIndices: [
+ *     { fields: ["age", "username"], type: "secondary" },
+ *   ],
  * })
  * ```
  *
@@ -56,14 +129,15 @@ import { Document } from "./document.ts"
 export function indexableCollection<
   const T1 extends KvObject,
   const T2 extends IndexableCollectionOptions<T1>,
->(model: Model<T1>, options: T2) {
+  const TInput = T1,
+>(model: Model<T1, TInput>, options: T2) {
   return (
     kv: Deno.Kv,
     key: KvKey,
     queueHandlers: Map<string, QueueMessageHandler<QueueValue>[]>,
     idempotentListener: () => void,
   ) =>
-    new IndexableCollection<T1, T2>(
+    new IndexableCollection<T1, T2, TInput>(
       kv,
       key,
       model,
@@ -82,15 +156,20 @@ export function indexableCollection<
 export class IndexableCollection<
   const T1 extends KvObject,
   const T2 extends IndexableCollectionOptions<T1>,
-> extends Collection<T1, T2> {
+  const TInput = T1,
+> extends Collection<T1, T2, TInput> {
   readonly primaryIndexList: string[]
   readonly secondaryIndexList: string[]
+  readonly multiIndexList: string[]
+  readonly secondaryIndexStorage: SecondaryIndexStorage
+  readonly compoundPrimaryIndexList: string[][]
+  readonly compoundSecondaryIndexList: string[][]
   readonly _keys: IndexableCollectionKeys
 
   constructor(
     kv: Deno.Kv,
     key: KvKey,
-    model: Model<T1>,
+    model: Model<T1, TInput>,
     queueHandlers: Map<string, QueueMessageHandler<QueueValue>[]>,
     idempotentListener: () => void,
     options: T2,
@@ -106,6 +185,11 @@ export class IndexableCollection<
         ...key,
         ID_KEY_PREFIX,
       ),
+      counterKey: extendKey(
+        [KVDEX_KEY_PREFIX],
+        ...key,
+        COUNTER_KEY_PREFIX,
+      ),
       primaryIndexKey: extendKey(
         [KVDEX_KEY_PREFIX],
         ...key,
@@ -118,6 +202,9 @@ export class IndexableCollection<
       ),
     }
 
+    // Set secondary index storage mode
+    this.secondaryIndexStorage = options.secondaryIndexStorage ?? "data"
+
     // Get primary index entries from indices
     const primaryIndexEntries = Object.entries(options.indices) as [
       string,
@@ -139,6 +226,30 @@ export class IndexableCollection<
     this.secondaryIndexList = secondaryIndexEntries
       .filter(([_, value]) => value === "secondary")
       .map(([key]) => key)
+
+    // Get multi-value index entries from indices
+    const multiIndexEntries = Object.entries(options.indices) as [
+      string,
+      undefined | IndexType | MultiIndexType,
+    ][]
+
+    // Set multi-value index list from multi-value index entries
+    this.multiIndexList = multiIndexEntries
+      .filter(([_, value]) => value === "multi")
+      .map(([key]) => key)
+
+    // Get compound index definitions from options
+    const compoundIndices = options.compoundIndices ?? []
+
+    // Set compound primary index list from compound index definitions
+    this.compoundPrimaryIndexList = compoundIndices
+      .filter(({ type }) => type === "primary")
+      .map(({ fields }) => [...fields] as string[])
+
+    // Set compound secondary index list from compound index definitions
+    this.compoundSecondaryIndexList = compoundIndices
+      .filter(({ type }) => type === "secondary")
+      .map(({ fields }) => [...fields] as string[])
   }
 
   /**
@@ -148,23 +259,35 @@ export class IndexableCollection<
    * ```ts
    * // Finds a user document with the username = "oli"
    * const userDoc = await db.users.findByPrimaryIndex("username", "oli")
+   *
+   * // Finds a user document by a compound primary index
+   * const userDoc = await db.users.findByPrimaryIndex(
+   *   ["orgId", "username"],
+   *   ["org1", "oli"],
+   * )
    * ```
    *
-   * @param index - Index to find by.
-   * @param value - Index value.
+   * @param index - Index to find by, or list of compound index fields.
+   * @param value - Index value, or list of compound index values.
    * @param options - Find options, optional.
    * @returns A promise resolving to the document found by selected index, or null if not found.
    */
-  async findByPrimaryIndex<const K extends PrimaryIndexKeys<T1, T2["indices"]>>(
+  async findByPrimaryIndex<
+    const K extends
+      | PrimaryIndexKeys<T1, T2["indices"]>
+      | CompoundPrimaryIndexKeys<T1, T2>,
+  >(
     index: K,
-    value: CheckKeyOf<K, T1>,
+    value: PrimaryIndexValue<T1, K>,
     options?: FindOptions,
   ) {
     // Create the index key
     const key = extendKey(
       this._keys.primaryIndexKey,
-      index as KvId,
-      value as KvId,
+      ...createIndexKeyParts(
+        index as string | string[],
+        value as KvId | KvId[],
+      ),
     )
 
     // Get index entry
@@ -181,7 +304,7 @@ export class IndexableCollection<
     const { __id__, ...data } = result.value
 
     // Return document
-    return new Document<T1>(this._model, {
+    return await this.constructDocument({
       id: __id__,
       versionstamp: result.versionstamp,
       value: data as T1,
@@ -202,37 +325,299 @@ export class IndexableCollection<
    * const { result } = await db.users.findBySecondaryIndex("age", 24, {
    *   filter: (doc) => doc.value.username.startsWith("o")
    * })
+   *
+   * // Returns all users with orgId = "org1" AND role = "admin"
+   * const { result } = await db.users.findBySecondaryIndex(
+   *   ["orgId", "role"],
+   *   ["org1", "admin"],
+   * )
+   *
+   * // Returns all users with orgId = "org1", using the leading field only
+   * const { result } = await db.users.findBySecondaryIndex(
+   *   ["orgId", "role"],
+   *   ["org1"],
+   * )
    * ```
    *
-   * @param index - Index to find by.
-   * @param value - Index value.
+   * @param index - Index to find by, or list of compound index fields.
+   * @param value - Index value, or list of leading compound index values.
    * @param options - List options, optional.
    * @returns A promise resolving to an object containing the result list and iterator cursor.
    */
   async findBySecondaryIndex<
-    const K extends SecondaryIndexKeys<T1, T2["indices"]>,
-  >(index: K, value: CheckKeyOf<K, T1>, options?: ListOptions<T1>) {
+    const K extends
+      | SecondaryIndexKeys<T1, T2["indices"]>
+      | MultiIndexKeys<T1, T2["indices"]>
+      | CompoundSecondaryIndexKeys<T1, T2>,
+  >(index: K, value: SecondaryIndexValue<T1, K>, options?: ListOptions<T1>) {
+    // Create index key parts and prefix key
+    const keyParts = createIndexKeyParts(
+      index as string | string[],
+      value as KvId | KvId[],
+    )
+
+    const prefixKey = extendKey(this._keys.secondaryIndexKey, ...keyParts)
+
+    // Add documents to result list by secondary index
+    return await this.handleManyBySecondaryIndex(
+      createListSelector(prefixKey, options),
+      (doc) => doc,
+      options,
+      { type: "secondary", index: keyParts[0] as string },
+    )
+  }
+
+  /**
+   * Find documents by a range of secondary index values.
+   * The method takes an optional options argument that can be used for filtering of documents, and pagination.
+   *
+   * @example
+   * ```ts
+   * // Returns all users with age >= 18
+   * const { result } = await db.users.findBySecondaryIndexRange("age", {
+   *   gte: 18,
+   * })
+   *
+   * // Returns all users with age between 20 (exclusive) and 30 (inclusive), oldest first
+   * const { result } = await db.users.findBySecondaryIndexRange(
+   *   "age",
+   *   { gt: 20, lte: 30 },
+   *   { reverse: true },
+   * )
+   * ```
+   *
+   * @param index - Index to find by.
+   * @param range - Range of index values, defined by gt, gte, lt and lte.
+   * @param options - List options, optional.
+   * @returns A promise resolving to an object containing the result list and iterator cursor.
+   */
+  async findBySecondaryIndexRange<
+    const K extends
+      | SecondaryIndexKeys<T1, T2["indices"]>
+      | MultiIndexKeys<T1, T2["indices"]>,
+  >(
+    index: K,
+    range: IndexRange<IndexElementValue<T1, K>>,
+    options?: ListOptions<T1>,
+  ) {
+    // Create prefix key
+    const prefixKey = extendKey(this._keys.secondaryIndexKey, index as KvId)
+
+    // Add documents to result list by secondary index range
+    return await this.handleManyBySecondaryIndex(
+      createIndexRangeSelector(prefixKey, range as IndexRange<KvId>),
+      (doc) => doc,
+      this.createRangeListOptions(index as string, options),
+      { type: "range", index: index as string },
+    )
+  }
+
+  /**
+   * Lists documents by a secondary index as an async iterator.
+   *
+   * Documents are lazily listed as they are iterated,
+   * allowing any number of documents to be processed in constant memory.
+   *
+   * @example
+   * ```ts
+   * // List all users with age = 24
+   * for await (const doc of db.users.listBySecondaryIndex("age", 24)) {
+   *   console.log(doc.value)
+   * }
+   * ```
+   *
+   * @param index - Index to list by, or list of compound index fields.
+   * @param value - Index value, or list of leading compound index values.
+   * @param options - List options, optional.
+   * @returns A document iterator.
+   */
+  listBySecondaryIndex<
+    const K extends
+      | SecondaryIndexKeys<T1, T2["indices"]>
+      | MultiIndexKeys<T1, T2["indices"]>
+      | CompoundSecondaryIndexKeys<T1, T2>,
+  >(
+    index: K,
+    value: SecondaryIndexValue<T1, K>,
+    options?: ListOptions<T1>,
+  ): DocumentIterator<T1> {
     // Create prefix key
     const prefixKey = extendKey(
       this._keys.secondaryIndexKey,
-      index as KvId,
-      value as KvId,
+      ...createIndexKeyParts(
+        index as string | string[],
+        value as KvId | KvId[],
+      ),
     )
 
-    // Add documents to result list by secondary index
-    return await this.handleMany(
-      prefixKey,
-      (doc) => doc,
+    // List documents by secondary index
+    return this.listDocumentsBySecondaryIndex(
+      createListSelector(prefixKey, options),
+      options,
+    )
+  }
+
+  /**
+   * Lists documents by a range of secondary index values as an async iterator.
+   *
+   * Documents are lazily listed as they are iterated,
+   * allowing any number of documents to be processed in constant memory.
+   *
+   * @example
+   * ```ts
+   * // List all users with age >= 18
+   * const iter = db.users.listBySecondaryIndexRange("age", { gte: 18 })
+   *
+   * for await (const doc of iter) {
+   *   console.log(doc.value)
+   * }
+   * ```
+   *
+   * @param index - Index to list by.
+   * @param range - Range of index values, defined by gt, gte, lt and lte.
+   * @param options - List options, optional.
+   * @returns A document iterator.
+   */
+  listBySecondaryIndexRange<
+    const K extends
+      | SecondaryIndexKeys<T1, T2["indices"]>
+      | MultiIndexKeys<T1, T2["indices"]>,
+  >(
+    index: K,
+    range: IndexRange<IndexElementValue<T1, K>>,
+    options?: ListOptions<T1>,
+  ): DocumentIterator<T1> {
+    // Create prefix key
+    const prefixKey = extendKey(this._keys.secondaryIndexKey, index as KvId)
+
+    // List documents by secondary index range
+    return this.listDocumentsBySecondaryIndex(
+      createIndexRangeSelector(prefixKey, range as IndexRange<KvId>),
+      this.createRangeListOptions(index as string, options),
+    )
+  }
+
+  /**
+   * Counts the number of documents by a secondary index.
+   *
+   * If the collection maintains counters and no filter is given,
+   * the count is read from the materialized index value counter instead of listing documents.
+   *
+   * @example
+   * ```ts
+   * // Returns the number of users with age = 24
+   * const count = await db.users.countBySecondaryIndex("age", 24)
+   * ```
+   *
+   * @param index - Index to count by, or list of compound index fields.
+   * @param value - Index value, or list of leading compound index values.
+   * @param options - Count options, optional.
+   * @returns A promise that resolves to a number representing the performed count.
+   */
+  async countBySecondaryIndex<
+    const K extends
+      | SecondaryIndexKeys<T1, T2["indices"]>
+      | MultiIndexKeys<T1, T2["indices"]>
+      | CompoundSecondaryIndexKeys<T1, T2>,
+  >(
+    index: K,
+    value: SecondaryIndexValue<T1, K>,
+    options?: CountOptions<T1>,
+  ) {
+    // Create index key parts
+    const keyParts = createIndexKeyParts(
+      index as string | string[],
+      value as KvId | KvId[],
+    )
+
+    // Read the index value counter if maintained and no filter is given
+    if (this._counterShards && !options?.filter) {
+      return await this.readCounter(keyParts, options)
+    }
+
+    // Initiate count variable, increment for each document, return result
+    let result = 0
+    await this.handleManyBySecondaryIndex(
+      { prefix: extendKey(this._keys.secondaryIndexKey, ...keyParts) },
+      () => result++,
+      options,
+      { type: "secondary", index: keyParts[0] as string },
+    )
+    return result
+  }
+
+  /**
+   * Aggregates documents by a secondary index, optionally grouped by the value of a field.
+   *
+   * Only documents with the given index value are listed and aggregated.
+   *
+   * @example
+   * ```ts
+   * // Returns the number of users aged 24 and their total house number by city
+   * const byCity = await db.users.aggregateBySecondaryIndex("age", 24, {
+   *   groupBy: "address.city",
+   *   sum: "address.houseNr",
+   * })
+   * ```
+   *
+   * @param index - Index to aggregate by, or list of compound index fields.
+   * @param value - Index value, or list of leading compound index values.
+   * @param options - Aggregate options, optional.
+   * @returns A promise that resolves to the aggregate values, or a map of aggregate values by group value if grouped.
+   */
+  async aggregateBySecondaryIndex<
+    const K extends
+      | SecondaryIndexKeys<T1, T2["indices"]>
+      | MultiIndexKeys<T1, T2["indices"]>
+      | CompoundSecondaryIndexKeys<T1, T2>,
+    const TOptions extends AggregateOptions<T1>,
+  >(
+    index: K,
+    value: SecondaryIndexValue<T1, K>,
+    options?: TOptions,
+  ): Promise<AggregateResult<T1, TOptions>> {
+    // Create prefix key
+    const prefixKey = extendKey(
+      this._keys.secondaryIndexKey,
+      ...createIndexKeyParts(
+        index as string | string[],
+        value as KvId | KvId[],
+      ),
+    )
+
+    // List documents by secondary index and aggregate them as they are iterated
+    const result = await aggregateDocuments(
+      this.listDocumentsBySecondaryIndex(
+        createListSelector(prefixKey, options),
+        options,
+      ),
       options,
     )
+
+    return result as AggregateResult<T1, TOptions>
   }
 
-  async delete(...ids: KvId[]) {
+  async delete(...ids: KvId[]): Promise<void>
+  async delete(
+    id: KvId,
+    options: DeleteOptions,
+  ): Promise<Deno.KvCommitResult | Deno.KvCommitError>
+  async delete(
+    ...args: (KvId | DeleteOptions)[]
+  ): Promise<Deno.KvCommitResult | Deno.KvCommitError | void> {
+    // Get document ids and delete options
+    const { ids, options } = parseDeleteArgs(args)
+
+    // If delete options are given, perform checked delete of single document
+    if (options) {
+      return await this.deleteDocument(ids[0], options)
+    }
+
     // Run delete operations for each id
     await allFulfilled(ids.map(async (id) => {
-      // Create idKey, get document value
+      // Create idKey, get document entry
       const idKey = extendKey(this._keys.idKey, id)
-      const { value } = await this.kv.get<T1>(idKey)
+      const { value, versionstamp } = await this.kv.get<T1>(idKey)
 
       // If no value, abort delete
       if (!value) {
@@ -242,7 +627,24 @@ export class IndexableCollection<
       // Perform delete using atomic operation
       const atomic = this.kv.atomic().delete(idKey)
       deleteIndices(id, value, atomic, this)
-      await atomic.commit()
+
+      // If writes are tracked, decrement counters and update derived collections from the unchanged document
+      if (this.isTracked()) {
+        atomic.check({
+          key: idKey,
+          versionstamp,
+        })
+
+        addCount(-1, atomic, this)
+        addChange("delete", id, null, atomic, this)
+        await this.applyViews(id, value, null, atomic)
+      }
+
+      // Retry delete at the current versionstamp if the document was concurrently modified
+      const cr = await atomic.commit()
+      if (!cr.ok) {
+        await this.deleteDocument(id, {})
+      }
     }))
   }
 
@@ -255,23 +657,27 @@ export class IndexableCollection<
    * await db.users.deleteByPrimaryIndex("username", "oliver")
    * ```
    *
-   * @param index - Index to delete by.
-   * @param value - Index value.
+   * @param index - Index to delete by, or list of compound index fields.
+   * @param value - Index value, or list of compound index values.
    * @param options - Find options, optional.
    * @returns A promise that resolves to void.
    */
   async deleteByPrimaryIndex<
-    const K extends PrimaryIndexKeys<T1, T2["indices"]>,
+    const K extends
+      | PrimaryIndexKeys<T1, T2["indices"]>
+      | CompoundPrimaryIndexKeys<T1, T2>,
   >(
     index: K,
-    value: CheckKeyOf<K, T1>,
+    value: PrimaryIndexValue<T1, K>,
     options?: FindOptions,
   ) {
     // Create index key
     const key = extendKey(
       this._keys.primaryIndexKey,
-      index as KvId,
-      value as KvId,
+      ...createIndexKeyParts(
+        index as string | string[],
+        value as KvId | KvId[],
+      ),
     )
 
     // Get index entry
@@ -305,26 +711,31 @@ export class IndexableCollection<
    * })
    * ```
    *
-   * @param index - Index to delete by.
-   * @param value - Index value.
+   * @param index - Index to delete by, or list of compound index fields.
+   * @param value - Index value, or list of leading compound index values.
    * @param options - List options, optional.
    * @returns A promise that resolves to void.
    */
   async deleteBySecondaryIndex<
-    const K extends SecondaryIndexKeys<T1, T2["indices"]>,
-  >(index: K, value: CheckKeyOf<K, T1>, options?: ListOptions<T1>) {
-    // Create prefix key
-    const prefixKey = extendKey(
-      this._keys.secondaryIndexKey,
-      index as KvId,
-      value as KvId,
+    const K extends
+      | SecondaryIndexKeys<T1, T2["indices"]>
+      | MultiIndexKeys<T1, T2["indices"]>
+      | CompoundSecondaryIndexKeys<T1, T2>,
+  >(index: K, value: SecondaryIndexValue<T1, K>, options?: ListOptions<T1>) {
+    // Create index key parts and prefix key
+    const keyParts = createIndexKeyParts(
+      index as string | string[],
+      value as KvId | KvId[],
     )
 
+    const prefixKey = extendKey(this._keys.secondaryIndexKey, ...keyParts)
+
     // Delete documents by secondary index, return iterator cursor
-    const { cursor } = await this.handleMany(
-      prefixKey,
+    const { cursor } = await this.handleManyBySecondaryIndex(
+      createListSelector(prefixKey, options),
       (doc) => this.delete(doc.id),
       options,
+      { type: "secondary", index: keyParts[0] as string },
     )
 
     return { cursor }
@@ -339,19 +750,22 @@ export class IndexableCollection<
    * const result = await db.users.updateByPrimaryIndex("username", "oliver", { age: 56 })
    * ```
    *
-   * @param index - Index to update by.
-   * @param value - Index value.
+   * @param index - Index to update by, or list of compound index fields.
+   * @param value - Index value, or list of compound index values.
    * @param data - Update data to be inserted into document.
    * @param options - Set options, optional.
    * @returns Promise that resolves to a commit result.
    */
   async updateByPrimaryIndex<
-    const K extends PrimaryIndexKeys<T1, T2["indices"]>,
+    const K extends
+      | PrimaryIndexKeys<T1, T2["indices"]>
+      | CompoundPrimaryIndexKeys<T1, T2>,
+    TStrategy extends UpdateStrategy = "shallow",
   >(
     index: K,
-    value: CheckKeyOf<K, T1>,
-    data: UpdateData<T1>,
-    options?: SetOptions,
+    value: PrimaryIndexValue<T1, K>,
+    data: UpdateValue<T1, TStrategy, TInput>,
+    options?: UpdateOptions<TStrategy>,
   ): Promise<CommitResult<T1> | Deno.KvCommitError> {
     // Find document by primary index
     const doc = await this.findByPrimaryIndex(index, value)
@@ -363,8 +777,94 @@ export class IndexableCollection<
       }
     }
 
-    // Update document, return result
-    return await this.update(doc.id, data, options)
+    // Update found document, return result
+    return await this.updateDocument(doc, data, options)
+  }
+
+  /**
+   * Update a document by a primary index if it exists, otherwise insert a new document.
+   *
+   * A new document is inserted with a generated id,
+   * and is only inserted if no document holds the primary index value.
+   * If a document is concurrently inserted, the upsert is re-attempted as an update.
+   *
+   * @example
+   * ```ts
+   * // Updates the age of the user with username = "oliver",
+   * // or inserts a new user if no such user exists
+   * const result = await db.users.upsertByPrimaryIndex("username", "oliver", {
+   *   update: { age: 25 },
+   *   set: {
+   *     username: "oliver",
+   *     age: 25,
+   *   },
+   * })
+   * ```
+   *
+   * @param index - Index to upsert by, or list of compound index fields.
+   * @param value - Index value, or list of compound index values.
+   * @param data - Update data for an existing document, and value for a new document.
+   * @param options - Upsert options, optional.
+   * @returns Promise that resolves to an upsert result.
+   */
+  async upsertByPrimaryIndex<
+    const K extends
+      | PrimaryIndexKeys<T1, T2["indices"]>
+      | CompoundPrimaryIndexKeys<T1, T2>,
+    TStrategy extends UpdateStrategy = "shallow",
+  >(
+    index: K,
+    value: PrimaryIndexValue<T1, K>,
+    data: UpsertValue<T1, TStrategy, TInput>,
+    options?: UpsertOptions<TStrategy>,
+  ): Promise<UpsertResult<T1> | Deno.KvCommitError> {
+    // Find document by primary index
+    const doc = await this.findByPrimaryIndex(index, value)
+
+    // If no document is found, ensure the new document holds the primary index value
+    if (!doc) {
+      const fields = typeof index === "string" ? [index] : index as string[]
+      const parts = getIndexKeyParts(fields, data.set as KvObject)
+      const expected = createIndexKeyParts(
+        index as string | string[],
+        value as KvId | KvId[],
+      )
+
+      if (!parts || !keyEq(parts, expected)) {
+        throw new InvalidUpsertError(
+          `Upsert value does not hold the primary index value of "${
+            fields.join(", ")
+          }"`,
+        )
+      }
+    }
+
+    // Update found document, or set new document with generated id
+    const cr = doc
+      ? await this.updateDocument(doc, data.update, { ...options, retry: 0 })
+      : await this.setDocument(null, data.set, { ...options, retry: 0 })
+
+    // Return upsert result if successful
+    if (cr.ok) {
+      return {
+        ...cr,
+        inserted: !doc,
+      }
+    }
+
+    // Re-attempt upsert if remaining attempts
+    const retry = options?.retry ?? DEFAULT_UPSERT_RETRY
+    if (retry > 0) {
+      return await this.upsertByPrimaryIndex(index, value, data, {
+        ...options,
+        retry: retry - 1,
+      })
+    }
+
+    // Return commit error
+    return {
+      ok: false,
+    }
   }
 
   /**
@@ -386,130 +886,1320 @@ export class IndexableCollection<
    * )
    * ```
    *
-   * @param index - Index to update by.
-   * @param value - Index value.
+   * @param index - Index to update by, or list of compound index fields.
+   * @param value - Index value, or list of leading compound index values.
    * @param data - Update data to be inserted into document.
    * @param options - Update many options, optional.
    * @returns Promise that resolves to an object containing result list and iterator cursor.
    */
   async updateBySecondaryIndex<
-    const K extends SecondaryIndexKeys<T1, T2["indices"]>,
+    const K extends
+      | SecondaryIndexKeys<T1, T2["indices"]>
+      | MultiIndexKeys<T1, T2["indices"]>
+      | CompoundSecondaryIndexKeys<T1, T2>,
+    TStrategy extends UpdateStrategy = "shallow",
   >(
     index: K,
-    value: CheckKeyOf<K, T1>,
-    data: UpdateData<T1>,
-    options?: UpdateManyOptions<T1>,
+    value: SecondaryIndexValue<T1, K>,
+    data: UpdateValue<T1, TStrategy, TInput>,
+    options?: UpdateManyOptions<T1, TStrategy>,
   ) {
-    // Create prefix key
-    const prefixKey = extendKey(
-      this._keys.secondaryIndexKey,
-      index as KvId,
-      value as KvId,
+    // Create index key parts and prefix key
+    const keyParts = createIndexKeyParts(
+      index as string | string[],
+      value as KvId | KvId[],
     )
 
+    const prefixKey = extendKey(this._keys.secondaryIndexKey, ...keyParts)
+
     // Update each document by secondary index, add commit result to result list
-    return await this.handleMany(
-      prefixKey,
+    return await this.handleManyBySecondaryIndex(
+      createListSelector(prefixKey, options),
       (doc) => this.updateDocument(doc, data, options),
       options,
+      { type: "secondary", index: keyParts[0] as string },
     )
   }
 
-  /** PROTECTED METHODS */
+  /**
+   * Rebuild the index entries of existing documents in the collection.
+   *
+   * Backfills entries for indices that were added after documents were inserted,
+   * and deletes entries belonging to indices that have been removed.
+   * Primary index collisions found in existing documents are reported instead of being indexed.
+   *
+   * Documents are listed and indexed a page at a time, and new secondary index entries are added to the index value counters.
+   * Reindexing can be performed in pages by setting a limit and resuming from the returned cursor.
+   * Entries of removed indices are deleted when the last page is reindexed.
+   *
+   * @example
+   * ```ts
+   * // Reindex all documents
+   * const { collisions } = await db.users.reindex()
+   *
+   * // Reindex 1000 documents at a time
+   * let cursor: string | undefined = undefined
+   * do {
+   *   const result = await db.users.reindex({ limit: 1_000, cursor })
+   *   cursor = result.cursor
+   * } while (cursor)
+   * ```
+   *
+   * @param options - Reindex options, optional.
+   * @returns Promise resolving to a ReindexResult object.
+   */
+  async reindex(options?: ReindexOptions): Promise<ReindexResult> {
+    // Create list iterator of document entries
+    const iter = this.kv.list<T1>({ prefix: this._keys.idKey }, options)
 
-  protected async updateDocument(
-    doc: Document<T1>,
-    data: UpdateData<T1>,
-    options: SetOptions | undefined,
-  ): Promise<CommitResult<T1> | Deno.KvCommitError> {
-    // Get document value, delete document entry
-    const { value, id } = doc
+    // Write index entries of a page of documents, retrying concurrently modified documents
+    const collisions: IndexCollision[] = []
+    let page: Deno.KvEntry<T1>[] = []
+    let reindexed = 0
+    let writesOk = true
 
-    // Check for index collisions
-    const atomic = checkIndices(data, this.kv.atomic(), this)
-    const cr = await atomic.commit()
+    const writePage = async () => {
+      const ok = await this.writeIndexEntries(
+        page,
+        new Map(),
+        collisions,
+        DEFAULT_REINDEX_RETRY,
+      )
 
-    // If check fails, return commit error
-    if (!cr.ok) {
-      return {
-        ok: false,
+      writesOk = writesOk && ok
+      reindexed += page.length
+      page = []
+    }
+
+    // Write index entries one page of documents at a time
+    for await (const entry of iter) {
+      page.push(entry)
+
+      if (page.length >= REINDEX_PAGE_SIZE) {
+        await writePage()
       }
     }
 
-    // Delete document entry
-    await this.delete(id)
+    // Write the remaining page
+    await writePage()
 
-    // Set new document value from merged data
-    return await this.setDocument(
-      id,
-      {
-        ...value,
-        ...data,
-      },
-      options,
-      true,
-    )
+    // Determine whether all documents have been listed
+    const done = typeof options?.limit === "undefined" ||
+      reindexed < options.limit
+
+    // Delete entries of removed indices when all documents have been listed
+    let deleted = 0
+    let deletesOk = true
+
+    if (done) {
+      const results = [
+        await this.deleteDroppedIndexEntries(
+          this._keys.primaryIndexKey,
+          getPrimaryIndexNames(this),
+        ),
+        await this.deleteDroppedIndexEntries(
+          this._keys.secondaryIndexKey,
+          getSecondaryIndexNames(this),
+        ),
+      ]
+
+      deleted = results.reduce((sum, result) => sum + result.deleted, 0)
+      deletesOk = results.every((result) => result.ok)
+    }
+
+    // Return reindex result
+    return {
+      ok: writesOk && deletesOk,
+      cursor: done ? undefined : iter.cursor || undefined,
+      reindexed,
+      deleted,
+      collisions,
+    }
   }
 
-  protected async setDocument(
-    id: KvId | null,
-    value: T1,
-    options: SetOptions | undefined,
-    overwrite = false,
-  ): Promise<CommitResult<T1> | Deno.KvCommitError> {
-    // Create the document id key and parse document value
-    const parsed = this._model.parse(value)
-    const docId = id ?? this._idGenerator(parsed)
-    const idKey = extendKey(this._keys.idKey, docId)
+  /**
+   * Verify the consistency of index entries in the collection.
+   *
+   * Streams the primary and secondary index entries a page at a time, checking each page against its documents,
+   * then streams the documents a page at a time, checking each page against its expected index entries.
+   * Reports orphaned index entries, missing index entries,
+   * and index entries whose value differs from the document entry.
+   *
+   * Found inconsistencies can optionally be repaired.
+   * Each repair is checked against the current index and document entries,
+   * ensuring that concurrently changed entries are not overwritten.
+   *
+   * @example
+   * ```ts
+   * // Report index inconsistencies
+   * const { issues } = await db.users.verifyIndices()
+   *
+   * // Report and repair index inconsistencies
+   * const { ok, repaired } = await db.users.verifyIndices({ repair: true })
+   * ```
+   *
+   * @param options - Verify indices options, optional.
+   * @returns Promise resolving to a VerifyIndicesResult object.
+   */
+  async verifyIndices(
+    options?: VerifyIndicesOptions,
+  ): Promise<VerifyIndicesResult> {
+    // Initiate issues and collisions lists, and repair counters
+    const issues: IndexIssue[] = []
+    const collisions: IndexCollision[] = []
+    let repairable = 0
+    let repaired = 0
+
+    // Report found issues of a page, repairing them if enabled
+    const report = async (
+      found: {
+        issue: IndexIssue
+        value: unknown
+        checks: Deno.AtomicCheck[]
+      }[],
+    ) => {
+      issues.push(...found.map(({ issue }) => issue))
+      repairable += found.length
+
+      if (!options?.repair || found.length === 0) {
+        return
+      }
+
+      // Execute each repair mutation as a checked atomic operation
+      const crs = await allFulfilled(found.map(({ issue, value, checks }) => {
+        const atomic = this.kv.atomic()
+        checks.forEach((check) => atomic.check(check))
+
+        return typeof value === "undefined"
+          ? atomic.delete(issue.key).commit()
+          : atomic.set(issue.key, value).commit()
+      }))
 
-    // Check for index collision
-    const indicesCheck = await checkIndices(parsed, this.kv.atomic(), this)
-      .commit()
+      repaired += crs.filter((cr) => cr.ok).length
+    }
+
+    // Create a found issue, checking the index entry and document entry against their read versionstamps
+    const createIssue = (
+      type: IndexIssueType,
+      id: KvId | undefined,
+      prefixKey: KvKey,
+      indexKey: KvKey,
+      versionstamp: string | null,
+      docVersionstamp: string | null,
+      value?: unknown,
+    ) => {
+      const checks: Deno.AtomicCheck[] = [{ key: indexKey, versionstamp }]
+
+      if (typeof id !== "undefined") {
+        checks.push({
+          key: extendKey(this._keys.idKey, id),
+          versionstamp: docVersionstamp,
+        })
+      }
 
-    // If index collision is detected, return commit error
-    if (!indicesCheck.ok) {
       return {
-        ok: false,
+        issue: {
+          type,
+          id,
+          index: String(indexKey[prefixKey.length]),
+          key: indexKey,
+        },
+        value,
+        checks,
       }
     }
 
-    // Check for id collision
-    const idCheck = await this.kv.atomic().check({
-      key: idKey,
-      versionstamp: null,
-    }).commit()
+    // Verify existing index entries against the documents they refer to, one page at a time
+    const verifyIndexEntries = async (prefixKey: KvKey, primary: boolean) => {
+      const iter = this.kv.list<IndexIdEntry | T1>(
+        { prefix: prefixKey },
+        options,
+      )
 
-    // If id collision is detected and overwrite is false, return failed operation.
-    if (!idCheck.ok) {
-      if (!overwrite) {
-        return {
-          ok: false,
+      let page: Deno.KvEntry<IndexIdEntry | T1>[] = []
+
+      const verifyPage = async () => {
+        // Get the document ids of the index entries
+        const ids = page.map(({ key, value }) =>
+          primary
+            ? (value as IndexIdEntry | null)?.__id__
+            : getDocumentId(key as KvKey)
+        )
+
+        // Read the referred document entries
+        const docKeys = ids
+          .filter((id): id is KvId => typeof id !== "undefined")
+          .map((id) => extendKey(this._keys.idKey, id))
+
+        const docEntries = new Map(
+          (await kvGetMany<T1>(docKeys, this.kv, options)).map((entry) => [
+            stringifyKey(entry.key),
+            entry,
+          ]),
+        )
+
+        // Report orphaned and mismatched index entries
+        const found = page.flatMap(({ key, value, versionstamp }, i) => {
+          const indexKey = key as KvKey
+          const id = ids[i]
+          const doc = typeof id === "undefined"
+            ? undefined
+            : docEntries.get(stringifyKey(extendKey(this._keys.idKey, id)))
+
+          const docValue = doc?.value ?? null
+          const docVersionstamp = doc?.versionstamp ?? null
+
+          // If the document does not expect the index entry, report orphaned entry
+          const expectedKeys = typeof id === "undefined" || docValue === null
+            ? []
+            : primary
+            ? getPrimaryIndexKeys(docValue, this)
+            : getSecondaryIndexKeys(id, docValue, this)
+
+          if (
+            typeof id === "undefined" || docValue === null ||
+            !expectedKeys.some((expectedKey) => keyEq(expectedKey, indexKey))
+          ) {
+            return [createIssue(
+              "orphaned",
+              id,
+              prefixKey,
+              indexKey,
+              versionstamp,
+              docVersionstamp,
+            )]
+          }
+
+          // If index entry value differs from the document value, report mismatched entry
+          const expectedValue = primary
+            ? { ...docValue, __id__: id } satisfies IndexDataEntry<T1>
+            : createSecondaryIndexValue(id, docValue, this)
+
+          if (!valueEq(value, expectedValue)) {
+            return [createIssue(
+              "mismatched",
+              id,
+              prefixKey,
+              indexKey,
+              versionstamp,
+              docVersionstamp,
+              expectedValue,
+            )]
+          }
+
+          return []
+        })
+
+        await report(found)
+        page = []
+      }
+
+      for await (const entry of iter) {
+        page.push(entry)
+
+        if (page.length >= VERIFY_INDICES_PAGE_SIZE) {
+          await verifyPage()
         }
       }
 
-      // Delete existing document before setting new entry
-      await this.delete(docId)
+      await verifyPage()
     }
 
-    // Create atomic operation with set mutation and versionstamp check
-    const atomic = this.kv
-      .atomic()
-      .set(idKey, parsed, options)
+    // Verify that documents have all their index entries, one page at a time
+    const verifyDocuments = async () => {
+      const iter = this.kv.list<T1>({ prefix: this._keys.idKey }, options)
+      let page: Deno.KvEntry<T1>[] = []
 
-    // Set document indices using atomic operation
-    setIndices(docId, parsed, atomic, this, options)
+      const verifyPage = async () => {
+        // Get the expected index keys of each document
+        const docs = page.flatMap(({ key, value, versionstamp }) => {
+          const id = getDocumentId(key)
+          return typeof id === "undefined" ? [] : [{
+            id,
+            value,
+            versionstamp,
+            primaryKeys: getPrimaryIndexKeys(value, this),
+            secondaryKeys: getSecondaryIndexKeys(id, value, this),
+          }]
+        })
 
-    // Execute the atomic operation
-    const cr = await atomic.commit()
+        // Read the expected index entries
+        const indexKeys = docs.flatMap((doc) => [
+          ...doc.primaryKeys,
+          ...doc.secondaryKeys,
+        ])
+
+        const indexEntries = new Map(
+          (await kvGetMany<IndexIdEntry>(indexKeys, this.kv, options)).map((
+            entry,
+          ) => [stringifyKey(entry.key), entry]),
+        )
+
+        // Primary index keys claimed by missing entries of documents in the page
+        const claimed = new Map<string, KvId>()
+
+        // Report missing index entries and primary index collisions
+        const found = docs.flatMap(({ id, value, versionstamp, ...doc }) => {
+          const primary = doc.primaryKeys.flatMap((indexKey) => {
+            const keyStr = stringifyKey(indexKey)
+            const entry = indexEntries.get(keyStr)
+            const ownerId = claimed.get(keyStr) ??
+              (entry?.versionstamp ? entry.value?.__id__ : undefined)
+
+            // Report collision if owned by another document
+            if (typeof ownerId !== "undefined") {
+              if (!keyEq([ownerId], [id])) {
+                collisions.push({
+                  id,
+                  index: String(
+                    indexKey[this._keys.primaryIndexKey.length],
+                  ),
+                  key: indexKey,
+                  conflictingId: ownerId,
+                })
+              }
+
+              return []
+            }
+
+            // Report missing entry if not owned by any document
+            if (entry?.versionstamp) {
+              return []
+            }
+
+            claimed.set(keyStr, id)
+            return [createIssue(
+              "missing",
+              id,
+              this._keys.primaryIndexKey,
+              indexKey,
+              null,
+              versionstamp,
+              { ...value, __id__: id } satisfies IndexDataEntry<T1>,
+            )]
+          })
+
+          const secondary = doc.secondaryKeys
+            .filter((indexKey) =>
+              !indexEntries.get(stringifyKey(indexKey))?.versionstamp
+            )
+            .map((indexKey) =>
+              createIssue(
+                "missing",
+                id,
+                this._keys.secondaryIndexKey,
+                indexKey,
+                null,
+                versionstamp,
+                createSecondaryIndexValue(id, value, this),
+              )
+            )
+
+          return [...primary, ...secondary]
+        })
+
+        await report(found)
+        page = []
+      }
+
+      for await (const entry of iter) {
+        page.push(entry)
+
+        if (page.length >= VERIFY_INDICES_PAGE_SIZE) {
+          await verifyPage()
+        }
+      }
+
+      await verifyPage()
+    }
+
+    // Verify index entries, then documents
+    await verifyIndexEntries(this._keys.primaryIndexKey, true)
+    await verifyIndexEntries(this._keys.secondaryIndexKey, false)
+    await verifyDocuments()
+
+    // Return verify result
+    return {
+      ok: options?.repair ? repaired === repairable : issues.length === 0,
+      issues,
+      repaired,
+      collisions,
+    }
+  }
+
+  /** PROTECTED METHODS */
+
+  /**
+   * Write the index entries of documents in batches.
+   *
+   * Every batch checks the versionstamps of its documents, so that index entries of outdated values are never committed.
+   * Documents of failed batches are read again and retried.
+   * New secondary index entries are added to the index value counters.
+   *
+   * @param entries - Document entries.
+   * @param claimedPrimaryKeys - Primary index keys claimed by reindexed documents.
+   * @param collisions - List of found primary index collisions.
+   * @param retry - Number of remaining retry attempts.
+   * @returns Promise resolving to true if all index entries were written, false if not.
+   */
+  protected async writeIndexEntries(
+    entries: Deno.KvEntry<T1>[],
+    claimedPrimaryKeys: Map<string, KvId>,
+    collisions: IndexCollision[],
+    retry: number,
+  ): Promise<boolean> {
+    // Get existing primary index entries of all documents
+    const primaryKeys = entries.flatMap(({ value }) =>
+      getPrimaryIndexKeys(value, this)
+    )
+
+    const primaryEntries = await kvGetMany<IndexIdEntry>(primaryKeys, this.kv)
+    const existingPrimaryEntries = new Map(
+      primaryEntries.map((entry) => [stringifyKey(entry.key), entry]),
+    )
+
+    // Get existing secondary index entries of all documents if counters are maintained
+    const secondaryKeys = this._counterShards
+      ? entries.flatMap(({ key, value }) => {
+        const id = getDocumentId(key)
+        return typeof id === "undefined"
+          ? []
+          : getSecondaryIndexKeys(id, value, this)
+      })
+      : []
+
+    const secondaryEntries = await kvGetMany(secondaryKeys, this.kv)
+    const existingSecondaryKeys = new Set(
+      secondaryEntries
+        .filter((entry) => entry.versionstamp !== null)
+        .map((entry) => stringifyKey(entry.key)),
+    )
+
+    // Create index mutations grouped by document
+    const groups = entries.flatMap((entry) => {
+      // Get document id, skip entry if undefined
+      const id = getDocumentId(entry.key)
+      if (typeof id === "undefined") {
+        return []
+      }
+
+      const mutations: {
+        key: KvKey
+        value: unknown
+        check?: Deno.AtomicCheck
+        count?: boolean
+      }[] = []
+
+      const claims: string[] = []
+      const found: IndexCollision[] = []
+
+      // Create primary index mutations, report collisions with other documents
+      const indexEntry: IndexDataEntry<T1> = { ...entry.value, __id__: id }
+
+      getPrimaryIndexKeys(entry.value, this).forEach((indexKey) => {
+        const keyStr = stringifyKey(indexKey)
+        const existing = existingPrimaryEntries.get(keyStr)
+        const ownerId = claimedPrimaryKeys.get(keyStr) ??
+          existing?.value?.__id__
+
+        if (typeof ownerId !== "undefined" && !keyEq([ownerId], [id])) {
+          found.push({
+            id,
+            index: String(indexKey[this._keys.primaryIndexKey.length]),
+            key: indexKey,
+            conflictingId: ownerId,
+          })
+          return
+        }
+
+        claimedPrimaryKeys.set(keyStr, id)
+        claims.push(keyStr)
+
+        mutations.push({
+          key: indexKey,
+          value: indexEntry,
+          check: {
+            key: indexKey,
+            versionstamp: existing?.versionstamp ?? null,
+          },
+        })
+      })
+
+      // Create secondary index mutations, counting entries that do not exist yet
+      const secondaryIndexValue = createSecondaryIndexValue(
+        id,
+        entry.value,
+        this,
+      )
+
+      getSecondaryIndexKeys(id, entry.value, this).forEach((indexKey) => {
+        const count = !!this._counterShards &&
+          !existingSecondaryKeys.has(stringifyKey(indexKey))
+
+        mutations.push({
+          key: indexKey,
+          value: secondaryIndexValue,
+          check: count ? { key: indexKey, versionstamp: null } : undefined,
+          count,
+        })
+      })
+
+      return [{ entry, mutations, claims, found }]
+    })
+
+    // Slice document groups into batches within the atomic operation mutation limit
+    const batches: (typeof groups)[] = []
+    let size = 0
+
+    groups.forEach((group) => {
+      const groupSize = group.mutations.reduce(
+        (sum, mut) => sum + (mut.count ? 2 : 1),
+        1,
+      )
+      if (
+        batches.length === 0 ||
+        size + groupSize > ATOMIC_OPERATION_MUTATION_LIMIT
+      ) {
+        batches.push([])
+        size = 0
+      }
+
+      batches[batches.length - 1].push(group)
+      size += groupSize
+    })
+
+    // Commit each batch, checking the versionstamp of every document
+    const failedBatches = await Promise.all(batches.map(async (batch) => {
+      const atomic = this.kv.atomic()
+
+      batch.forEach(({ entry, mutations }) => {
+        atomic.check({ key: entry.key, versionstamp: entry.versionstamp })
+        mutations.forEach((mut) => {
+          atomic.set(mut.key, mut.value)
+          if (mut.check) {
+            atomic.check(mut.check)
+          }
+
+          if (mut.count) {
+            addCount(1, atomic, this, getIndexCounterKeyParts(mut.key, this))
+          }
+        })
+      })
+
+      const cr = await atomic.commit()
+
+      // Report collisions of committed documents
+      if (cr.ok) {
+        batch.forEach(({ found }) => collisions.push(...found))
+        return []
+      }
+
+      // Release primary index keys claimed by documents of the failed batch
+      batch.forEach(({ claims }) =>
+        claims.forEach((keyStr) => claimedPrimaryKeys.delete(keyStr))
+      )
+
+      return batch.map(({ entry }) => entry.key)
+    }))
+
+    // Return result if no batches failed or no retry attempts remain
+    const failedKeys = failedBatches.flat()
+    if (failedKeys.length === 0 || retry <= 0) {
+      return failedKeys.length === 0
+    }
+
+    // Read the current entries of failed documents, deleted documents are skipped
+    const current = await kvGetMany<T1>(failedKeys, this.kv)
+    const retried = current.filter((entry): entry is Deno.KvEntry<T1> =>
+      entry.versionstamp !== null
+    )
+
+    return await this.writeIndexEntries(
+      retried,
+      claimedPrimaryKeys,
+      collisions,
+      retry - 1,
+    )
+  }
+
+  /**
+   * Delete index entries that do not belong to any of the given indices.
+   *
+   * Index entries are listed and deleted one page at a time.
+   *
+   * @param prefixKey - Primary or secondary index key.
+   * @param indexNames - Names of current indices.
+   * @returns Promise resolving to the number of deleted entries, and whether all deletes were committed.
+   */
+  protected async deleteDroppedIndexEntries(
+    prefixKey: KvKey,
+    indexNames: string[],
+  ) {
+    // Create list iterator of index entries
+    const iter = this.kv.list({ prefix: prefixKey })
+    let keys: KvKey[] = []
+    let deleted = 0
+    let ok = true
+
+    // Delete a page of collected keys
+    const deletePage = async () => {
+      const crs = await useAtomics(
+        this.kv,
+        keys,
+        (key, atomic) => atomic.delete(key),
+      )
+
+      deleted += keys.length
+      ok = ok && crs.every((cr) => cr.ok)
+      keys = []
+    }
+
+    // Collect keys where the index name is not a current index
+    for await (const { key } of iter) {
+      const name = key[prefixKey.length]
+      if (typeof name !== "string" || !indexNames.includes(name)) {
+        keys.push(key as KvKey)
+      }
+
+      if (keys.length >= ATOMIC_OPERATION_MUTATION_LIMIT) {
+        await deletePage()
+      }
+    }
+
+    // Delete the remaining keys
+    await deletePage()
+
+    return { deleted, ok }
+  }
+
+  protected getCounterKeyParts(doc: Document<T1>): Deno.KvKey[] {
+    // Count documents in total and by each of their secondary index values
+    return [
+      ...super.getCounterKeyParts(doc),
+      ...getSecondaryIndexKeys(doc.id, doc.value, this).map((indexKey) =>
+        getIndexCounterKeyParts(indexKey, this)
+      ),
+    ]
+  }
+
+  /**
+   * Lazily list documents found by secondary index entries.
+   *
+   * If secondary index entries only store document ids,
+   * documents are resolved from their id entries.
+   *
+   * @param selector - List selector for secondary index entries.
+   * @param options - List options, optional.
+   * @returns A document iterator.
+   */
+  protected listDocumentsBySecondaryIndex(
+    selector: Deno.KvListSelector,
+    options: ListOptions<T1> | undefined,
+  ): DocumentIterator<T1> {
+    // If index entries store document data, list documents directly
+    if (this.secondaryIndexStorage === "data") {
+      return this.listDocuments(selector, options)
+    }
+
+    // Create list iterator with given selector and options
+    const iter = this.kv.list<IndexIdEntry>(selector, options)
+
+    // Create document iterator finding the document of each index entry
+    return createDocumentIterator(
+      iter,
+      async ({ value }) =>
+        await this.find(value.__id__, {
+          consistency: options?.consistency,
+        }),
+      options?.filter,
+    )
+  }
+
+  /**
+   * Create list options of a secondary index range read.
+   *
+   * A document has one index entry per element of a multi-value index,
+   * and is only listed for the first entry within the range.
+   *
+   * @param index - Index to read by.
+   * @param options - List options, optional.
+   * @returns The list options of the range read.
+   */
+  private createRangeListOptions(
+    index: string,
+    options: ListOptions<T1> | undefined,
+  ): ListOptions<T1> | undefined {
+    // Return the given options if not a multi-value index
+    if (!this.multiIndexList.includes(index)) {
+      return options
+    }
+
+    // Filter out documents that were already listed
+    return {
+      ...options,
+      filter: createUniqueFilter(options?.filter),
+    }
+  }
+
+  /**
+   * Perform operations on lists of documents found by secondary index entries.
+   *
+   * If secondary index entries only store document ids,
+   * documents are resolved from their id entries.
+   *
+   * @param selector - List selector for secondary index entries.
+   * @param fn - Callback function.
+   * @param options - List options, optional.
+   * @param plan - Strategy and index reported when explaining the read.
+   * @returns Promise that resolves to object with iterator cursor.
+   */
+  protected async handleManyBySecondaryIndex<const T>(
+    selector: Deno.KvListSelector,
+    fn: (doc: Document<T1>) => T,
+    options: ListOptions<T1> | undefined,
+    plan: Pick<QueryPlan, "type" | "index">,
+  ) {
+    // If index entries store document data, handle documents directly
+    if (this.secondaryIndexStorage === "data") {
+      return await this.handleMany(selector, fn, options, plan)
+    }
+
+    // Create list iterator with given selector and options
+    const iter = this.kv.list<IndexIdEntry>(selector, options)
+
+    // Collect document id keys from index entries
+    const idKeys: KvKey[] = []
+    for await (const { value } of iter) {
+      idKeys.push(extendKey(this._keys.idKey, value.__id__))
+    }
+
+    // Get document entries by id keys
+    const entries = await kvGetMany<T1>(idKeys, this.kv, options)
+
+    // Initiate document list
+    const docs: Document<T1>[] = []
+
+    // Loop over each document entry
+    for (const { key, value, versionstamp } of entries) {
+      // Get document id, continue to next entry if undefined or empty
+      const id = getDocumentId(key)
+      if (
+        typeof id === "undefined" || value === null || versionstamp === null
+      ) {
+        continue
+      }
+
+      // Create document
+      const doc = await this.constructDocument({
+        id,
+        versionstamp,
+        value,
+      })
+
+      // Filter document and add to documents list
+      if (!options?.filter || options.filter(doc)) {
+        docs.push(doc)
+      }
+    }
+
+    // Explain how documents were read
+    options?.explain?.({
+      ...plan,
+      key: undefined,
+      selector,
+      scanned: idKeys.length,
+      returned: docs.length,
+    })
+
+    // Execute callback function for each document with bounded concurrency
+    const result = await handleDocuments(docs, fn, options?.concurrency)
+
+    // Return result and current iterator cursor
+    return {
+      result,
+      cursor: iter.cursor || undefined,
+    }
+  }
+
+  /**
+   * Perform operations on lists of documents in the collection, ordered by a field.
+   *
+   * Documents are listed in the order of the secondary index of the field if one exists,
+   * in which case the returned cursor is a regular list cursor.
+   *
+   * @param orderBy - Field and direction to order by.
+   * @param fn - Callback function.
+   * @param options - List options.
+   * @returns Promise that resolves to object with cursor.
+   */
+  protected async handleManyOrdered<const T>(
+    orderBy: ListOrder<T1>,
+    fn: (doc: Document<T1>) => T,
+    options: ListOptions<T1>,
+  ) {
+    // Sort documents if the field has no secondary index
+    if (!this.secondaryIndexList.includes(orderBy.field)) {
+      return await super.handleManyOrdered(orderBy, fn, options)
+    }
+
+    // List documents in the order of the secondary index
+    return await this.handleManyBySecondaryIndex(
+      { prefix: extendKey(this._keys.secondaryIndexKey, orderBy.field) },
+      fn,
+      { ...options, reverse: orderBy.direction === "desc" },
+      { type: "ordered", index: orderBy.field },
+    )
+  }
+
+  /**
+   * Plan how to find the documents of a query, choosing the best matching index.
+   *
+   * Indices are chosen in the following order:
+   * equality on a primary index, equality on a secondary index,
+   * range on a secondary index, and ordering by a secondary index.
+   * If no index matches, all documents are scanned.
+   *
+   * @param definition - Query definition.
+   * @returns The query plan.
+   */
+  protected planQuery(definition: QueryDefinition): QueryPlan {
+    const { conditions, order } = definition
+
+    // Get document by primary index for equality condition
+    const primary = conditions.find(({ field, operator, value }) =>
+      operator === "==" && this.primaryIndexList.includes(field) &&
+      isKvId(value)
+    )
+
+    if (primary) {
+      return {
+        type: "primary",
+        index: primary.field,
+        key: extendKey(
+          this._keys.primaryIndexKey,
+          primary.field,
+          primary.value as KvId,
+        ),
+        selector: undefined,
+        reverse: false,
+        sort: false,
+      }
+    }
+
+    // List documents by secondary index value for equality condition
+    const secondary = conditions.find(({ field, operator, value }) =>
+      operator === "==" && this.secondaryIndexList.includes(field) &&
+      isKvId(value)
+    )
+
+    if (secondary) {
+      const ordered = !order || order.field === secondary.field
+      return {
+        type: "secondary",
+        index: secondary.field,
+        key: undefined,
+        selector: {
+          prefix: extendKey(
+            this._keys.secondaryIndexKey,
+            secondary.field,
+            secondary.value as KvId,
+          ),
+        },
+        reverse: ordered && order?.direction === "desc",
+        sort: !ordered,
+      }
+    }
+
+    // List documents by secondary index range, preferring the ordered field
+    const ranges = conditions.filter(({ field, operator, value }) =>
+      operator in QUERY_RANGE_BOUNDS &&
+      this.secondaryIndexList.includes(field) && isKvId(value)
+    )
+
+    const range = ranges.find(({ field }) => field === order?.field) ??
+      ranges.at(0)
+
+    if (range) {
+      // Create index range from all range conditions on the field
+      const indexRange: IndexRange<KvId> = {}
+      ranges
+        .filter(({ field }) => field === range.field)
+        .forEach(({ operator, value }) => {
+          const bound = QUERY_RANGE_BOUNDS[operator as QueryRangeOperator]
+          indexRange[bound] ??= value as KvId
+        })
+
+      const ordered = !order || order.field === range.field
+      return {
+        type: "range",
+        index: range.field,
+        key: undefined,
+        selector: createIndexRangeSelector(
+          extendKey(this._keys.secondaryIndexKey, range.field),
+          indexRange,
+        ),
+        reverse: ordered && order?.direction === "desc",
+        sort: !ordered,
+      }
+    }
+
+    // List documents in the order of a secondary index
+    if (order && this.secondaryIndexList.includes(order.field)) {
+      return {
+        type: "ordered",
+        index: order.field,
+        key: undefined,
+        selector: {
+          prefix: extendKey(this._keys.secondaryIndexKey, order.field),
+        },
+        reverse: order.direction === "desc",
+        sort: false,
+      }
+    }
+
+    // Scan all documents
+    return super.planQuery(definition)
+  }
+
+  /**
+   * Execute a query according to its plan,
+   * getting a single document if planned by primary index.
+   *
+   * @param plan - Query plan.
+   * @param definition - Query definition.
+   * @returns Promise resolving to the query result.
+   */
+  protected async executeQuery(
+    plan: QueryPlan,
+    definition: QueryDefinition,
+  ): Promise<QueryResult<T1>> {
+    // Execute listing query plans
+    if (plan.type !== "primary" || !plan.key) {
+      return await super.executeQuery(plan, definition)
+    }
+
+    // Get primary index entry
+    const entry = await this.kv.get<
+      unknown & Pick<IndexDataEntry<T1>, "__id__">
+    >(plan.key, {
+      consistency: definition.consistency,
+    })
+
+    // Create document if found and match all conditions
+    let result: Document<T1>[] = []
+    if (entry.value !== null && entry.versionstamp !== null) {
+      const { __id__, ...data } = entry.value
+      const doc = await this.constructDocument({
+        id: __id__,
+        versionstamp: entry.versionstamp,
+        value: data as T1,
+      })
+
+      const filter = createQueryFilter<T1>(definition)
+      result = filter(doc) ? [doc] : []
+    }
+
+    // Explain how the query was executed
+    definition.explain?.({
+      type: plan.type,
+      index: plan.index,
+      key: plan.key,
+      selector: undefined,
+      scanned: entry.versionstamp === null ? 0 : 1,
+      returned: result.length,
+    })
+
+    return { result, cursor: undefined }
+  }
+
+  /**
+   * Lazily list documents according to a query plan,
+   * listing secondary index entries if planned by secondary index.
+   *
+   * @param plan - Query plan.
+   * @param options - List options.
+   * @returns A document iterator.
+   */
+  protected listQueryDocuments(
+    plan: QueryPlan,
+    options: ListOptions<T1>,
+  ): DocumentIterator<T1> {
+    // List documents by id keys when scanning
+    if (plan.type === "scan" || !plan.selector) {
+      return super.listQueryDocuments(plan, options)
+    }
+
+    // List documents by secondary index entries
+    return this.listDocumentsBySecondaryIndex(plan.selector, options)
+  }
+
+  protected async deleteDocument(
+    id: KvId,
+    options: DeleteOptions,
+    conflictRetry = DEFAULT_CONFLICT_RETRY,
+  ): Promise<Deno.KvCommitResult | Deno.KvCommitError> {
+    // Create idKey, get document entry
+    const idKey = extendKey(this._keys.idKey, id)
+    const { value, versionstamp } = await this.kv.get<T1>(idKey)
+
+    // Check document entry at expected or current versionstamp
+    const atomic = this.kv
+      .atomic()
+      .check({
+        key: idKey,
+        versionstamp: typeof options.ifVersionstamp === "undefined"
+          ? versionstamp
+          : options.ifVersionstamp,
+      })
+      .delete(idKey)
+
+    // Delete document indices, decrement counters and update derived collections if document exists
+    const checks = value ? await this.applyViews(id, value, null, atomic) : []
+
+    if (value) {
+      deleteIndices(id, value, atomic, this)
+      addCount(-1, atomic, this)
+      addChange("delete", id, null, atomic, this)
+    }
+
+    // Perform delete using atomic operation
+    const cr = await atomic.commit()
+
+    // Retry if the document or derived documents were concurrently modified and attempts remain
+    if (
+      !cr.ok && conflictRetry > 0 && (
+        typeof options.ifVersionstamp === "undefined" ||
+        await this.hasViewConflict(checks)
+      )
+    ) {
+      return await this.deleteDocument(id, options, conflictRetry - 1)
+    }
+
+    return cr
+  }
+
+  protected async updateDocument(
+    doc: Document<T1>,
+    data: UpdateValue<T1, UpdateStrategy, TInput>,
+    options: UpdateOptions | undefined,
+  ): Promise<CommitResult<T1> | Deno.KvCommitError> {
+    // Get document id, value and versionstamp, create document id key
+    const { id, value, versionstamp } = doc
+    const idKey = extendKey(this._keys.idKey, id)
+
+    // Parse new versioned document value from data applied using update strategy
+    const parsed = stampVersion(
+      this._model.parse(applyUpdate(value, data, options?.strategy)),
+      this._migrations,
+    )
+
+    // Create atomic operation with versionstamp check and set mutation
+    const atomic = this.kv
+      .atomic()
+      .check({
+        key: idKey,
+        versionstamp: typeof options?.ifVersionstamp === "undefined"
+          ? versionstamp
+          : options.ifVersionstamp,
+      })
+      .set(idKey, parsed, options)
+
+    // Get the stored document value, as indexed before any migration
+    const { value: stored } = await this.kv.get<T1>(idKey)
+    const existing = stored ?? stampVersion(value, this._migrations)
+
+    // Update document indices, only replacing changed index entries
+    updateIndices(id, existing, parsed, atomic, this, options)
+
+    // Update derived collections from the stored value of the current document
+    const checks = await this.applyViews(id, existing, parsed, atomic)
+
+    // Record the change
+    addChange("set", id, parsed, atomic, this)
+
+    // Execute the atomic operation
+    const cr = await atomic.commit()
+
+    // Return commit result if successful
+    if (cr.ok) {
+      return {
+        ok: true,
+        versionstamp: cr.versionstamp,
+        id,
+      }
+    }
+
+    // Get the current document, if no document exists return commit error
+    const current = await this.find(id)
+    if (!current) {
+      return {
+        ok: false,
+      }
+    }
+
+    // If document was concurrently modified, retry update from current document
+    // unless the update is expected to apply to a specific versionstamp,
+    // or all retry attempts are spent
+    const conflictRetry = options?.retry ?? DEFAULT_UPDATE_RETRY
+    if (current.versionstamp !== versionstamp) {
+      if (
+        typeof options?.ifVersionstamp !== "undefined" || conflictRetry <= 0
+      ) {
+        return {
+          ok: false,
+        }
+      }
+
+      return await this.updateDocument(current, data, {
+        ...options,
+        retry: conflictRetry - 1,
+      })
+    }
+
+    // Retry update if derived documents were concurrently modified,
+    // unless all retry attempts are spent
+    if (await this.hasViewConflict(checks)) {
+      if (conflictRetry <= 0) {
+        return {
+          ok: false,
+        }
+      }
+
+      return await this.updateDocument(current, data, {
+        ...options,
+        retry: conflictRetry - 1,
+      })
+    }
+
+    // Retry failed operation if remaining attempts
+    const retry = options?.retry ?? 0
+    if (retry > 0) {
+      return await this.updateDocument(current, data, {
+        ...options,
+        retry: retry - 1,
+      })
+    }
+
+    // Return commit error
+    return {
+      ok: false,
+    }
+  }
+
+  protected async setDocument(
+    id: KvId | null,
+    value: T1 | TInput,
+    options: SetOptions | undefined,
+    overwrite = false,
+    conflictRetry = DEFAULT_CONFLICT_RETRY,
+  ): Promise<CommitResult<T1> | Deno.KvCommitError> {
+    // Create the document id key and parse versioned document value
+    const parsed = stampVersion(this._model.parse(value), this._migrations)
+    const docId = id ?? this._idGenerator(parsed)
+    const idKey = extendKey(this._keys.idKey, docId)
+
+    // Create atomic operation with set mutation
+    const atomic = this.kv
+      .atomic()
+      .set(idKey, parsed, options)
+
+    // Versionstamp checks of updated derived documents
+    let checks: Deno.AtomicCheck[] = []
+
+    // If versionstamp is expected, replace existing document in a single atomic operation
+    if (typeof options?.ifVersionstamp !== "undefined") {
+      // Get the existing document value, used for diffing index entries
+      const { value: existing } = await this.kv.get<T1>(idKey)
+
+      // Check for existing document at expected versionstamp
+      atomic.check({
+        key: idKey,
+        versionstamp: options.ifVersionstamp,
+      })
+
+      // Update or set document indices, increment counters of new documents
+      if (existing) {
+        updateIndices(docId, existing, parsed, atomic, this, options)
+      } else {
+        setIndices(docId, parsed, atomic, this, options)
+        addCount(1, atomic, this)
+      }
+
+      // Update derived collections
+      checks = await this.applyViews(docId, existing, parsed, atomic)
+    } else {
+      // Check for index collision
+      const indicesCheck = await checkIndices(parsed, this.kv.atomic(), this)
+        .commit()
+
+      // If index collision is detected, return commit error
+      if (!indicesCheck.ok) {
+        return {
+          ok: false,
+        }
+      }
+
+      // Check for id collision
+      const idCheck = await this.kv.atomic().check({
+        key: idKey,
+        versionstamp: null,
+      }).commit()
+
+      // If id collision is detected and overwrite is false, return failed operation.
+      if (!idCheck.ok) {
+        if (!overwrite) {
+          return {
+            ok: false,
+          }
+        }
+
+        // Delete existing document before setting new entry
+        await this.delete(docId)
+      }
+
+      // Set document indices using atomic operation
+      setIndices(docId, parsed, atomic, this, options)
+
+      // If writes are tracked, only count the document and update derived collections if it is still new
+      if (this.isTracked()) {
+        atomic.check({
+          key: idKey,
+          versionstamp: null,
+        })
+
+        addCount(1, atomic, this)
+        checks = await this.applyViews(docId, null, parsed, atomic)
+      }
+    }
+
+    // Record the change
+    addChange("set", docId, parsed, atomic, this)
+
+    // Execute the atomic operation
+    const cr = await atomic.commit()
+
+    // Retry if derived documents were concurrently modified and attempts remain
+    if (
+      !cr.ok && conflictRetry > 0 && await this.hasViewConflict(checks)
+    ) {
+      return await this.setDocument(
+        docId,
+        value,
+        options,
+        overwrite,
+        conflictRetry - 1,
+      )
+    }
 
     // Retry failed operation if remaining attempts
     const retry = options?.retry ?? 0
     if (!cr.ok && retry > 0) {
       return await this.setDocument(
         docId,
-        parsed,
+        value,
         { ...options, retry: retry - 1 },
         overwrite,
+        conflictRetry,
       )
     }
 
@@ -15,6 +15,8 @@ import type {
   QueueValue,
   Schema,
   SchemaDefinition,
+  SchemaWatchEvent,
+  WatchOptions,
 } from "./types.ts"
 import { Collection } from "./collection.ts"
 import { Document } from "./document.ts"
@@ -33,6 +35,10 @@ import {
   UNDELIVERED_KEY_PREFIX,
 } from "./constants.ts"
 import { model } from "./model.ts"
+import { ChangeLog } from "./change_log.ts"
+import { DerivedCollection } from "./derived_collection.ts"
+import { LargeCollection } from "./large_collection.ts"
+import { InvalidDerivedCollectionError } from "./errors.ts"
 
 /**
  * Create a new database instance.
@@ -108,14 +114,22 @@ export function kvdex<const T extends SchemaDefinition>(
     })
   }
 
-  // Create schema
+  // Create schema, collecting built collections by builder function
+  const builds = new Map<
+    unknown,
+    Collection<KvValue, CollectionOptions<KvValue>>
+  >()
   const schema = _createSchema(
     schemaDefinition,
     kv,
     queueHandlers,
     idempotentListener,
+    builds,
   ) as Schema<T>
 
+  // Link derived collections to their source collections
+  _linkDerivedCollections(builds)
+
   // Create KvDex object
   const db = new KvDex(kv, schema, queueHandlers, idempotentListener)
 
@@ -129,6 +143,9 @@ export class KvDex<const T extends Schema<SchemaDefinition>> {
   private queueHandlers: Map<string, QueueMessageHandler<QueueValue>[]>
   private idempotentListener: () => void
 
+  /** Durable change log of collections that record changes. */
+  readonly changes: ChangeLog
+
   constructor(
     kv: Deno.Kv,
     schema: T,
@@ -139,6 +156,7 @@ export class KvDex<const T extends Schema<SchemaDefinition>> {
     this.schema = schema
     this.queueHandlers = queueHandlers
     this.idempotentListener = idempotentListener
+    this.changes = new ChangeLog(kv)
   }
 
   /**
@@ -153,7 +171,9 @@ export class KvDex<const T extends Schema<SchemaDefinition>> {
    * @param selector - Collection selector function.
    * @returns A new AtomicBuilder instance.
    */
-  atomic<const T1 extends KvValue>(selector: CollectionSelector<T, T1>) {
+  atomic<const T1 extends KvValue, const TInput = T1>(
+    selector: CollectionSelector<T, T1, TInput>,
+  ) {
     return new AtomicBuilder(this.kv, this.schema, selector(this.schema))
   }
 
@@ -164,6 +184,8 @@ export class KvDex<const T extends Schema<SchemaDefinition>> {
    *
    * Does not count undelivered queue messages.
    *
+   * Collections maintaining counters are counted by reading their materialized document counters.
+   *
    * @example
    * ```ts
    * // Returns the total number of documents in the KV store across all collections
@@ -294,7 +316,7 @@ export class KvDex<const T extends Schema<SchemaDefinition>> {
     }
 
     // Return document
-    return new Document<T>(model(), {
+    return new Document<T>(model<T>(), {
       id,
       versionstamp: result.versionstamp,
       value: result.value,
@@ -436,6 +458,72 @@ export class KvDex<const T extends Schema<SchemaDefinition>> {
     // Return the cron job id
     return id
   }
+
+  /**
+   * Watch all documents in the database for changes.
+   *
+   * Returns a stream of change events of type `insert`, `update` or `delete`,
+   * containing the old and new documents and the key of the collection in the database schema.
+   * Every collection is watched by polling the keys and versionstamps of its documents
+   * on every interval, reading only changed documents.
+   *
+   * Cancel the stream or abort the given signal to stop watching.
+   *
+   * @example
+   * ```ts
+   * for await (const event of db.watch({ interval: 5_000 })) {
+   *   console.log(event.collection, event.type, event.id)
+   * }
+   * ```
+   *
+   * @param options - Watch options, optional.
+   * @returns A stream of change events.
+   */
+  watch(options?: WatchOptions) {
+    // Create readers of the change streams of every collection
+    const collections = _getCollections(this.schema)
+    const readers = collections.map((collection) =>
+      collection.watch(undefined, options).getReader()
+    )
+
+    let cancelled = false
+
+    return new ReadableStream<SchemaWatchEvent>({
+      start(stream) {
+        // Enqueue change events of every collection, including the collection key
+        const run = Promise.all(readers.map(async (reader, i) => {
+          const collection = collections[i]._keys.baseKey.slice(1) as KvKey
+
+          while (true) {
+            const { done, value } = await reader.read()
+            if (done) {
+              return
+            }
+
+            stream.enqueue({ ...value, collection })
+          }
+        }))
+
+        // Close the stream when every collection stream is closed, unless cancelled
+        run
+          .then(() => {
+            if (!cancelled) {
+              stream.close()
+            }
+          })
+          .catch((e) => {
+            readers.forEach((reader) => reader.cancel())
+            if (!cancelled) {
+              stream.error(e)
+            }
+          })
+      },
+      async cancel() {
+        cancelled = true
+        await allFulfilled(readers.map((reader) => reader.cancel()))
+      },
+    })
+  }
 }
 
 /*************************/
@@ -449,6 +537,7 @@ export class KvDex<const T extends Schema<SchemaDefinition>> {
  *
  * @param def - Schema definition.
  * @param kv - Deno KV instance.
+ * @param builds - Map of built collections by builder function.
  * @param treeKey - The current tree key.
  * @returns
  */
@@ -457,6 +546,7 @@ function _createSchema<const T extends SchemaDefinition>(
   kv: Deno.Kv,
   queueHandlers: Map<string, QueueMessageHandler<QueueValue>[]>,
   idempotentListener: () => void,
+  builds: Map<unknown, Collection<KvValue, CollectionOptions<KvValue>>>,
   treeKey?: KvKey,
 ): Schema<T> {
   // Get all the definition entries
@@ -469,13 +559,27 @@ function _createSchema<const T extends SchemaDefinition>(
 
     // If the entry value is a function => build collection and create collection entry
     if (typeof value === "function") {
-      return [key, value(kv, extendedKey, queueHandlers, idempotentListener)]
+      const collection = value(
+        kv,
+        extendedKey,
+        queueHandlers,
+        idempotentListener,
+      )
+      builds.set(value, collection)
+      return [key, collection]
     }
 
     // Create and return schema entry
     return [
       key,
-      _createSchema(value, kv, queueHandlers, idempotentListener, extendedKey),
+      _createSchema(
+        value,
+        kv,
+        queueHandlers,
+        idempotentListener,
+        builds,
+        extendedKey,
+      ),
     ]
   })
 
@@ -486,6 +590,64 @@ function _createSchema<const T extends SchemaDefinition>(
   return schema as Schema<T>
 }
 
+/**
+ * Link every derived collection to its source collection in the same schema.
+ *
+ * @param builds - Map of built collections by builder function.
+ */
+function _linkDerivedCollections(
+  builds: Map<unknown, Collection<KvValue, CollectionOptions<KvValue>>>,
+) {
+  for (const view of builds.values()) {
+    // Skip collections that are not derived
+    if (!(view instanceof DerivedCollection)) {
+      continue
+    }
+
+    // Get the source collection, must be a standard or indexable collection in the schema
+    const source = builds.get(view._sourceBuilder)
+    if (!source) {
+      throw new InvalidDerivedCollectionError(
+        "Source collection of derived collection is not part of the schema",
+      )
+    }
+
+    if (
+      source instanceof LargeCollection || source instanceof DerivedCollection
+    ) {
+      throw new InvalidDerivedCollectionError(
+        "Derived collections are not supported for LargeCollection or DerivedCollection sources",
+      )
+    }
+
+    // Add the derived collection to the source collection
+    source._views.push(view as DerivedCollection<KvValue, KvValue>)
+    view._source = source
+  }
+}
+
+/**
+ * Get all collections of a schema.
+ *
+ * @param schemaOrCollection - Schema or Collection object.
+ * @returns List of collections.
+ */
+function _getCollections(
+  schemaOrCollection:
+    | Schema<SchemaDefinition>
+    | Collection<KvValue, CollectionOptions<KvValue>>,
+): Collection<KvValue, CollectionOptions<KvValue>>[] {
+  // If input is a collection, return the collection
+  if (schemaOrCollection instanceof Collection) {
+    return [schemaOrCollection]
+  }
+
+  // Recursively get the schema collections
+  return Object.values(schemaOrCollection).flatMap((val) =>
+    _getCollections(val)
+  )
+}
+
 /**
  * Count all documents in the KV store.
  *
@@ -530,6 +692,12 @@ async function _deleteAll(
     | Collection<KvValue, CollectionOptions<KvValue>>,
   options?: DeleteAllOptions,
 ) {
+  // If input is a derived collection, delete all derived documents
+  if (schemaOrCollection instanceof DerivedCollection) {
+    await schemaOrCollection._deleteAll()
+    return
+  }
+
   // If input is a collection, delete all documents in the collection
   if (schemaOrCollection instanceof Collection) {
     await schemaOrCollection.deleteMany(options)
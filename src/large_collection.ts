@@ -1,5 +1,7 @@
 import { Collection } from "./collection.ts"
 import {
+  COUNTER_KEY_PREFIX,
+  DEFAULT_CONFLICT_RETRY,
   ID_KEY_PREFIX,
   KVDEX_KEY_PREFIX,
   LARGE_COLLECTION_STRING_LIMIT,
@@ -7,6 +9,8 @@ import {
 } from "./constants.ts"
 import type {
   CommitResult,
+  DeleteOptions,
+  DocumentIterator,
   FindManyOptions,
   FindOptions,
   KvId,
@@ -17,16 +21,22 @@ import type {
   LargeKvValue,
   ListOptions,
   Model,
+  QueryPlan,
   QueueMessageHandler,
   QueueValue,
   SetOptions,
 } from "./types.ts"
 import {
+  addCount,
   allFulfilled,
-  createListSelector,
+  createDocumentIterator,
   extendKey,
+  generateId,
   getDocumentId,
+  handleDocuments,
   kvGetMany,
+  parseDeleteArgs,
+  stampVersion,
   useAtomics,
 } from "./utils.ts"
 import { Document } from "./document.ts"
@@ -46,8 +56,11 @@ import { CorruptedDocumentDataError } from "./errors.ts"
  * @param options - Large collection options.
  * @returns A large collection builder function.
  */
-export function largeCollection<const T1 extends LargeKvValue>(
-  model: Model<T1>,
+export function largeCollection<
+  const T1 extends LargeKvValue,
+  const TInput = T1,
+>(
+  model: Model<T1, TInput>,
   options?: LargeCollectionOptions<T1>,
 ) {
   return (
@@ -56,7 +69,7 @@ export function largeCollection<const T1 extends LargeKvValue>(
     queueHandlers: Map<string, QueueMessageHandler<QueueValue>[]>,
     idempotentListener: () => void,
   ) =>
-    new LargeCollection<T1, LargeCollectionOptions<T1>>(
+    new LargeCollection<T1, LargeCollectionOptions<T1>, TInput>(
       kv,
       key,
       model,
@@ -69,13 +82,14 @@ export function largeCollection<const T1 extends LargeKvValue>(
 export class LargeCollection<
   const T1 extends LargeKvValue,
   T2 extends LargeCollectionOptions<T1>,
-> extends Collection<T1, T2> {
+  const TInput = T1,
+> extends Collection<T1, T2, TInput> {
   readonly _keys: LargeCollectionKeys
 
   constructor(
     kv: Deno.Kv,
     key: KvKey,
-    model: Model<T1>,
+    model: Model<T1, TInput>,
     queueHandlers: Map<string, QueueMessageHandler<QueueValue>[]>,
     idempotentListener: () => void,
     options?: T2,
@@ -91,6 +105,11 @@ export class LargeCollection<
         ...key,
         ID_KEY_PREFIX,
       ),
+      counterKey: extendKey(
+        [KVDEX_KEY_PREFIX],
+        ...key,
+        COUNTER_KEY_PREFIX,
+      ),
       segmentKey: extendKey(
         [KVDEX_KEY_PREFIX],
         ...key,
@@ -161,18 +180,81 @@ export class LargeCollection<
     return result
   }
 
-  async delete(...ids: KvId[]): Promise<void> {
+  async delete(...ids: KvId[]): Promise<void>
+  async delete(
+    id: KvId,
+    options: DeleteOptions,
+  ): Promise<Deno.KvCommitResult | Deno.KvCommitError>
+  async delete(
+    ...args: (KvId | DeleteOptions)[]
+  ): Promise<Deno.KvCommitResult | Deno.KvCommitError | void> {
+    // Get document ids and delete options
+    const { ids, options } = parseDeleteArgs(args)
+
+    // If delete options are given, perform checked delete of single document
+    if (options) {
+      // Create document id key, get document entry
+      const id = ids[0]
+      const idKey = extendKey(this._keys.idKey, id)
+      const { value, versionstamp } = await this.kv.get<LargeDocumentEntry>(
+        idKey,
+      )
+
+      // Delete document entry at expected or current versionstamp
+      const atomic = this.kv
+        .atomic()
+        .check({
+          key: idKey,
+          versionstamp: typeof options.ifVersionstamp === "undefined"
+            ? versionstamp
+            : options.ifVersionstamp,
+        })
+        .delete(idKey)
+
+      // Decrement counters if document exists
+      if (value) {
+        addCount(-1, atomic, this)
+      }
+
+      const cr = await atomic.commit()
+
+      // Delete document parts if document entry was deleted
+      if (cr.ok && value) {
+        await useAtomics(this.kv, value.ids, (segId, atomic) => {
+          const key = extendKey(this._keys.segmentKey, id, segId)
+          return atomic.delete(key)
+        })
+      }
+
+      // Return commit result
+      return cr
+    }
+
     // Perform delete for each id
     await allFulfilled(ids.map(async (id) => {
       // Create document id key, get documetn value
       const idKey = extendKey(this._keys.idKey, id)
-      const { value } = await this.kv.get<LargeDocumentEntry>(idKey)
+      const { value, versionstamp } = await this.kv.get<LargeDocumentEntry>(
+        idKey,
+      )
 
       // If no value, abort delete
       if (!value) {
         return
       }
 
+      // If counters are maintained, delete the unchanged document and decrement counters
+      if (this._counterShards) {
+        const cr = await this.delete(id, { ifVersionstamp: versionstamp })
+
+        // Retry delete if the document was concurrently modified
+        if (!cr.ok) {
+          await this.delete(id)
+        }
+
+        return
+      }
+
       // Delete document entry
       await this.kv.delete(idKey)
 
@@ -186,22 +268,50 @@ export class LargeCollection<
 
   /* PROTECTED METHODS */
 
+  protected listDocuments(
+    selector: Deno.KvListSelector,
+    options: ListOptions<T1> | undefined,
+  ): DocumentIterator<T1> {
+    // Create list iterator with given selector and options
+    const iter = this.kv.list<LargeDocumentEntry>(selector, options)
+
+    // Create document iterator constructing a document from each entry
+    return createDocumentIterator(
+      iter,
+      async ({ key, value, versionstamp }) => {
+        // Get document id, skip entry if undefined
+        const id = getDocumentId(key)
+        if (typeof id === "undefined") {
+          return null
+        }
+
+        // Construct document from segments
+        return await this.constructLargeDocument(id, value, versionstamp)
+      },
+      options?.filter,
+    )
+  }
+
   protected async handleMany<const T>(
-    prefixKey: KvKey,
+    selector: Deno.KvListSelector,
     fn: (doc: Document<T1>) => T,
     options: ListOptions<T1> | undefined,
+    plan: Pick<QueryPlan, "type" | "index"> = {
+      type: "scan",
+      index: undefined,
+    },
   ) {
-    // Create list iterator with given options
-    const selector = createListSelector(prefixKey, options)
+    // Create list iterator with given selector and options
     const iter = this.kv.list<LargeDocumentEntry[]>(selector, options)
 
-    // Initiate lists
+    // Initiate document list and scanned entries count
     const docs: Document<T1>[] = []
-    const result: Awaited<T>[] = []
-    const errors: unknown[] = []
+    let scanned = 0
 
     // Loop over each document entry
     for await (const { key } of iter) {
+      scanned++
+
       // Get document id, continue to next entry if undefined
       const id = getDocumentId(key)
       if (typeof id === "undefined") {
@@ -222,20 +332,17 @@ export class LargeCollection<
       }
     }
 
-    // Execute callback function for each document
-    await allFulfilled(docs.map(async (doc) => {
-      try {
-        const res = await fn(doc)
-        result.push(res)
-      } catch (e) {
-        errors.push(e)
-      }
-    }))
+    // Explain how documents were read
+    options?.explain?.({
+      ...plan,
+      key: undefined,
+      selector,
+      scanned,
+      returned: docs.length,
+    })
 
-    // Throw any caught errors
-    if (errors.length > 0) {
-      throw errors
-    }
+    // Execute callback function for each document with bounded concurrency
+    const result = await handleDocuments(docs, fn, options?.concurrency)
 
     // Return result and current iterator cursor
     return {
@@ -246,35 +353,30 @@ export class LargeCollection<
 
   protected async setDocument(
     id: KvId | null,
-    value: T1,
+    value: T1 | TInput,
     options: SetOptions | undefined,
     overwrite = false,
+    conflictRetry = DEFAULT_CONFLICT_RETRY,
   ): Promise<CommitResult<T1> | Deno.KvCommitError> {
-    // Create document id key and parse document value
-    const parsed = this._model.parse(value)
+    // Create document id key and parse versioned document value
+    const parsed = stampVersion(this._model.parse(value), this._migrations)
     const docId = id ?? this._idGenerator(parsed)
     const idKey = extendKey(this._keys.idKey, docId)
 
-    // Check if id already exists
-    const check = await this.kv
-      .atomic()
-      .check({
-        key: idKey,
-        versionstamp: null,
-      })
-      .commit()
-
-    // Check if document already exists
-    if (!check.ok) {
-      // If overwrite is false, return commit error
-      if (!overwrite) {
-        return {
-          ok: false,
-        }
-      }
+    // Get existing document entry
+    const ifVersionstamp = options?.ifVersionstamp
+    let current = await this.kv.get<LargeDocumentEntry>(idKey)
+
+    // Return commit error if the document exists without overwrite or is not at the expected versionstamp
+    const isConflict = () =>
+      typeof ifVersionstamp === "undefined"
+        ? !overwrite && current.versionstamp !== null
+        : current.versionstamp !== ifVersionstamp
 
-      // If overwrite is true, delete existing document entry
-      await this.delete(docId)
+    if (isConflict()) {
+      return {
+        ok: false,
+      }
     }
 
     // Stringify data and initialize json parts list
@@ -286,23 +388,26 @@ export class LargeCollection<
       jsonParts.push(json.substring(i, i + LARGE_COLLECTION_STRING_LIMIT))
     }
 
-    // Set start index, initiate commit result and keys lists
-    let index = 0
-    const keys: KvKey[] = []
+    // Write segments under fresh ids, leaving the existing segments intact
+    const writeId = generateId()
+    const segIds = jsonParts.map((_, index) => `${writeId}-${index}`)
+    const keys = segIds.map((segId) =>
+      extendKey(this._keys.segmentKey, docId, segId)
+    )
 
-    // Execute set operations for json parts, capture keys and commit results
+    // Execute set operations for json parts, capture commit results
+    let index = 0
     const crs = await useAtomics(this.kv, jsonParts, (str, atomic) => {
-      const key = extendKey(this._keys.segmentKey, docId, index)
-      keys.push(key)
-      index++
-
-      return atomic
-        .set(key, str, options)
+      return atomic.set(keys[index++], str, options)
     })
 
     // Determine whether setting json parts was successful
     const success = crs.length > 0 && crs.every((cr) => cr.ok)
-    const retry = options?.retry ?? 0
+
+    // Only retry unconditional sets
+    const retry = typeof ifVersionstamp === "undefined"
+      ? options?.retry ?? 0
+      : 0
 
     // If not successful, delete all json part entries
     if (!success) {
@@ -310,7 +415,7 @@ export class LargeCollection<
 
       // Retry operation if there are remaining attempts
       if (retry > 0) {
-        return await this.setDocument(docId, parsed, {
+        return await this.setDocument(docId, value, {
           ...options,
           retry: retry - 1,
         }, overwrite)
@@ -324,28 +429,45 @@ export class LargeCollection<
 
     // Create large document entry
     const entry: LargeDocumentEntry = {
-      ids: keys.map((key) => getDocumentId(key)!).filter((id) =>
-        typeof id !== "undefined"
-      ),
+      ids: segIds,
     }
 
-    // Set large document entry
-    const cr = await this.kv
-      .atomic()
-      .set(idKey, entry, options)
-      .commit()
+    // Swap the document entry, checked against the expected or read versionstamp
+    let cr: Deno.KvCommitResult | Deno.KvCommitError = { ok: false }
+
+    for (let attempt = 0; attempt <= conflictRetry; attempt++) {
+      const atomic = this.kv
+        .atomic()
+        .check({
+          key: idKey,
+          versionstamp: typeof ifVersionstamp === "undefined"
+            ? current.versionstamp
+            : ifVersionstamp,
+        })
+        .set(idKey, entry, options)
+
+      // If counters are maintained, count the new document
+      if (this._counterShards && current.versionstamp === null) {
+        addCount(1, atomic, this)
+      }
 
-    // If not successful, delete all json part entries
-    if (!cr.ok) {
-      await allFulfilled(keys.map((key) => this.kv.delete(key)))
+      cr = await atomic.commit()
 
-      // Retry operation if there are remaining attempts
-      if (retry > 0) {
-        return await this.setDocument(docId, parsed, {
-          ...options,
-          retry: retry - 1,
-        }, overwrite)
+      // Stop if committed or the expected versionstamp was checked
+      if (cr.ok || typeof ifVersionstamp !== "undefined") {
+        break
+      }
+
+      // Re-read the document entry of an unconditional set, stop on conflict
+      current = await this.kv.get<LargeDocumentEntry>(idKey)
+      if (isConflict()) {
+        break
       }
+    }
+
+    // If not successful, delete the new json part entries
+    if (!cr.ok) {
+      await allFulfilled(keys.map((key) => this.kv.delete(key)))
 
       // Return failed operation
       return {
@@ -353,6 +475,14 @@ export class LargeCollection<
       }
     }
 
+    // Delete the replaced json part entries
+    if (current.value) {
+      await useAtomics(this.kv, current.value.ids, (segId, atomic) => {
+        const key = extendKey(this._keys.segmentKey, docId, segId)
+        return atomic.delete(key)
+      })
+    }
+
     // Return commit result
     return {
       ok: true,
@@ -361,11 +491,47 @@ export class LargeCollection<
     }
   }
 
+  protected async migrateDocument(
+    id: KvId,
+    options: FindOptions | undefined,
+  ): Promise<CommitResult<T1> | Deno.KvCommitError | null> {
+    // Get large document entry
+    const idKey = extendKey(this._keys.idKey, id)
+    const { value, versionstamp } = await this.kv.get<LargeDocumentEntry>(
+      idKey,
+      options,
+    )
+
+    // If no value, return null
+    if (value === null || versionstamp === null) {
+      return null
+    }
+
+    // Write migrated document value
+    return await this.writeMigratedValue(
+      id,
+      await this.readLargeDocumentValue(id, value),
+      versionstamp,
+    )
+  }
+
   private async constructLargeDocument(
     id: KvId,
     value: LargeDocumentEntry,
     versionstamp: Document<T1>["versionstamp"],
   ): Promise<Document<T1>> {
+    // Read document value and return constructed document
+    return await this.constructDocument({
+      id,
+      value: await this.readLargeDocumentValue(id, value) as T1,
+      versionstamp,
+    })
+  }
+
+  private async readLargeDocumentValue(
+    id: KvId,
+    value: LargeDocumentEntry,
+  ): Promise<unknown> {
     // Get document segment entries
     const { ids } = value
     const keys = ids.map((segId) => extendKey(this._keys.segmentKey, id, segId))
@@ -388,12 +554,8 @@ export class LargeCollection<
     const json = jsonParts.join("")
 
     try {
-      // Create and return document
-      return new Document<T1>(this._model, {
-        id,
-        value: JSON.parse(json),
-        versionstamp,
-      })
+      // Parse and return document value
+      return JSON.parse(json)
     } catch (_e) {
       // Throw if JSON.parse fails
       throw new CorruptedDocumentDataError(
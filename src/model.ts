@@ -1,4 +1,13 @@
-import type { KvValue, Model } from "./types.ts"
+import { ValidationError } from "./errors.ts"
+import type {
+  KvValue,
+  Model,
+  ModelSchema,
+  StandardSchema,
+  StandardSchemaIssue,
+  ValidationIssue,
+  ZodLikeSchema,
+} from "./types.ts"
 
 /**
  * Create a standard model without data validation.
@@ -15,8 +24,161 @@ import type { KvValue, Model } from "./types.ts"
  *
  * @returns A standard model.
  */
-export function model<T extends KvValue>(): Model<T> {
+export function model<T extends KvValue>(): Model<T, T>
+
+/**
+ * Create a validated model from a schema implementing the Standard Schema interface,
+ * such as Valibot schemas or schemas of the built-in validator.
+ *
+ * Parsing invalid data throws a `ValidationError`.
+ *
+ * @example
+ * ```ts
+ * import { validator as v } from "https://deno.land/x/kvdex/mod.ts"
+ *
+ * const UserModel = model(v.object({
+ *   username: v.string(),
+ *   age: v.number(),
+ * }))
+ * ```
+ *
+ * @param schema - Standard schema.
+ * @returns A validated model.
+ */
+export function model<TInput, TOutput extends KvValue>(
+  schema: StandardSchema<TInput, TOutput>,
+): Model<TOutput, TInput>
+
+/**
+ * Create a validated model from a Zod compatible schema.
+ *
+ * Parsing invalid data throws a `ValidationError`.
+ *
+ * @example
+ * ```ts
+ * import { z } from "https://deno.land/x/zod/mod.ts"
+ *
+ * const UserModel = model(z.object({
+ *   username: z.string(),
+ *   age: z.number().default(0),
+ * }))
+ * ```
+ *
+ * @param schema - Zod compatible schema.
+ * @returns A validated model.
+ */
+export function model<TInput, TOutput extends KvValue>(
+  schema: ZodLikeSchema<TInput, TOutput>,
+): Model<TOutput, TInput>
+
+export function model(schema?: ModelSchema): Model<unknown> {
+  // Return standard model if no schema is given
+  if (!schema) {
+    return {
+      parse: (value) => value,
+    }
+  }
+
+  // Validate using the Standard Schema interface if implemented
+  if (isStandardSchema(schema)) {
+    return {
+      parse: (value) => {
+        const result = schema["~standard"].validate(value)
+        if (result instanceof Promise) {
+          throw new ValidationError([{
+            path: [],
+            message: "Asynchronous validation is not supported",
+          }])
+        }
+
+        if (result.issues) {
+          throw new ValidationError(result.issues.map(toValidationIssue))
+        }
+
+        return result.value
+      },
+    }
+  }
+
+  // Validate using the Zod compatible interface
+  return {
+    parse: (value) => {
+      const result = schema.safeParse(value)
+      if (!result.success) {
+        throw new ValidationError(
+          result.error.issues.map(({ path, message }) => ({ path, message })),
+        )
+      }
+
+      return result.data
+    },
+  }
+}
+
+/**
+ * Convert a model or schema to a model that throws a `ValidationError` on invalid data.
+ *
+ * Schemas passed directly as models, such as Zod schemas, are wrapped by a validated model.
+ * Other models are returned as is.
+ *
+ * @param value - Model or schema.
+ * @returns A model.
+ */
+export function toValidatedModel<T>(value: Model<T>): Model<T> {
+  if (isStandardSchema(value)) {
+    return model(value as StandardSchema<unknown, KvValue>) as Model<T>
+  }
+
+  if (isZodLikeSchema(value)) {
+    return model(value as ZodLikeSchema<unknown, KvValue>) as Model<T>
+  }
+
+  return value
+}
+
+/**
+ * Check if a value implements the Standard Schema interface.
+ *
+ * @param value - Value to be checked.
+ * @returns true if the value is a standard schema, false if not.
+ */
+function isStandardSchema(value: unknown): value is StandardSchema {
+  return (
+    (typeof value === "object" || typeof value === "function") &&
+    value !== null &&
+    "~standard" in value
+  )
+}
+
+/**
+ * Check if a value implements the Zod compatible `safeParse()` method.
+ *
+ * @param value - Value to be checked.
+ * @returns true if the value is a Zod compatible schema, false if not.
+ */
+function isZodLikeSchema(value: unknown): value is ZodLikeSchema {
+  return (
+    (typeof value === "object" || typeof value === "function") &&
+    value !== null &&
+    "safeParse" in value &&
+    typeof value.safeParse === "function"
+  )
+}
+
+/**
+ * Convert a Standard Schema issue to a validation issue.
+ *
+ * @param issue - Standard Schema issue.
+ * @returns A validation issue.
+ */
+function toValidationIssue(issue: StandardSchemaIssue): ValidationIssue {
+  const path = (issue.path ?? []).map((segment) => {
+    const key = typeof segment === "object" ? segment.key : segment
+    return typeof key === "number" ? key : String(key)
+  })
+
   return {
-    parse: (value) => value as T,
+    path,
+    message: issue.message,
   }
 }
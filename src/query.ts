@@ -0,0 +1,224 @@
+import type {
+  Explanation,
+  KvValue,
+  QueryCondition,
+  QueryConditionField,
+  QueryConditionValue,
+  QueryDefinition,
+  QueryField,
+  QueryOperator,
+  QueryOrder,
+  QueryOrderDirection,
+  QueryResult,
+} from "./types.ts"
+import { InvalidQueryError } from "./errors.ts"
+
+/**
+ * Builder for declarative queries on the documents of a collection.
+ *
+ * Queries are executed using the best matching primary or secondary index,
+ * falling back to scanning and filtering all documents.
+ *
+ * @example
+ * ```ts
+ * const { result, cursor } = await db.users
+ *   .query()
+ *   .where("age", ">=", 18)
+ *   .where("role", "==", "admin")
+ *   .orderBy("age")
+ *   .limit(50)
+ *   .get()
+ * ```
+ */
+export class Query<const T extends KvValue> {
+  private execute: (definition: QueryDefinition) => Promise<QueryResult<T>>
+  private conditions: QueryCondition[]
+  private order: QueryOrder | undefined
+  private max: number | undefined
+  private start: string | undefined
+  private consistencyLevel: Deno.KvConsistencyLevel | undefined
+
+  constructor(
+    execute: (definition: QueryDefinition) => Promise<QueryResult<T>>,
+  ) {
+    this.execute = execute
+    this.conditions = []
+    this.order = undefined
+    this.max = undefined
+    this.start = undefined
+    this.consistencyLevel = undefined
+  }
+
+  /**
+   * Only include documents where a field matches a list of values.
+   *
+   * @example
+   * ```ts
+   * db.users.query().where("role", "in", ["admin", "owner"])
+   * ```
+   *
+   * @param field - Field to compare, given as a dot separated key path.
+   * @param operator - Comparison operator.
+   * @param values - List of values.
+   * @returns Current Query instance.
+   */
+  where<const K extends QueryConditionField<T>>(
+    field: K,
+    operator: "in",
+    values: QueryConditionValue<T, K>[],
+  ): this
+
+  /**
+   * Only include documents where a field matches a comparison.
+   *
+   * Range operators only match values of the same type as the compared value.
+   * Array fields compared to a single value match if any element matches,
+   * or for the "!=" operator if no element is equal to the value.
+   *
+   * @example
+   * ```ts
+   * db.users.query().where("age", ">=", 18)
+   * ```
+   *
+   * @param field - Field to compare, given as a dot separated key path.
+   * @param operator - Comparison operator.
+   * @param value - Compared value.
+   * @returns Current Query instance.
+   */
+  where<const K extends QueryConditionField<T>>(
+    field: K,
+    operator: Exclude<QueryOperator, "in">,
+    value: QueryConditionValue<T, K>,
+  ): this
+
+  where(field: string, operator: QueryOperator, value: unknown) {
+    // Check that the "in" operator is given a list of values
+    if (operator === "in" && !Array.isArray(value)) {
+      throw new InvalidQueryError(
+        `Expected list of values for "in" operator on field "${field}"`,
+      )
+    }
+
+    // Add condition
+    this.conditions.push({ field, operator, value })
+    return this
+  }
+
+  /**
+   * Order documents by a field.
+   *
+   * Only documents where the field is defined are included.
+   * Documents with equal field values are ordered by id.
+   *
+   * @example
+   * ```ts
+   * db.users.query().orderBy("age", "desc")
+   * ```
+   *
+   * @param field - Field to order by, given as a dot separated key path.
+   * @param direction - Order direction, "asc" by default.
+   * @returns Current Query instance.
+   */
+  orderBy(
+    field: QueryField<T>,
+    direction: QueryOrderDirection = "asc",
+  ) {
+    this.order = { field, direction }
+    return this
+  }
+
+  /**
+   * Limit the number of returned documents.
+   *
+   * @param limit - Maximum number of documents.
+   * @returns Current Query instance.
+   */
+  limit(limit: number) {
+    // Check that limit is a positive integer
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new InvalidQueryError(`Invalid query limit: ${limit}`)
+    }
+
+    this.max = limit
+    return this
+  }
+
+  /**
+   * Resume a previous query from its returned cursor.
+   *
+   * @example
+   * ```ts
+   * const query = db.users.query().where("age", ">=", 18).limit(50)
+   *
+   * const page1 = await query.get()
+   * const page2 = await query.cursor(page1.cursor).get()
+   * ```
+   *
+   * @param cursor - Query cursor, or undefined to start from the beginning.
+   * @returns Current Query instance.
+   */
+  cursor(cursor: string | undefined) {
+    this.start = cursor
+    return this
+  }
+
+  /**
+   * Set the read consistency of the query.
+   *
+   * @param consistency - Consistency level, "strong" by default.
+   * @returns Current Query instance.
+   */
+  consistency(consistency: Deno.KvConsistencyLevel) {
+    this.consistencyLevel = consistency
+    return this
+  }
+
+  /**
+   * Execute the query.
+   *
+   * @returns Promise resolving to an object containing the found documents and a cursor for the next page.
+   */
+  async get() {
+    return await this.execute(this.createDefinition(undefined))
+  }
+
+  /**
+   * Execute the query and explain how it was executed,
+   * including the chosen index, the list selector and the number of scanned and returned documents.
+   *
+   * @example
+   * ```ts
+   * const { type, index, scanned, returned } = await db.users
+   *   .query()
+   *   .where("age", ">=", 18)
+   *   .explain()
+   * ```
+   *
+   * @returns Promise resolving to the query explanation.
+   */
+  async explain() {
+    // Execute query, capturing the explanation
+    const explanations: Explanation[] = []
+    await this.execute(this.createDefinition((e) => explanations.push(e)))
+    return explanations[0]
+  }
+
+  /**
+   * Create the query definition from the current query state.
+   *
+   * @param explain - Explain callback function or undefined.
+   * @returns The query definition.
+   */
+  private createDefinition(
+    explain: QueryDefinition["explain"],
+  ): QueryDefinition {
+    return {
+      conditions: [...this.conditions],
+      order: this.order,
+      limit: this.max,
+      cursor: this.start,
+      consistency: this.consistencyLevel,
+      explain,
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import type { Collection } from "./collection.ts"
+import type { DerivedCollection } from "./derived_collection.ts"
 import type { LargeCollection } from "./large_collection.ts"
 import type { Document } from "./document.ts"
 
@@ -10,12 +11,36 @@ export type CollectionBuilderFn = (
   idempotentListener: () => void,
 ) => Collection<KvValue, CollectionOptions<KvValue>>
 
+export type Flatten<T> = {
+  [K in keyof T]: T[K]
+}
+
 export type CheckKeyOf<K, T> = K extends keyof T ? T[K] : never
 
 export type KeysOfThatExtend<T1, T2> = keyof {
   [K in keyof T1 as T1[K] extends T2 ? K : never]: unknown
 }
 
+export type KeyPathsOfThatExtend<T1, T2, TDepth extends number = 5> = [
+  TDepth,
+] extends [never] ? never
+  : {
+    [K in keyof T1 & string]-?: T1[K] extends T2 ? K
+      : NonNullable<T1[K]> extends KvObject ? `${K}.${KeyPathsOfThatExtend<
+          NonNullable<T1[K]>,
+          T2,
+          PrevDepth[TDepth]
+        >}`
+      : never
+  }[keyof T1 & string]
+
+export type KeyPathValue<T, P> = P extends keyof T ? T[P]
+  : P extends `${infer K}.${infer Rest}`
+    ? K extends keyof T ? KeyPathValue<NonNullable<T[K]>, Rest> : never
+  : never
+
+type PrevDepth = [never, 0, 1, 2, 3, 4]
+
 export type KeysOfThatDontExtend<T1, T2> = keyof {
   [K in keyof T1 as T1[K] extends T2 ? never : K]: unknown
 }
@@ -26,8 +51,15 @@ export type CommitResult<T1 extends KvValue> = {
   id: KvId
 }
 
+export type UpsertResult<T1 extends KvValue> = CommitResult<T1> & {
+  /** Indicates whether a new document was inserted, false if an existing document was updated. */
+  inserted: boolean
+}
+
 export type IdGenerator<T extends KvValue> = (data: T) => KvId
 
+export type Migration = (value: KvObject) => KvObject
+
 // Cron types
 export type CronOptions = {
   /**
@@ -85,7 +117,10 @@ export type CronMessage = {
 export type CollectionSelector<
   T1 extends Schema<SchemaDefinition>,
   T2 extends KvValue,
-> = (schema: AtomicSchema<T1>) => Collection<T2, CollectionOptions<T2>>
+  TInput = T2,
+> = (
+  schema: AtomicSchema<T1>,
+) => Collection<T2, CollectionOptions<T2>, TInput>
 
 export type AtomicSchema<T extends Schema<SchemaDefinition>> = {
   [
@@ -103,9 +138,13 @@ export type PreparedIndexDelete = {
   data: KvObject
 }
 
+export type PrepareUpdateFn = (kv: Deno.Kv) => Promise<boolean>
+
 export type Operations = {
   atomic: Deno.AtomicOperation
   prepareDeleteFns: PrepareDeleteFn[]
+  prepareUpdateFns: PrepareUpdateFn[]
+  viewChanges: ViewChange[]
   indexDeleteCollectionKeys: KvKey[]
   indexAddCollectionKeys: KvKey[]
 }
@@ -115,14 +154,14 @@ export type AtomicCheck<T extends KvValue> = {
   versionstamp: Document<T>["versionstamp"]
 }
 
-export type AtomicMutation<T extends KvValue> =
+export type AtomicMutation<T extends KvValue, TInput = T> =
   & {
     id: KvId
   }
   & (
     | {
       type: "set"
-      value: T
+      value: TInput
       expireIn?: number
     }
     | {
@@ -152,22 +191,213 @@ export type CollectionOptions<T extends KvValue> = {
    * Set a custom function for automatic id generation.
    */
   idGenerator?: IdGenerator<T>
+
+  /**
+   * Ordered list of schema migrations.
+   *
+   * The migration at index `i` migrates document values from schema version `i` to version `i + 1`,
+   * making the current schema version equal to the number of migrations.
+   * Values written without a recorded schema version are at version 0.
+   *
+   * Only document values of KvObject type are versioned and migrated.
+   */
+  migrations?: Migration[]
+
+  /**
+   * Write lazily migrated document values back to the KV store when read.
+   *
+   * @default false
+   */
+  writeBackMigrations?: boolean
+
+  /**
+   * Maintain materialized document counters for O(1) counts.
+   *
+   * Counters are updated in the same atomic operation as documents are added and deleted,
+   * and are spread over a number of shards to avoid contention on a single key.
+   * Indexable collections also count documents per secondary index value.
+   *
+   * @default false
+   */
+  counter?: boolean | CounterOptions
+
+  /**
+   * Record every document write in the durable change log of the database.
+   *
+   * Change log entries are written in the same atomic operation as documents are set and deleted,
+   * and can be read in versionstamp order using `db.changes.since()`.
+   * Not supported by large collections, whose writes are not recorded.
+   *
+   * @default false
+   */
+  changelog?: boolean
+
+  /**
+   * Secret key used to sign page tokens.
+   *
+   * Page tokens are only accepted by collections using the same secret.
+   * If not set, a random secret is generated once per process,
+   * and page tokens are not accepted by other processes or after a restart.
+   * Set an explicit secret when page tokens are handed out to clients.
+   */
+  pageTokenSecret?: string | Uint8Array
 }
 
 export type CollectionKeys = {
   baseKey: KvKey
   idKey: KvKey
+  counterKey: KvKey
+}
+
+export type CounterOptions = {
+  /**
+   * Number of counter shards, each counter is incremented at a random shard.
+   *
+   * @default 4
+   */
+  shards?: number
+}
+
+export type Model<TOutput, TInput = unknown> = {
+  parse: (data: unknown) => TOutput
+
+  /**
+   * Type-only marker of the accepted input type.
+   *
+   * Never set at runtime.
+   */
+  readonly _input?: TInput
+}
+
+export type ModelInput<TModel> = TModel extends Model<unknown, infer TInput>
+  ? TInput
+  : never
+
+export type ModelOutput<TModel> = TModel extends Model<infer TOutput, unknown>
+  ? TOutput
+  : never
+
+export type ValidationPath = (string | number)[]
+
+export type ValidationIssue = {
+  /** Path to the failing value, empty if the root value failed. */
+  path: ValidationPath
+
+  /** Description of the failure. */
+  message: string
 }
 
-export type Model<T> = {
-  parse: (data: unknown) => T
+/**
+ * Schema implementing the Standard Schema interface (v1),
+ * as implemented by Valibot, ArkType, newer Zod versions and the built-in validator.
+ */
+export type StandardSchema<TInput = unknown, TOutput = TInput> = {
+  readonly "~standard": {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaResult<TOutput> | Promise<StandardSchemaResult<TOutput>>
+    readonly types?: {
+      readonly input: TInput
+      readonly output: TOutput
+    }
+  }
+}
+
+export type StandardSchemaResult<T> =
+  | {
+    readonly value: T
+    readonly issues?: undefined
+  }
+  | {
+    readonly issues: ReadonlyArray<StandardSchemaIssue>
+  }
+
+export type StandardSchemaIssue = {
+  readonly message: string
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+}
+
+/** Schema exposing a Zod compatible `safeParse()` method. */
+export type ZodLikeSchema<TInput = unknown, TOutput = TInput> = {
+  readonly _input: TInput
+  readonly _output: TOutput
+  safeParse: (data: unknown) =>
+    | {
+      success: true
+      data: TOutput
+    }
+    | {
+      success: false
+      error: {
+        issues: {
+          path: (string | number)[]
+          message: string
+        }[]
+      }
+    }
+}
+
+export type ModelSchema<TInput = unknown, TOutput = TInput> =
+  | StandardSchema<TInput, TOutput>
+  | ZodLikeSchema<TInput, TOutput>
+
+/** Built-in lightweight validator, implementing the Standard Schema interface. */
+export type Validator<T> = StandardSchema<T, T> & {
+  /**
+   * Check a value and collect all validation issues.
+   *
+   * @param value - Value to be checked.
+   * @param path - Path of the value relative to the root value.
+   * @returns A list of validation issues, empty if the value is valid.
+   */
+  readonly check: (value: unknown, path: ValidationPath) => ValidationIssue[]
 }
 
+export type ValidatorOutput<TValidator> = TValidator extends Validator<infer T>
+  ? T
+  : never
+
+export type ValidatorShape = Record<string, Validator<unknown>>
+
+export type ObjectValidatorOutput<TShape extends ValidatorShape> = Flatten<
+  & {
+    [
+      K in keyof TShape as undefined extends ValidatorOutput<TShape[K]> ? never
+        : K
+    ]: ValidatorOutput<TShape[K]>
+  }
+  & {
+    [
+      K in keyof TShape as undefined extends ValidatorOutput<TShape[K]> ? K
+        : never
+    ]?: ValidatorOutput<TShape[K]>
+  }
+>
+
 // Indexable Collection Types
 export type IndexableCollectionOptions<T extends KvObject> =
   & CollectionOptions<T>
   & {
     indices: IndexRecord<T>
+
+    /**
+     * Compound indices spanning multiple fields.
+     *
+     * Index entries are only created for documents where all fields are defined.
+     */
+    compoundIndices?: readonly CompoundIndexDefinition<T>[]
+
+    /**
+     * Storage mode of secondary index entries.
+     *
+     * "data" stores a copy of the document value in every secondary index entry.
+     * "id" only stores the document id, and documents are resolved by id when found by secondary index.
+     *
+     * @default "data"
+     */
+    secondaryIndexStorage?: SecondaryIndexStorage
   }
 
 export type IndexableCollectionKeys = CollectionKeys & {
@@ -177,8 +407,21 @@ export type IndexableCollectionKeys = CollectionKeys & {
 
 export type IndexType = "primary" | "secondary"
 
-export type IndexRecord<T extends KvObject> = {
-  [key in KeysOfThatExtend<T, KvId>]?: IndexType
+export type SecondaryIndexStorage = "data" | "id"
+
+export type MultiIndexType = "multi"
+
+export type IndexRecord<T extends KvObject> =
+  & {
+    [key in KeyPathsOfThatExtend<T, KvId>]?: IndexType
+  }
+  & {
+    [key in KeyPathsOfThatExtend<T, KvId[]>]?: MultiIndexType
+  }
+
+export type CompoundIndexDefinition<T extends KvObject> = {
+  fields: readonly KeyPathsOfThatExtend<T, KvId>[]
+  type: IndexType
 }
 
 export type PrimaryIndexKeys<T1 extends KvObject, T2 extends IndexRecord<T1>> =
@@ -189,13 +432,165 @@ export type SecondaryIndexKeys<
   T2 extends IndexRecord<T1>,
 > = KeysOfThatExtend<T2, "secondary">
 
+export type MultiIndexKeys<
+  T1 extends KvObject,
+  T2 extends IndexRecord<T1>,
+> = KeysOfThatExtend<T2, "multi">
+
+export type CompoundPrimaryIndexKeys<
+  T1 extends KvObject,
+  T2 extends IndexableCollectionOptions<T1>,
+> = Extract<
+  NonNullable<T2["compoundIndices"]>[number],
+  { type: "primary" }
+>["fields"]
+
+export type CompoundSecondaryIndexKeys<
+  T1 extends KvObject,
+  T2 extends IndexableCollectionOptions<T1>,
+> = Extract<
+  NonNullable<T2["compoundIndices"]>[number],
+  { type: "secondary" }
+>["fields"]
+
+export type CompoundIndexValue<T, K extends readonly unknown[]> = {
+  [I in keyof K]: KeyPathValue<T, K[I]>
+}
+
+export type CompoundIndexPrefixValue<T, K extends readonly unknown[]> =
+  K extends readonly [...infer Rest, unknown]
+    ? CompoundIndexValue<T, K> | CompoundIndexPrefixValue<T, Rest>
+    : never
+
+export type PrimaryIndexValue<T, K> = K extends readonly unknown[]
+  ? CompoundIndexValue<T, K>
+  : KeyPathValue<T, K>
+
+export type SecondaryIndexValue<T, K> = K extends readonly unknown[]
+  ? CompoundIndexPrefixValue<T, K>
+  : IndexElementValue<T, K>
+
+export type IndexElementValue<T, K> = KeyPathValue<T, K> extends
+  readonly (infer E)[] ? E
+  : KeyPathValue<T, K>
+
+export type IndexRange<T> = {
+  /** Include index values greater than the given value. */
+  gt?: T
+
+  /** Include index values greater than or equal to the given value. */
+  gte?: T
+
+  /** Include index values less than the given value. */
+  lt?: T
+
+  /** Include index values less than or equal to the given value. */
+  lte?: T
+}
+
 export type IndexDataEntry<T extends KvObject> = Omit<T, "__id__"> & {
   __id__: KvId
 }
 
+export type IndexIdEntry = {
+  __id__: KvId
+}
+
+export type IndexCollision = {
+  /** Id of the document that could not be indexed. */
+  id: KvId
+
+  /** Name of the colliding primary index. */
+  index: string
+
+  /** The colliding primary index key. */
+  key: KvKey
+
+  /** Id of the document that already owns the primary index entry. */
+  conflictingId: KvId
+}
+
+export type ReindexResult = {
+  /**
+   * Indicates whether all index mutations were committed.
+   *
+   * If false, the same page of documents should be reindexed again.
+   */
+  ok: boolean
+
+  /** Cursor for resuming the reindexing, undefined when all documents are reindexed. */
+  cursor: string | undefined
+
+  /** Number of documents reindexed. */
+  reindexed: number
+
+  /** Number of deleted index entries belonging to dropped indices. */
+  deleted: number
+
+  /** Primary index collisions found in existing documents. */
+  collisions: IndexCollision[]
+}
+
+export type IndexIssueType = "orphaned" | "missing" | "mismatched"
+
+export type IndexIssue = {
+  /**
+   * Type of inconsistency.
+   *
+   * orphaned - Index entry that does not belong to any existing document.
+   *
+   * missing - Index entry of an existing document that does not exist.
+   *
+   * mismatched - Index entry whose value differs from the document entry.
+   */
+  type: IndexIssueType
+
+  /** Id of the document that the index entry refers to, if any. */
+  id: KvId | undefined
+
+  /** Name of the index. */
+  index: string
+
+  /** Key of the index entry. */
+  key: KvKey
+}
+
+export type VerifyIndicesOptions =
+  & Pick<Deno.KvListOptions, "batchSize" | "consistency">
+  & {
+    /**
+     * Repair found inconsistencies.
+     *
+     * Orphaned index entries are deleted,
+     * while missing and mismatched index entries are set from the document entry.
+     *
+     * @default false
+     */
+    repair?: boolean
+  }
+
+export type VerifyIndicesResult = {
+  /**
+   * Indicates whether the indices are consistent.
+   *
+   * True if no inconsistencies were found, or if all found inconsistencies were repaired.
+   */
+  ok: boolean
+
+  /** Found index inconsistencies. */
+  issues: IndexIssue[]
+
+  /** Number of repaired index inconsistencies. */
+  repaired: number
+
+  /** Primary index collisions between existing documents, which cannot be repaired. */
+  collisions: IndexCollision[]
+}
+
 // Large Collection Types
-export type LargeCollectionOptions<T extends LargeKvValue> = CollectionOptions<
-  T
+export type LargeCollectionOptions<T extends LargeKvValue> = Omit<
+  CollectionOptions<T>,
+  "changelog"
 >
 
 export type LargeCollectionKeys = CollectionKeys & {
@@ -206,9 +601,93 @@ export type LargeDocumentEntry = {
   ids: KvId[]
 }
 
+// Derived Collection Types
+export type DerivedCollectionOptions<
+  TView extends KvValue,
+  TSource extends KvValue,
+> = {
+  /**
+   * Get the id of the derived document a source document is reduced into.
+   *
+   * Source documents are not reduced into any derived document if null is returned.
+   * By default, each source document is projected into a derived document with the same id.
+   *
+   * @param value - Source document value.
+   * @param id - Source document id.
+   * @returns Id of the derived document, or null.
+   */
+  id?: (value: TSource, id: KvId) => KvId | null
+
+  /**
+   * Reduce a source document value into a derived document value.
+   *
+   * Invoked with "add" when a source document is added,
+   * and with "remove" when a source document is deleted.
+   * Updated source documents are first removed using their old value, then added using their new value.
+   *
+   * @param current - Current derived document value, null if no derived document exists.
+   * @param value - Source document value.
+   * @param op - Whether the source document value is added or removed.
+   * @returns The new derived document value, or null to delete the derived document.
+   */
+  reduce: (
+    current: TView | null,
+    value: TSource,
+    op: ViewOperation,
+  ) => TView | null
+}
+
+export type ViewOperation = "add" | "remove"
+
+export type ViewChange = {
+  /** Derived collections of the source collection. */
+  views: DerivedCollection<KvValue, KvValue>[]
+
+  /** Migrations of the source collection. */
+  migrations: Migration[]
+
+  /** Source document id. */
+  id: KvId
+
+  /** Stored value of the replaced or deleted source document, null if none. */
+  oldValue: unknown
+
+  /** Stored value of the new source document, null if deleted. */
+  newValue: unknown
+}
+
 // Method Option types
 export type SetOptions = NonNullable<Parameters<Deno.Kv["set"]>["2"]> & {
   retry?: number
+
+  /**
+   * Only perform the operation if the existing document entry is at the given versionstamp,
+   * or if no document exists when null.
+   *
+   * If the versionstamp does not match, the operation fails.
+   * When setting a document, the existing document is overwritten
+   * instead of requiring that no document exists.
+   */
+  ifVersionstamp?: string | null
+}
+
+export type DeleteOptions = {
+  /**
+   * Only delete the document if the existing document entry is at the given versionstamp.
+   *
+   * If the versionstamp does not match, the operation fails.
+   */
+  ifVersionstamp?: string
+}
+
+export type UpdateWithOptions = Omit<SetOptions, "ifVersionstamp" | "retry"> & {
+  /**
+   * Number of times the update function is re-run upon a failed write,
+   * such as when the document is concurrently modified.
+   *
+   * @default 10
+   */
+  retry?: number
 }
 
 export type ListOptions<T extends KvValue> = Deno.KvListOptions & {
@@ -220,20 +699,207 @@ export type ListOptions<T extends KvValue> = Deno.KvListOptions & {
    */
   filter?: (doc: Document<T>) => boolean
 
+  /**
+   * Maximum number of document callbacks executed concurrently.
+   *
+   * Set to 1 to execute callbacks sequentially, in list order.
+   *
+   * @default Infinity
+   */
+  concurrency?: number
+
+  /**
+   * Callback function invoked with an explanation of how documents were read,
+   * after all documents are listed.
+   *
+   * Not invoked by lazy document iterators.
+   *
+   * @param explanation - Read explanation.
+   */
+  explain?: (explanation: Explanation) => unknown
+
+  /**
+   * Order documents by a field instead of by id.
+   *
+   * Only documents where the field is defined are included.
+   * Applied by getMany(), forEach() and map().
+   */
+  orderBy?: ListOrder<T>
+
   startId?: KvId
 
   endId?: KvId
 }
 
+export type ListOrder<T extends KvValue> = {
+  /** Field to order by, given as a dot separated key path. */
+  field: QueryField<T>
+
+  /**
+   * Order direction.
+   *
+   * @default "asc"
+   */
+  direction?: QueryOrderDirection
+}
+
+export type OrderedDocument = {
+  /** Document id. */
+  id: KvId
+
+  /** Document value. */
+  value: KvValue
+}
+
+export type ReindexOptions = Pick<
+  Deno.KvListOptions,
+  "cursor" | "limit" | "batchSize" | "consistency"
+>
+
+export type MigrateOptions =
+  & Pick<Deno.KvListOptions, "cursor" | "limit" | "batchSize" | "consistency">
+  & {
+    /**
+     * Callback function invoked after each processed document.
+     *
+     * @param progress - Current migration progress.
+     */
+    onProgress?: (progress: MigrateProgress) => unknown
+  }
+
+export type MigrateProgress = {
+  /** Total number of documents in the collection. */
+  total: number
+
+  /** Number of processed documents. */
+  processed: number
+
+  /** Number of documents migrated to the current schema version. */
+  migrated: number
+
+  /** Number of documents that failed to be written due to concurrent modification. */
+  failed: number
+}
+
+export type MigrateResult = MigrateProgress & {
+  /**
+   * Indicates whether all outdated documents were migrated.
+   *
+   * If false, the migration should be run again.
+   */
+  ok: boolean
+
+  /** Cursor for resuming the migration, undefined when all documents are processed. */
+  cursor: string | undefined
+}
+
+export type DocumentCallbackFailure = {
+  /** Id of the document the callback failed for. */
+  id: KvId
+
+  /** Error thrown by the callback. */
+  error: unknown
+}
+
+export type DocumentIterator<T extends KvValue> =
+  & AsyncIterableIterator<Document<T>>
+  & {
+    /**
+     * Cursor of the last listed entry.
+     *
+     * Undefined before the first entry is listed, and when all entries have been listed.
+     *
+     * Can be passed as list option to resume listing after the last yielded document.
+     */
+    readonly cursor: string | undefined
+  }
+
+export type PaginateOptions<T extends KvValue> =
+  & Pick<ListOptions<T>, "filter" | "reverse" | "consistency">
+  & {
+    /**
+     * Number of documents per page.
+     *
+     * @default 20
+     */
+    pageSize?: number
+
+    /** Token of the page to get, the first page is returned if undefined. */
+    pageToken?: string
+  }
+
+export type PaginateResult<T extends KvValue> = {
+  /** Documents of the page, in list order. */
+  result: Document<T>[]
+
+  /** Token of the next page, undefined if this is the last page. */
+  nextPageToken: string | undefined
+
+  /** Token of the previous page, undefined if this is the first page. */
+  previousPageToken: string | undefined
+}
+
+export type PageTokenPayload = {
+  /** Cursor of the entry the page starts from. */
+  cursor: string
+
+  /** Number of documents per page. */
+  pageSize: number
+
+  /** Whether documents are listed in reverse order. */
+  reverse: boolean
+
+  /** Whether the page precedes the cursor, listing entries in the opposite direction. */
+  backward: boolean
+}
+
 export type CountOptions<T extends KvValue> =
   & CountAllOptions
-  & Pick<ListOptions<T>, "filter">
+  & Pick<ListOptions<T>, "filter" | "explain">
 
 export type FindOptions = NonNullable<Parameters<Deno.Kv["get"]>[1]>
 
 export type FindManyOptions = NonNullable<Parameters<Deno.Kv["getMany"]>[1]>
 
-export type UpdateManyOptions<T extends KvValue> = ListOptions<T> & SetOptions
+export type UpsertOptions<TStrategy extends UpdateStrategy = UpdateStrategy> =
+  & Omit<UpdateOptions<TStrategy>, "ifVersionstamp" | "retry">
+  & {
+    /**
+     * Number of times the upsert is re-attempted upon a failed write,
+     * such as when the document is concurrently inserted or modified.
+     *
+     * @default 10
+     */
+    retry?: number
+  }
+
+export type UpdateOptions<TStrategy extends UpdateStrategy = UpdateStrategy> =
+  & SetOptions
+  & {
+    /**
+     * Strategy used for applying update data to the existing document value.
+     *
+     * shallow - Merges top level object fields, other values are replaced.
+     *
+     * deep - Recursively merges objects and Maps, concatenates arrays and unites Sets.
+     *
+     * replace - Replaces the existing value.
+     *
+     * merge-patch - Applies a JSON Merge Patch (RFC 7396), where null values delete fields.
+     *
+     * json-patch - Applies a list of JSON Patch (RFC 6902) operations.
+     *
+     * @default "shallow"
+     */
+    strategy?: TStrategy
+  }
+
+export type UpdateManyOptions<
+  T extends KvValue,
+  TStrategy extends UpdateStrategy = UpdateStrategy,
+> =
+  & ListOptions<T>
+  & Omit<UpdateOptions<TStrategy>, "ifVersionstamp">
 
 export type CountAllOptions = Pick<Deno.KvListOptions, "consistency">
 
@@ -264,6 +930,316 @@ export type Schema<T extends SchemaDefinition> = {
     : never
 }
 
+// Query Types
+export type QueryOperator = "==" | "!=" | "<" | "<=" | ">" | ">=" | "in"
+
+export type QueryRangeOperator = Exclude<QueryOperator, "==" | "!=" | "in">
+
+export type QueryValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | Date
+  | Uint8Array
+  | null
+  | undefined
+
+// Query field types infer the document type to keep queries of specific document types assignable to queries of any KvValue
+export type QueryField<T> = [T] extends [infer U]
+  ? KeyPathsOfThatExtend<U, QueryValue>
+  : never
+
+export type QueryFieldValue<T, K> = [T] extends [infer U] ? KeyPathValue<U, K>
+  : never
+
+// Condition fields include array fields, which are compared by their elements or as a whole
+export type QueryConditionField<T> = [T] extends [infer U]
+  ? KeyPathsOfThatExtend<U, QueryValue | QueryValue[]>
+  : never
+
+export type QueryConditionValue<T, K> = QueryFieldValue<T, K> extends infer V
+  ? V extends (infer E)[] ? E | V : V
+  : never
+
+export type QueryCondition = {
+  /** Dot separated key path of the compared field. */
+  field: string
+
+  /** Comparison operator. */
+  operator: QueryOperator
+
+  /** Compared value, or list of values for the "in" operator. */
+  value: unknown
+}
+
+export type QueryOrder = {
+  /** Dot separated key path of the ordered field. */
+  field: string
+
+  /** Order direction. */
+  direction: QueryOrderDirection
+}
+
+export type QueryOrderDirection = "asc" | "desc"
+
+export type QueryDefinition = {
+  /** Conditions that every document must match. */
+  conditions: QueryCondition[]
+
+  /** Order of documents, in index or id order if undefined. */
+  order: QueryOrder | undefined
+
+  /** Maximum number of documents returned. */
+  limit: number | undefined
+
+  /** Cursor for resuming a previous query. */
+  cursor: string | undefined
+
+  /** Read consistency. */
+  consistency: Deno.KvConsistencyLevel | undefined
+
+  /** Callback function invoked with an explanation of how the query was executed. */
+  explain: ((explanation: Explanation) => unknown) | undefined
+}
+
+export type QueryPlan = {
+  /**
+   * Strategy used for finding documents.
+   *
+   * "primary" gets a single document by primary index,
+   * "secondary" lists documents by secondary index value,
+   * "range" lists documents by a range of secondary index values,
+   * "ordered" lists documents in the order of a secondary index,
+   * and "scan" lists all documents.
+   */
+  type: "primary" | "secondary" | "range" | "ordered" | "scan"
+
+  /** Name of the chosen index, undefined when scanning all documents. */
+  index: string | undefined
+
+  /** Key of the primary index entry, if getting a document by primary index. */
+  key: KvKey | undefined
+
+  /** List selector, if listing documents. */
+  selector: Deno.KvListSelector | undefined
+
+  /** Whether documents are listed in reverse order. */
+  reverse: boolean
+
+  /** Whether documents are sorted in memory after all matching documents are listed. */
+  sort: boolean
+}
+
+export type Explanation = {
+  /**
+   * Strategy used for finding documents, see QueryPlan.
+   *
+   * "counter" reads materialized document counters instead of listing documents.
+   */
+  type: QueryPlan["type"] | "counter"
+
+  /** Name of the chosen index, undefined when scanning all documents. */
+  index: string | undefined
+
+  /** Key of the read entry, if getting a single document by primary index. */
+  key: KvKey | undefined
+
+  /** List selector used for listing entries, if listing documents. */
+  selector: Deno.KvListSelector | undefined
+
+  /** Number of KV entries scanned. */
+  scanned: number
+
+  /** Number of documents returned after filtering. */
+  returned: number
+}
+
+export type QueryResult<T extends KvValue> = {
+  /** Found documents. */
+  result: Document<T>[]
+
+  /** Cursor for getting the next page of documents, undefined if all matching documents were returned. */
+  cursor: string | undefined
+}
+
+// Aggregate Types
+export type AggregateField<T> = [T] extends [infer U]
+  ? KeyPathsOfThatExtend<U, number | null | undefined>
+  : never
+
+export type AggregateOptions<T extends KvValue> =
+  & Omit<ListOptions<T>, "concurrency" | "orderBy" | "explain">
+  & {
+    /** Field to group documents by, given as a dot separated key path. */
+    groupBy?: QueryField<T>
+
+    /** Numeric field to sum, given as a dot separated key path. */
+    sum?: AggregateField<T>
+
+    /** Numeric field to average, given as a dot separated key path. */
+    avg?: AggregateField<T>
+
+    /** Field to get the minimum value of, given as a dot separated key path. */
+    min?: QueryField<T>
+
+    /** Field to get the maximum value of, given as a dot separated key path. */
+    max?: QueryField<T>
+  }
+
+export type AggregateValues<T extends KvValue, TOptions> =
+  & {
+    /** Number of aggregated documents. */
+    count: number
+  }
+  & (TOptions extends { sum: string } ? {
+      /** Sum of all numeric values of the summed field. */
+      sum: number
+    }
+    : unknown)
+  & (TOptions extends { avg: string } ? {
+      /** Average of all numeric values of the averaged field, undefined if there are none. */
+      avg: number | undefined
+    }
+    : unknown)
+  & (TOptions extends { min: infer K } ? {
+      /** Minimum defined value of the field, undefined if there are none. */
+      min: QueryFieldValue<T, K> | undefined
+    }
+    : unknown)
+  & (TOptions extends { max: infer K } ? {
+      /** Maximum defined value of the field, undefined if there are none. */
+      max: QueryFieldValue<T, K> | undefined
+    }
+    : unknown)
+
+export type AggregateState = {
+  /** Group value. */
+  group: unknown
+
+  /** Number of aggregated documents. */
+  count: number
+
+  /** Sum of summed values. */
+  sum: number
+
+  /** Sum of averaged values. */
+  avgSum: number
+
+  /** Number of averaged values. */
+  avgCount: number
+
+  /** Minimum value. */
+  min: unknown
+
+  /** Maximum value. */
+  max: unknown
+}
+
+export type AggregateResult<T extends KvValue, TOptions> = TOptions extends
+  { groupBy: infer K }
+  ? Map<QueryFieldValue<T, K>, AggregateValues<T, TOptions>>
+  : AggregateValues<T, TOptions>
+
+// Watch Types
+export type WatchOptions = {
+  /**
+   * Polling interval in milliseconds.
+   *
+   * Used when watching by filter, or when `Deno.Kv.watch()` is not available.
+   *
+   * @default 1_000
+   */
+  interval?: number
+
+  /** Poll for changes even if `Deno.Kv.watch()` is available. */
+  poll?: boolean
+
+  /** Abort signal used to stop watching and close the change stream. */
+  signal?: AbortSignal
+}
+
+export type WatchFilter<T extends KvValue> = (doc: Document<T>) => boolean
+
+export type WatchEventType = "insert" | "update" | "delete"
+
+export type WatchEvent<T extends KvValue> =
+  | {
+    type: "insert"
+    id: KvId
+    oldDoc: null
+    newDoc: Document<T>
+  }
+  | {
+    type: "update"
+    id: KvId
+    oldDoc: Document<T>
+    newDoc: Document<T>
+  }
+  | {
+    type: "delete"
+    id: KvId
+    oldDoc: Document<T>
+    newDoc: null
+  }
+
+export type SchemaWatchEvent = WatchEvent<KvValue> & {
+  /** Key of the collection in the database schema. */
+  collection: KvKey
+}
+
+// Change Log Types
+export type ChangeType = "set" | "delete"
+
+export type ChangeEntry = {
+  /** Type of document write. */
+  type: ChangeType
+
+  /** Key of the collection in the database schema. */
+  collection: KvKey
+
+  /** Document id. */
+  id: KvId
+
+  /** Written document value, or null if the document was deleted. */
+  value: KvValue | null
+
+  /** Time of the write in milliseconds since the epoch. */
+  timestamp: number
+}
+
+export type Change = ChangeEntry & {
+  /** Versionstamp of the atomic operation that wrote the document. */
+  versionstamp: string
+}
+
+export type ChangesOptions = {
+  /**
+   * Maximum number of changes to read.
+   *
+   * Changes written in the same atomic operation are never split,
+   * and may exceed the limit. Must be at least 1.
+   */
+  limit?: number
+}
+
+export type ChangesResult = {
+  /** Changes in versionstamp order. */
+  changes: Change[]
+
+  /** Versionstamp of the last read change, to read the next changes from. */
+  versionstamp: string | null
+}
+
+export type CompactOptions = {
+  /**
+   * Retention period in milliseconds, older change log entries are deleted.
+   *
+   * @default 604_800_000 // Defaults to 7 days
+   */
+  retention?: number
+}
+
 // Queue Types
 export type QueueValue = Exclude<KvValue, undefined>
 
@@ -291,6 +1267,66 @@ export type PreparedEnqueue<T extends QueueValue> = {
 // Data Types
 export type UpdateData<T extends KvValue> = T extends KvObject ? Partial<T> : T
 
+export type UpdateFn<T extends KvValue, TInput = T> = (value: T) => TInput
+
+export type UpsertValue<
+  T extends KvValue,
+  TStrategy extends UpdateStrategy,
+  TInput = T,
+> = {
+  /** Update data applied to the existing document. */
+  update: UpdateValue<T, TStrategy, TInput>
+
+  /** Document value inserted if no document exists. */
+  set: TInput
+}
+
+export type UpdateStrategy =
+  | "shallow"
+  | "deep"
+  | "replace"
+  | "merge-patch"
+  | "json-patch"
+
+export type UpdateValue<
+  T extends KvValue,
+  TStrategy extends UpdateStrategy,
+  TInput = T,
+> = TStrategy extends "json-patch" ? JsonPatch
+  : TStrategy extends "merge-patch" ? MergePatch<T>
+  : TStrategy extends "replace" ? TInput
+  : TStrategy extends "deep" ? DeepUpdateData<T>
+  : T extends KvObject ? UpdateData<T>
+  : TInput
+
+export type DeepUpdateData<T> = T extends KvObject ? {
+    [K in keyof T]?: DeepUpdateData<T[K]>
+  }
+  : T
+
+export type MergePatch<T> = T extends KvObject ? {
+    [K in keyof T]?: MergePatch<T[K]> | null
+  }
+  : T
+
+export type JsonPatch = JsonPatchOperation[]
+
+export type JsonPatchOperation =
+  | {
+    op: "add" | "replace" | "test"
+    path: string
+    value: KvValue
+  }
+  | {
+    op: "remove"
+    path: string
+  }
+  | {
+    op: "move" | "copy"
+    from: string
+    path: string
+  }
+
 export type FlatDocumentData<T extends KvValue> =
   & Omit<DocumentData<T>, "value">
   & (
@@ -1,25 +1,65 @@
 import {
   ATOMIC_OPERATION_MUTATION_LIMIT,
+  CHANGELOG_PENDING_KEY_PREFIX,
+  COMPOUND_INDEX_SEPARATOR,
+  DEFAULT_WATCH_INTERVAL,
   GET_MANY_KEY_LIMIT,
+  INDEX_VALUE_UPPER_BOUND_SUFFIX,
+  KEY_PATH_SEPARATOR,
   UNDELIVERED_KEY_PREFIX,
+  VERSION_FIELD,
+  WATCH_KEY_LIMIT,
 } from "./constants.ts"
+import {
+  DocumentCallbackError,
+  InvalidJsonPatchError,
+  InvalidPaginationError,
+  InvalidQueryError,
+} from "./errors.ts"
+import type { Collection } from "./collection.ts"
+import type { DerivedCollection } from "./derived_collection.ts"
 import type { IndexableCollection } from "./indexable_collection.ts"
+import type { Document } from "./document.ts"
 import type {
+  AggregateOptions,
+  AggregateState,
   AtomicSetOptions,
+  ChangeEntry,
+  ChangeType,
+  CollectionOptions,
+  CountAllOptions,
+  DeleteOptions,
+  DocumentCallbackFailure,
+  DocumentIterator,
   EnqueueOptions,
   FindManyOptions,
   IndexableCollectionOptions,
   IndexDataEntry,
+  IndexIdEntry,
+  IndexRange,
+  JsonPatch,
   KvId,
   KvKey,
   KvObject,
   KvValue,
   ListOptions,
+  Migration,
+  OrderedDocument,
+  PageTokenPayload,
   ParsedQueueMessage,
   PreparedEnqueue,
+  QueryCondition,
+  QueryDefinition,
+  QueryOrderDirection,
   QueueMessage,
   QueueValue,
   UpdateData,
+  UpdateStrategy,
+  ViewChange,
+  ViewOperation,
+  WatchEvent,
+  WatchFilter,
+  WatchOptions,
 } from "./types.ts"
 
 /**
@@ -60,7 +100,106 @@ export function getDocumentId(key: Deno.KvKey) {
  * @returns true if keys are equal, false if not.
  */
 export function keyEq(k1: KvKey, k2: KvKey) {
-  return JSON.stringify(k1) === JSON.stringify(k2)
+  return stringifyKey(k1) === stringifyKey(k2)
+}
+
+/**
+ * Create a string representation of a kv key, distinguishing between key part types.
+ *
+ * @param key - A kv key.
+ * @returns A string representation of the key.
+ */
+export function stringifyKey(key: Deno.KvKey) {
+  return JSON.stringify(key.map((part) => [
+    typeof part,
+    part instanceof Uint8Array
+      ? Array.from(part)
+      : typeof part === "bigint"
+      ? part.toString()
+      : part,
+  ]))
+}
+
+/**
+ * Compare two kv values for deep equality.
+ *
+ * @param v1 - First kv value.
+ * @param v2 - Second kv value.
+ * @returns true if values are deeply equal, false if not.
+ */
+export function valueEq(v1: unknown, v2: unknown): boolean {
+  // Compare primitive values and references
+  if (Object.is(v1, v2)) {
+    return true
+  }
+
+  // If either value is not an object, values are not equal
+  if (
+    typeof v1 !== "object" || typeof v2 !== "object" || v1 === null ||
+    v2 === null
+  ) {
+    return false
+  }
+
+  // If values have different prototypes, values are not equal
+  if (Object.getPrototypeOf(v1) !== Object.getPrototypeOf(v2)) {
+    return false
+  }
+
+  // Compare wrapped values
+  if (v1 instanceof Deno.KvU64) {
+    return v1.value === (v2 as Deno.KvU64).value
+  }
+
+  if (v1 instanceof Date) {
+    return v1.getTime() === (v2 as Date).getTime()
+  }
+
+  if (v1 instanceof RegExp) {
+    return String(v1) === String(v2)
+  }
+
+  if (v1 instanceof ArrayBuffer) {
+    return valueEq(new Uint8Array(v1), new Uint8Array(v2 as ArrayBuffer))
+  }
+
+  if (ArrayBuffer.isView(v1)) {
+    const b1 = new Uint8Array(v1.buffer, v1.byteOffset, v1.byteLength)
+    const b2 = new Uint8Array(
+      (v2 as ArrayBufferView).buffer,
+      (v2 as ArrayBufferView).byteOffset,
+      (v2 as ArrayBufferView).byteLength,
+    )
+
+    return b1.length === b2.length && b1.every((byte, i) => byte === b2[i])
+  }
+
+  // Compare collection entries
+  if (v1 instanceof Set || v1 instanceof Map) {
+    const e1 = Array.from(v1.entries())
+    const e2 = Array.from(
+      (v2 as Set<unknown> | Map<unknown, unknown>).entries(),
+    )
+    return valueEq(e1, e2)
+  }
+
+  if (v1 instanceof Error) {
+    return v1.name === (v2 as Error).name &&
+      v1.message === (v2 as Error).message
+  }
+
+  // Compare own keys and values of arrays and objects
+  const keys1 = Object.keys(v1)
+  const keys2 = Object.keys(v2)
+
+  return keys1.length === keys2.length &&
+    keys1.every((key) =>
+      Object.hasOwn(v2, key) &&
+      valueEq(
+        (v1 as Record<string, unknown>)[key],
+        (v2 as Record<string, unknown>)[key],
+      )
+    )
 }
 
 /**
@@ -109,6 +248,441 @@ export function isKvObject(value: KvValue) {
   return true
 }
 
+/**
+ * Record the current schema version in a document value.
+ *
+ * Values are only versioned if the collection declares migrations and the value is of KvObject type.
+ *
+ * @param value - Document value.
+ * @param migrations - Collection migrations.
+ * @returns The document value including the current schema version.
+ */
+export function stampVersion<T>(value: T, migrations: Migration[]): T {
+  // Return value as is if not versioned
+  if (migrations.length === 0 || !isKvObject(value as KvValue)) {
+    return value
+  }
+
+  // Return value including the current schema version
+  return {
+    ...value,
+    [VERSION_FIELD]: migrations.length,
+  }
+}
+
+/**
+ * Migrate a stored document value from its recorded schema version to the current version.
+ *
+ * The recorded schema version is removed from the returned value.
+ *
+ * @param value - Stored document value.
+ * @param migrations - Collection migrations.
+ * @returns Object containing the migrated value, and whether any migrations were applied.
+ */
+export function migrateValue(value: unknown, migrations: Migration[]) {
+  // Return value as is if not versioned
+  if (migrations.length === 0 || !isKvObject(value as KvValue)) {
+    return {
+      value,
+      migrated: false,
+    }
+  }
+
+  // Get recorded schema version, defaulting to the initial version
+  const { [VERSION_FIELD]: version, ...data } = value as KvObject
+  const from = typeof version === "number" ? version : 0
+
+  // Apply every migration from the recorded version to the current version
+  const migrated = migrations
+    .slice(from)
+    .reduce((prev, migration) => migration(prev), data as KvObject)
+
+  return {
+    value: migrated as unknown,
+    migrated: from < migrations.length,
+  }
+}
+
+/**
+ * Separate document ids and delete options from delete arguments.
+ *
+ * @param args - Document ids, optionally followed by delete options.
+ * @returns Object containing document ids and delete options, if given.
+ */
+export function parseDeleteArgs(args: (KvId | DeleteOptions)[]) {
+  // Get the last argument
+  const last = args.at(-1)
+
+  // If the last argument is not an options object, all arguments are ids
+  if (
+    typeof last !== "object" || last === null || last instanceof Uint8Array
+  ) {
+    return {
+      ids: args as KvId[],
+      options: undefined,
+    }
+  }
+
+  // Return ids and delete options
+  return {
+    ids: args.slice(0, -1) as KvId[],
+    options: last,
+  }
+}
+
+/**
+ * Apply update data to a document value using the given update strategy.
+ *
+ * @param value - Existing document value.
+ * @param data - Update data.
+ * @param strategy - Update strategy, defaults to "shallow".
+ * @returns The updated, unparsed document value.
+ */
+export function applyUpdate(
+  value: KvValue,
+  data: unknown,
+  strategy: UpdateStrategy = "shallow",
+): unknown {
+  switch (strategy) {
+    case "replace":
+      return data
+    case "deep":
+      return deepMerge(value, data)
+    case "merge-patch":
+      return applyMergePatch(value, data)
+    case "json-patch":
+      return applyJsonPatch(value, data as JsonPatch)
+    default:
+      return isKvObject(value)
+        ? { ...value as KvObject, ...data as KvObject }
+        : data
+  }
+}
+
+/**
+ * Recursively merge a source value into a target value.
+ *
+ * Objects and Maps are merged by key, arrays are concatenated and Sets are united.
+ * Any other source value replaces the target value.
+ *
+ * @param target - Target value.
+ * @param source - Source value.
+ * @returns The merged value, without modifying the target or source values.
+ */
+export function deepMerge(target: unknown, source: unknown): unknown {
+  // Merge object fields
+  if (isKvObject(target as KvValue) && isKvObject(source as KvValue)) {
+    const result: Record<string, unknown> = { ...target as KvObject }
+
+    Object.entries(source as KvObject).forEach(([key, value]) => {
+      if (value !== undefined) {
+        result[key] = deepMerge(result[key], value)
+      }
+    })
+
+    return result
+  }
+
+  // Concatenate arrays
+  if (Array.isArray(target) && Array.isArray(source)) {
+    return [...target, ...source]
+  }
+
+  // Unite sets
+  if (target instanceof Set && source instanceof Set) {
+    return new Set([...target, ...source])
+  }
+
+  // Merge map entries
+  if (target instanceof Map && source instanceof Map) {
+    const result = new Map(target)
+
+    source.forEach((value, key) => {
+      result.set(
+        key,
+        result.has(key) ? deepMerge(result.get(key), value) : value,
+      )
+    })
+
+    return result
+  }
+
+  // Replace target with source
+  return source
+}
+
+/**
+ * Apply a JSON Merge Patch (RFC 7396) to a target value.
+ *
+ * @param target - Target value.
+ * @param patch - Merge patch, where null values delete fields.
+ * @returns The patched value, without modifying the target or patch values.
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  // If patch is not an object, it replaces the target
+  if (!isKvObject(patch as KvValue)) {
+    return patch
+  }
+
+  // Copy target object, or start from an empty object
+  const result: Record<string, unknown> = isKvObject(target as KvValue)
+    ? { ...target as KvObject }
+    : {}
+
+  // Delete fields patched with null, merge other fields
+  Object.entries(patch as KvObject).forEach(([key, value]) => {
+    if (value === null) {
+      delete result[key]
+    } else {
+      result[key] = applyMergePatch(result[key], value)
+    }
+  })
+
+  return result
+}
+
+/**
+ * Apply a list of JSON Patch (RFC 6902) operations to a value.
+ *
+ * The patch is applied as a whole, if any operation fails an error is thrown.
+ *
+ * @param value - Value to be patched.
+ * @param patch - List of JSON Patch operations.
+ * @returns The patched value, without modifying the given value or patch.
+ */
+export function applyJsonPatch(value: unknown, patch: JsonPatch): unknown {
+  // Copy value, allowing operations to mutate the result
+  let result = copyContainers(value)
+
+  // Apply each patch operation
+  patch.forEach((operation) => {
+    const path = parseJsonPointer(operation.path)
+
+    switch (operation.op) {
+      case "add": {
+        result = addByPointer(result, path, copyContainers(operation.value))
+        break
+      }
+      case "remove": {
+        result = removeByPointer(result, path)
+        break
+      }
+      case "replace": {
+        getByPointer(result, path)
+        result = addByPointer(
+          removeByPointer(result, path, true),
+          path,
+          copyContainers(operation.value),
+        )
+        break
+      }
+      case "move": {
+        if (operation.path.startsWith(`${operation.from}/`)) {
+          throw new InvalidJsonPatchError(
+            `Cannot move "${operation.from}" into one of its children`,
+          )
+        }
+
+        const from = parseJsonPointer(operation.from)
+        const moved = getByPointer(result, from)
+        result = addByPointer(removeByPointer(result, from), path, moved)
+        break
+      }
+      case "copy": {
+        const from = parseJsonPointer(operation.from)
+        const copied = copyContainers(getByPointer(result, from))
+        result = addByPointer(result, path, copied)
+        break
+      }
+      case "test": {
+        if (!valueEq(getByPointer(result, path), operation.value)) {
+          throw new InvalidJsonPatchError(
+            `Test operation failed for path "${operation.path}"`,
+          )
+        }
+        break
+      }
+      default: {
+        throw new InvalidJsonPatchError(
+          `Unknown JSON Patch operation: ${JSON.stringify(operation)}`,
+        )
+      }
+    }
+  })
+
+  // Return patched value
+  return result
+}
+
+/**
+ * Parse a JSON pointer (RFC 6901) into a list of reference tokens.
+ *
+ * @param pointer - JSON pointer string.
+ * @returns List of unescaped reference tokens.
+ */
+function parseJsonPointer(pointer: string) {
+  // The empty pointer references the whole value
+  if (pointer === "") {
+    return []
+  }
+
+  // Non-empty pointers must start with "/"
+  if (!pointer.startsWith("/")) {
+    throw new InvalidJsonPatchError(`Invalid JSON pointer: "${pointer}"`)
+  }
+
+  // Split and unescape reference tokens
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replaceAll("~1", "/").replaceAll("~0", "~"))
+}
+
+/**
+ * Parse an array index reference token.
+ *
+ * @param token - Reference token.
+ * @param max - Maximum allowed index.
+ * @returns The array index.
+ */
+function parseArrayIndex(token: string, max: number) {
+  // Check that token is a valid index within bounds
+  const index = Number(token)
+  if (!/^(0|[1-9][0-9]*)$/.test(token) || index > max) {
+    throw new InvalidJsonPatchError(`Invalid array index: "${token}"`)
+  }
+
+  return index
+}
+
+/**
+ * Get the value referenced by a parsed JSON pointer.
+ *
+ * @param root - Root value.
+ * @param path - Reference tokens.
+ * @returns The referenced value.
+ */
+function getByPointer(root: unknown, path: string[]) {
+  return path.reduce<unknown>((current, token) => {
+    // Get array element
+    if (Array.isArray(current)) {
+      return current[parseArrayIndex(token, current.length - 1)]
+    }
+
+    // Get object field
+    if (
+      isKvObject(current as KvValue) &&
+      Object.hasOwn(current as KvObject, token)
+    ) {
+      return (current as KvObject)[token]
+    }
+
+    throw new InvalidJsonPatchError(`Path not found: "/${path.join("/")}"`)
+  }, root)
+}
+
+/**
+ * Add a value at the location referenced by a parsed JSON pointer.
+ *
+ * @param root - Root value, mutated in place.
+ * @param path - Reference tokens.
+ * @param value - Value to be added.
+ * @returns The root value.
+ */
+function addByPointer(root: unknown, path: string[], value: unknown) {
+  // If path references the root, replace root value
+  if (path.length === 0) {
+    return value
+  }
+
+  // Get parent value and last reference token
+  const parent = getByPointer(root, path.slice(0, -1))
+  const token = path[path.length - 1]
+
+  // Insert array element, "-" appends to the array
+  if (Array.isArray(parent)) {
+    const index = token === "-"
+      ? parent.length
+      : parseArrayIndex(token, parent.length)
+
+    parent.splice(index, 0, value)
+    return root
+  }
+
+  // Set object field
+  if (isKvObject(parent as KvValue)) {
+    const obj = parent as Record<string, unknown>
+    obj[token] = value
+    return root
+  }
+
+  throw new InvalidJsonPatchError(`Path not found: "/${path.join("/")}"`)
+}
+
+/**
+ * Remove the value at the location referenced by a parsed JSON pointer.
+ *
+ * @param root - Root value, mutated in place.
+ * @param path - Reference tokens.
+ * @param replacing - Whether the value is removed to be replaced, allowing removal of the root.
+ * @returns The root value.
+ */
+function removeByPointer(root: unknown, path: string[], replacing = false) {
+  // If path references the root, only allow removal when replacing
+  if (path.length === 0) {
+    if (!replacing) {
+      throw new InvalidJsonPatchError("Cannot remove the root value")
+    }
+
+    return undefined
+  }
+
+  // Get parent value and last reference token
+  const parent = getByPointer(root, path.slice(0, -1))
+  const token = path[path.length - 1]
+
+  // Remove array element
+  if (Array.isArray(parent)) {
+    parent.splice(parseArrayIndex(token, parent.length - 1), 1)
+    return root
+  }
+
+  // Delete object field
+  if (
+    isKvObject(parent as KvValue) && Object.hasOwn(parent as KvObject, token)
+  ) {
+    delete (parent as Record<string, unknown>)[token]
+    return root
+  }
+
+  throw new InvalidJsonPatchError(`Path not found: "/${path.join("/")}"`)
+}
+
+/**
+ * Recursively copy objects and arrays of a value.
+ * Other values are kept as references.
+ *
+ * @param value - Value to be copied.
+ * @returns The copied value.
+ */
+function copyContainers(value: unknown): unknown {
+  // Copy array elements
+  if (Array.isArray(value)) {
+    return value.map(copyContainers)
+  }
+
+  // Copy object fields
+  if (isKvObject(value as KvValue)) {
+    return Object.fromEntries(
+      Object.entries(value as KvObject).map((
+        [key, field],
+      ) => [key, copyContainers(field)]),
+    )
+  }
+
+  return value
+}
+
 /**
  * Set document indices using an atomic operation.
  *
@@ -126,50 +700,31 @@ export function setIndices<
   id: KvId,
   data: T1,
   atomic: Deno.AtomicOperation,
-  collection: IndexableCollection<T1, T2>,
+  collection: IndexableCollection<T1, T2, unknown>,
   options: AtomicSetOptions | undefined,
 ) {
-  // Set primary indices using primary index list
-  collection.primaryIndexList.forEach((index) => {
-    // Get the index value from data, if undefined continue to next index
-    const indexValue = data[index] as KvId | undefined
-    if (typeof indexValue === "undefined") return
+  // Create the primary index document value
+  const indexEntry: IndexDataEntry<T1> = { ...data, __id__: id }
 
-    // Create the index key
-    const indexKey = extendKey(
-      collection._keys.primaryIndexKey,
-      index,
-      indexValue,
-    )
-
-    // Create the index document value
-    const indexEntry: IndexDataEntry<T1> = { ...data, __id__: id }
-
-    // Add index insertion to atomic operation, check for exisitng indices
+  // Set primary indices, check for existing indices
+  getPrimaryIndexKeys(data, collection).forEach((indexKey) => {
     atomic.set(indexKey, indexEntry, options).check({
       key: indexKey,
       versionstamp: null,
     })
   })
 
-  // Set secondary indices using secondary index list
-  collection.secondaryIndexList.forEach((index) => {
-    // Get the index value from data, if undefined continue to next index
-    const indexValue = data[index] as KvId | undefined
-    if (typeof indexValue === "undefined") return
+  // Create the secondary index value
+  const secondaryIndexValue = createSecondaryIndexValue(id, data, collection)
 
-    // Create the index key
-    const indexKey = extendKey(
-      collection._keys.secondaryIndexKey,
-      index,
-      indexValue,
-      id,
-    )
-
-    // Add index insertion to atomic operation, check for exisitng indices
-    atomic.set(indexKey, data, options)
+  // Set secondary indices and increment their index value counters
+  const secondaryKeys = getSecondaryIndexKeys(id, data, collection)
+  secondaryKeys.forEach((indexKey) => {
+    atomic.set(indexKey, secondaryIndexValue, options)
   })
 
+  addIndexCounts(secondaryKeys, 1, atomic, collection)
+
   // Return the mutated atomic operation
   return atomic
 }
@@ -190,24 +745,10 @@ export function checkIndices<
 >(
   data: T2,
   atomic: Deno.AtomicOperation,
-  collection: IndexableCollection<T1, T3>,
+  collection: IndexableCollection<T1, T3, unknown>,
 ) {
-  // Check primary indices using primary index list
-  collection.primaryIndexList.forEach((index) => {
-    // Get the index value from data, if undefined continue to next index
-    const indexValue = data[index] as KvId | undefined
-    if (typeof indexValue === "undefined") {
-      return
-    }
-
-    // Create the index key
-    const indexKey = extendKey(
-      collection._keys.primaryIndexKey,
-      index,
-      indexValue,
-    )
-
-    // Check for existing index entry
+  // Check for existing primary index entries
+  getPrimaryIndexKeys(data as KvObject, collection).forEach((indexKey) => {
     atomic.check({
       key: indexKey,
       versionstamp: null,
@@ -234,84 +775,888 @@ export function deleteIndices<
   id: KvId,
   data: T1,
   atomic: Deno.AtomicOperation,
-  collection: IndexableCollection<T1, T2>,
+  collection: IndexableCollection<T1, T2, unknown>,
 ) {
-  // Delete primary indices using primary index list
-  collection.primaryIndexList.forEach((index) => {
-    // Get the index value from data, if undefined continue to next index
-    const indexValue = data[index] as KvId | undefined
-    if (typeof indexValue === "undefined") return
-
-    // Create the index key
-    const indexKey = extendKey(
-      collection._keys.primaryIndexKey,
-      index,
-      indexValue,
-    )
+  // Delete primary and secondary indices
+  const secondaryKeys = getSecondaryIndexKeys(id, data, collection)
+  const indexKeys = [
+    ...getPrimaryIndexKeys(data, collection),
+    ...secondaryKeys,
+  ]
 
-    // Add index deletion to atomic operation
-    atomic.delete(indexKey)
-  })
-
-  // Delete seocndary indices using secondary index list
-  collection.secondaryIndexList.forEach((index) => {
-    // Get the index value from data, if undefined continue to next index
-    const indexValue = data[index] as KvId | undefined
-    if (typeof indexValue === "undefined") return
-
-    // Create the index key
-    const indexKey = extendKey(
-      collection._keys.secondaryIndexKey,
-      index,
-      indexValue,
-      id,
-    )
+  indexKeys.forEach((indexKey) => atomic.delete(indexKey))
 
-    // Add index deletion to atomic operation
-    atomic.delete(indexKey)
-  })
+  // Decrement the secondary index value counters
+  addIndexCounts(secondaryKeys, -1, atomic, collection)
 
   return atomic
 }
 
 /**
- * Perform kv.getMany with sliced executions to allow for more keys than internal limit.
+ * Update document indices from an old to a new document value using an atomic operation.
  *
- * @param keys - List of keys.
- * @param kv - Deno KV instance.
- * @param options - Find many options.
- * @returns List of entries.
+ * Only deletes index entries that are no longer present in the new value,
+ * and only checks for collisions on primary index entries that are new.
+ *
+ * @param id - Document id.
+ * @param oldData - Old document value.
+ * @param newData - New document value.
+ * @param atomic - An initialized atomic operation.
+ * @param collection - The collection context.
+ * @param options - Set options or undefined.
+ * @returns The atomic operation with added mutations.
  */
-export async function kvGetMany<const T>(
-  keys: Deno.KvKey[],
-  kv: Deno.Kv,
-  options?: FindManyOptions,
+export function updateIndices<
+  T1 extends KvObject,
+  T2 extends IndexableCollectionOptions<T1>,
+>(
+  id: KvId,
+  oldData: T1,
+  newData: T1,
+  atomic: Deno.AtomicOperation,
+  collection: IndexableCollection<T1, T2, unknown>,
+  options: AtomicSetOptions | undefined,
 ) {
-  // Initialize sliced keys list
-  const slicedKeys: Deno.KvKey[][] = []
+  // Get old and new primary index keys
+  const oldPrimaryKeys = getPrimaryIndexKeys(oldData, collection)
+  const newPrimaryKeys = getPrimaryIndexKeys(newData, collection)
+  const oldPrimaryKeySet = new Set(oldPrimaryKeys.map(stringifyKey))
+  const newPrimaryKeySet = new Set(newPrimaryKeys.map(stringifyKey))
 
-  // Slice keys based on getMany keys limit
-  for (let i = 0; i < keys.length; i += GET_MANY_KEY_LIMIT) {
-    slicedKeys.push(keys.slice(i, i + GET_MANY_KEY_LIMIT))
-  }
+  // Create the primary index document value
+  const indexEntry: IndexDataEntry<T1> = { ...newData, __id__: id }
 
-  // Execute getMany for each sliced keys entry
-  const slicedEntries = await allFulfilled(slicedKeys.map((keys) => {
-    return kv.getMany<T[]>(keys, options)
-  }))
+  // Delete stale primary indices
+  oldPrimaryKeys
+    .filter((indexKey) => !newPrimaryKeySet.has(stringifyKey(indexKey)))
+    .forEach((indexKey) => atomic.delete(indexKey))
 
-  // Return accumulated result
-  return slicedEntries.flat()
-}
+  // Set new primary indices, check for existing indices if not already owned
+  newPrimaryKeys.forEach((indexKey) => {
+    atomic.set(indexKey, indexEntry, options)
 
-/**
- * Use optimized atomic operations without hitting mutation limit.
- *
- * @param kv - Deno KV instance.
- * @param elements - Pool of elements.
- * @param fn - Callback function to be called for each element.
- * @returns Promise that resolves to list of atomic commit results.
- */
+    if (!oldPrimaryKeySet.has(stringifyKey(indexKey))) {
+      atomic.check({
+        key: indexKey,
+        versionstamp: null,
+      })
+    }
+  })
+
+  // Get old and new secondary index keys
+  const oldSecondaryKeys = getSecondaryIndexKeys(id, oldData, collection)
+  const newSecondaryKeys = getSecondaryIndexKeys(id, newData, collection)
+  const oldSecondaryKeySet = new Set(oldSecondaryKeys.map(stringifyKey))
+  const newSecondaryKeySet = new Set(newSecondaryKeys.map(stringifyKey))
+
+  // Delete stale secondary indices, decrement their index value counters
+  const staleSecondaryKeys = oldSecondaryKeys
+    .filter((indexKey) => !newSecondaryKeySet.has(stringifyKey(indexKey)))
+
+  staleSecondaryKeys.forEach((indexKey) => atomic.delete(indexKey))
+  addIndexCounts(staleSecondaryKeys, -1, atomic, collection)
+
+  // Increment the index value counters of added secondary indices
+  addIndexCounts(
+    newSecondaryKeys.filter((indexKey) =>
+      !oldSecondaryKeySet.has(stringifyKey(indexKey))
+    ),
+    1,
+    atomic,
+    collection,
+  )
+
+  // Create the secondary index value
+  const secondaryIndexValue = createSecondaryIndexValue(id, newData, collection)
+
+  // Set new secondary indices, id entries are only written if not already existing
+  newSecondaryKeys
+    .filter((indexKey) =>
+      collection.secondaryIndexStorage === "data" ||
+      !oldSecondaryKeySet.has(stringifyKey(indexKey))
+    )
+    .forEach((indexKey) => {
+      atomic.set(indexKey, secondaryIndexValue, options)
+    })
+
+  // Return the mutated atomic operation
+  return atomic
+}
+
+/**
+ * Add a delta to a materialized document counter of a collection using an atomic operation.
+ *
+ * The delta is summed at a random counter shard, where negative deltas wrap around the unsigned 64-bit value.
+ * Does nothing if the collection does not maintain counters.
+ *
+ * @param delta - Delta to add to the counter.
+ * @param atomic - An initialized atomic operation.
+ * @param collection - The collection context.
+ * @param keyParts - Index key parts of an index value counter, empty for the document counter.
+ * @returns The atomic operation with added mutations.
+ */
+export function addCount<
+  T1 extends KvValue,
+  T2 extends CollectionOptions<T1>,
+>(
+  delta: 1 | -1,
+  atomic: Deno.AtomicOperation,
+  collection: Collection<T1, T2, unknown>,
+  keyParts: Deno.KvKey = [],
+) {
+  // If counters are not maintained, return the atomic operation unchanged
+  if (!collection._counterShards) {
+    return atomic
+  }
+
+  // Sum the delta at a random counter shard
+  const shard = Math.floor(Math.random() * collection._counterShards)
+  const key = extendKey(
+    collection._keys.counterKey,
+    ...keyParts as KvKey,
+    shard,
+  )
+  return atomic.sum(key, BigInt.asUintN(64, BigInt(delta)))
+}
+
+/**
+ * Add an entry to the change log of the database using an atomic operation.
+ *
+ * Entries are written as pending entries keyed by a random id,
+ * as the versionstamp of the write is not known until committed.
+ * Does nothing if the collection does not record changes.
+ *
+ * @param type - Type of document write.
+ * @param id - Document id.
+ * @param value - Written stored value, ignored for deleted documents.
+ * @param atomic - An initialized atomic operation.
+ * @param collection - The collection context.
+ * @returns The atomic operation with added mutations.
+ */
+export function addChange<
+  T1 extends KvValue,
+  T2 extends CollectionOptions<T1>,
+>(
+  type: ChangeType,
+  id: KvId,
+  value: unknown,
+  atomic: Deno.AtomicOperation,
+  collection: Collection<T1, T2, unknown>,
+) {
+  // If changes are not recorded, return the atomic operation unchanged
+  if (!collection._changelog) {
+    return atomic
+  }
+
+  // Create change log entry, recording the value without its schema version
+  const entry: ChangeEntry = {
+    type,
+    collection: collection._keys.baseKey.slice(1) as KvKey,
+    id,
+    value: type === "set"
+      ? migrateValue(value, collection._migrations).value as KvValue
+      : null,
+    timestamp: Date.now(),
+  }
+
+  return atomic.set([CHANGELOG_PENDING_KEY_PREFIX, generateId()], entry)
+}
+
+/**
+ * Add a delta to the index value counters of secondary index keys using an atomic operation.
+ *
+ * @param indexKeys - Secondary index keys.
+ * @param delta - Delta to add to each counter.
+ * @param atomic - An initialized atomic operation.
+ * @param collection - The collection context.
+ */
+function addIndexCounts<
+  T1 extends KvObject,
+  T2 extends IndexableCollectionOptions<T1>,
+>(
+  indexKeys: KvKey[],
+  delta: 1 | -1,
+  atomic: Deno.AtomicOperation,
+  collection: IndexableCollection<T1, T2, unknown>,
+) {
+  indexKeys.forEach((indexKey) =>
+    addCount(
+      delta,
+      atomic,
+      collection,
+      getIndexCounterKeyParts(indexKey, collection),
+    )
+  )
+}
+
+/**
+ * Get the index key parts of a secondary index key, excluding the collection key and document id.
+ *
+ * @param indexKey - Secondary index key.
+ * @param collection - The collection context.
+ * @returns Index key parts.
+ */
+export function getIndexCounterKeyParts<
+  T1 extends KvObject,
+  T2 extends IndexableCollectionOptions<T1>,
+>(indexKey: KvKey, collection: IndexableCollection<T1, T2, unknown>) {
+  return indexKey.slice(collection._keys.secondaryIndexKey.length, -1)
+}
+
+/**
+ * Create a list selector for the shards of a materialized document counter.
+ *
+ * Index value counters are selected by prefix, which also covers the values of leading compound index values.
+ * Document counter shards are selected by range, as their shard number directly follows the counter key.
+ *
+ * @param counterKey - Counter key of the collection.
+ * @param keyParts - Index key parts of an index value counter, empty for the document counter.
+ * @returns A list selector.
+ */
+export function createCounterSelector(
+  counterKey: KvKey,
+  keyParts: Deno.KvKey,
+): Deno.KvListSelector {
+  return keyParts.length > 0
+    ? { prefix: extendKey(counterKey, ...keyParts as KvKey) }
+    : {
+      start: extendKey(counterKey, 0),
+      end: extendKey(counterKey, Number.MAX_SAFE_INTEGER),
+    }
+}
+
+/**
+ * Read a materialized document counter by summing its shards.
+ *
+ * @param kv - Deno KV instance.
+ * @param selector - List selector for the counter shards.
+ * @param options - Count options or undefined.
+ * @returns Promise resolving to the count and the number of scanned counter shards.
+ */
+export async function readCount(
+  kv: Deno.Kv,
+  selector: Deno.KvListSelector,
+  options: CountAllOptions | undefined,
+) {
+  // Sum all counter shards
+  let sum = 0n
+  let scanned = 0
+  for await (const { value } of kv.list<Deno.KvU64>(selector, options)) {
+    sum += value.value
+    scanned++
+  }
+
+  // Return the sum wrapped to an unsigned 64-bit value
+  return {
+    count: Number(BigInt.asUintN(64, sum)),
+    scanned,
+  }
+}
+
+/**
+ * Apply source document changes to derived collections using an atomic operation.
+ *
+ * Changes are reduced into the current derived documents in order,
+ * and every derived document is written with a check against its read versionstamp.
+ *
+ * @param kv - Deno KV instance.
+ * @param atomic - An initialized atomic operation.
+ * @param changes - Source document changes.
+ * @returns Promise resolving to the versionstamp checks of the derived documents.
+ */
+export async function applyViewChanges(
+  kv: Deno.Kv,
+  atomic: Deno.AtomicOperation,
+  changes: ViewChange[],
+) {
+  // Collect reduce steps by derived document key
+  const updates = new Map<string, {
+    view: DerivedCollection<KvValue, KvValue>
+    key: KvKey
+    steps: { value: KvValue; op: ViewOperation }[]
+  }>()
+
+  changes.forEach(({ views, migrations, id, oldValue, newValue }) => {
+    // Remove the old source value before adding the new source value
+    const values = [
+      { value: oldValue, op: "remove" as const },
+      { value: newValue, op: "add" as const },
+    ]
+
+    values.forEach(({ value, op }) => {
+      if (value === null || typeof value === "undefined") {
+        return
+      }
+
+      // Get the current source value without its recorded schema version
+      const current = migrateValue(value, migrations).value as KvValue
+
+      views.forEach((view) => {
+        // Get the derived document id, skip if not reduced into any document
+        const derivedId = view._getDerivedId(current, id)
+        if (derivedId === null) {
+          return
+        }
+
+        // Add reduce step to the derived document update
+        const key = extendKey(view._keys.idKey, derivedId)
+        const updateId = stringifyKey(key)
+        const update = updates.get(updateId) ?? { view, key, steps: [] }
+        update.steps.push({ value: current, op })
+        updates.set(updateId, update)
+      })
+    })
+  })
+
+  // Get the current derived document entries
+  const list = Array.from(updates.values())
+  const entries = await kvGetMany<KvValue>(list.map(({ key }) => key), kv)
+
+  // Reduce steps into each derived document, write or delete the result
+  return list.map(({ view, key, steps }, i) => {
+    const { value, versionstamp } = entries[i]
+    const reduced = steps.reduce<KvValue | null>(
+      (acc, step) => view._reduce(acc, step.value, step.op),
+      value,
+    )
+
+    atomic.check({
+      key,
+      versionstamp,
+    })
+
+    if (reduced === null) {
+      atomic.delete(key)
+    } else {
+      atomic.set(key, view._model.parse(reduced))
+    }
+
+    return {
+      key,
+      versionstamp,
+    } satisfies Deno.AtomicCheck
+  })
+}
+
+/**
+ * Create a stream of change events for watched documents.
+ *
+ * Document keys are watched using `Deno.Kv.watch()` if given and supported,
+ * otherwise the keys and versionstamps of watched documents are read on every polling interval.
+ * Only documents with a changed versionstamp are read, and only documents matching
+ * the filter are kept, to be emitted as the old document of later change events.
+ * Documents that start matching the filter are inserted, and documents that stop matching are deleted.
+ *
+ * @param kv - Deno KV instance.
+ * @param selector - Document keys to watch, or list selector of document keys to poll.
+ * @param find - Function reading documents by id.
+ * @param filter - Filter of watched documents, optional.
+ * @param options - Watch options, optional.
+ * @returns A stream of change events.
+ */
+export function createWatchStream<const T extends KvValue>(
+  kv: Deno.Kv,
+  selector: Deno.KvKey[] | Deno.KvListSelector,
+  find: (ids: KvId[]) => Promise<Document<T>[]>,
+  filter: WatchFilter<T> | undefined,
+  options: WatchOptions | undefined,
+) {
+  // Create abort controller, aborted when the stream is cancelled or the given signal is aborted
+  const controller = new AbortController()
+  const signal = controller.signal
+  const abort = () => controller.abort()
+  options?.signal?.addEventListener("abort", abort, { once: true })
+
+  if (options?.signal?.aborted) {
+    abort()
+  }
+
+  // Watch natively if keys are given and supported, otherwise poll
+  const keys = Array.isArray(selector) ? selector : null
+  const native = keys !== null && !options?.poll &&
+    typeof kv.watch === "function"
+
+  // Read the entries of all watched document keys
+  const scan = () =>
+    Array.isArray(selector) ? kvGetMany(selector, kv) : kv.list(selector)
+
+  // Versionstamps of all watched documents, and previous documents that match the filter
+  const versionstamps = new Map<string, string>()
+  const previous = new Map<string, Document<T>>()
+  let cancelled = false
+
+  // Compare document entries to the previous versionstamps and collect change events
+  const diff = async (
+    entries:
+      | Iterable<Deno.KvEntryMaybe<unknown>>
+      | AsyncIterable<Deno.KvEntryMaybe<unknown>>,
+    complete: boolean,
+  ) => {
+    const changed: KvId[] = []
+    const deleted: string[] = []
+    const seen = new Set<string>()
+
+    // Collect ids of documents with a changed versionstamp, and of deleted documents
+    for await (const { key, versionstamp } of entries) {
+      const id = getDocumentId(key)
+      if (typeof id === "undefined") {
+        continue
+      }
+
+      const docId = stringifyKey([id])
+      if (versionstamp === null) {
+        if (versionstamps.has(docId)) {
+          deleted.push(docId)
+        }
+        continue
+      }
+
+      seen.add(docId)
+      if (versionstamps.get(docId) !== versionstamp) {
+        changed.push(id)
+      }
+    }
+
+    // If all watched keys were read, previous documents that were not read are deleted
+    if (complete) {
+      versionstamps.forEach((_, docId) => {
+        if (!seen.has(docId)) {
+          deleted.push(docId)
+        }
+      })
+    }
+
+    // Read changed documents only
+    const docs = changed.length > 0 ? await find(changed) : []
+    const found = new Set<string>()
+    const events: WatchEvent<T>[] = []
+
+    for (const doc of docs) {
+      const docId = stringifyKey([doc.id])
+      const oldDoc = previous.get(docId)
+      found.add(docId)
+      versionstamps.set(docId, doc.versionstamp)
+
+      // Documents matching the filter are inserted, or updated if they previously matched
+      if (!filter || filter(doc)) {
+        previous.set(docId, doc)
+        events.push(
+          oldDoc
+            ? { type: "update", id: doc.id, oldDoc, newDoc: doc }
+            : { type: "insert", id: doc.id, oldDoc: null, newDoc: doc },
+        )
+        continue
+      }
+
+      // Documents that no longer match the filter are deleted
+      if (oldDoc) {
+        previous.delete(docId)
+        events.push({ type: "delete", id: doc.id, oldDoc, newDoc: null })
+      }
+    }
+
+    // Changed documents that were deleted before being read are deleted
+    changed.forEach((id) => {
+      const docId = stringifyKey([id])
+      if (!found.has(docId) && versionstamps.has(docId)) {
+        deleted.push(docId)
+      }
+    })
+
+    deleted.forEach((docId) => {
+      const oldDoc = previous.get(docId)
+      versionstamps.delete(docId)
+      previous.delete(docId)
+
+      if (oldDoc) {
+        events.push({ type: "delete", id: oldDoc.id, oldDoc, newDoc: null })
+      }
+    })
+
+    return events
+  }
+
+  return new ReadableStream<WatchEvent<T>>({
+    async start(stream) {
+      // Read the initial documents, without emitting change events
+      await diff(await scan(), true)
+
+      // Compare document entries and enqueue change events
+      const emit = async (
+        entries:
+          | Iterable<Deno.KvEntryMaybe<unknown>>
+          | AsyncIterable<Deno.KvEntryMaybe<unknown>>,
+        complete: boolean,
+      ) => {
+        const events = await diff(entries, complete)
+        events.forEach((event) => stream.enqueue(event))
+      }
+
+      // Watch natively, comparing the watched entries whenever a watched key changes
+      const watch = async (keys: Deno.KvKey[]) => {
+        // Create readers of every watch stream, cancelled on abort
+        const readers: ReadableStreamDefaultReader<
+          Deno.KvEntryMaybe<unknown>[]
+        >[] = []
+        for (let i = 0; i < keys.length; i += WATCH_KEY_LIMIT) {
+          readers.push(kv.watch(keys.slice(i, i + WATCH_KEY_LIMIT)).getReader())
+        }
+
+        signal.addEventListener(
+          "abort",
+          () => readers.forEach((reader) => reader.cancel()),
+          { once: true },
+        )
+
+        // Emit change events one read at a time
+        let queue = Promise.resolve()
+        await Promise.all(readers.map(async (reader) => {
+          while (true) {
+            const { done, value } = await reader.read()
+            if (done) {
+              return
+            }
+
+            queue = queue.then(() => emit(value, false))
+            await queue
+          }
+        }))
+      }
+
+      // Poll, reading document entries on every interval until aborted
+      const poll = async () => {
+        const interval = options?.interval ?? DEFAULT_WATCH_INTERVAL
+
+        while (!signal.aborted) {
+          await new Promise<void>((resolve) => {
+            const timeout = setTimeout(() => {
+              signal.removeEventListener("abort", done)
+              resolve()
+            }, interval)
+
+            const done = () => {
+              clearTimeout(timeout)
+              resolve()
+            }
+
+            signal.addEventListener("abort", done, { once: true })
+          })
+
+          if (!signal.aborted) {
+            await emit(await scan(), true)
+          }
+        }
+      }
+
+      // Run in the background, close the stream when done unless cancelled
+      const run = native && keys ? watch(keys) : poll()
+      run
+        .then(() => {
+          if (!cancelled) {
+            stream.close()
+          }
+        })
+        .catch((e) => {
+          abort()
+          if (!cancelled) {
+            stream.error(e)
+          }
+        })
+        .finally(() => options?.signal?.removeEventListener("abort", abort))
+    },
+    cancel() {
+      cancelled = true
+      abort()
+    },
+  })
+}
+
+/**
+ * Create the value of a secondary index entry,
+ * according to the secondary index storage mode of the collection.
+ *
+ * @param id - Document id.
+ * @param data - Document value.
+ * @param collection - The collection context.
+ * @returns The document value, or an index entry containing only the document id.
+ */
+export function createSecondaryIndexValue<
+  T1 extends KvObject,
+  T2 extends IndexableCollectionOptions<T1>,
+>(id: KvId, data: T1, collection: IndexableCollection<T1, T2, unknown>) {
+  // Return the document value, or only the document id
+  return collection.secondaryIndexStorage === "data"
+    ? data
+    : { __id__: id } satisfies IndexIdEntry
+}
+
+/**
+ * Get the primary index keys of a document value.
+ *
+ * @param data - Document value.
+ * @param collection - The collection context.
+ * @returns List of primary index keys.
+ */
+export function getPrimaryIndexKeys<
+  T1 extends KvObject,
+  T2 extends IndexableCollectionOptions<T1>,
+>(data: KvObject, collection: IndexableCollection<T1, T2, unknown>) {
+  // Initialize index keys list
+  const indexKeys: KvKey[] = []
+
+  // Get primary index keys using primary index fields
+  getPrimaryIndexFields(collection).forEach((fields) => {
+    // Get the index key parts from data, if undefined continue to next index
+    const keyParts = getIndexKeyParts(fields, data)
+    if (!keyParts) return
+
+    // Create the index key
+    indexKeys.push(extendKey(collection._keys.primaryIndexKey, ...keyParts))
+  })
+
+  // Return index keys
+  return indexKeys
+}
+
+/**
+ * Get the secondary index keys of a document value,
+ * including one key per unique element of multi-value indices.
+ *
+ * @param id - Document id.
+ * @param data - Document value.
+ * @param collection - The collection context.
+ * @returns List of secondary index keys.
+ */
+export function getSecondaryIndexKeys<
+  T1 extends KvObject,
+  T2 extends IndexableCollectionOptions<T1>,
+>(id: KvId, data: KvObject, collection: IndexableCollection<T1, T2, unknown>) {
+  // Initialize index keys list
+  const indexKeys: KvKey[] = []
+
+  // Get secondary index keys using secondary index fields
+  getSecondaryIndexFields(collection).forEach((fields) => {
+    // Get the index key parts from data, if undefined continue to next index
+    const keyParts = getIndexKeyParts(fields, data)
+    if (!keyParts) return
+
+    // Create the index key
+    indexKeys.push(
+      extendKey(collection._keys.secondaryIndexKey, ...keyParts, id),
+    )
+  })
+
+  // Get multi-value index keys using multi index list
+  collection.multiIndexList.forEach((index) => {
+    // Get the index values from data, if not a list continue to next index
+    const values = getValueByPath(data, index)
+    if (!Array.isArray(values)) return
+
+    // Create an index key for each unique element
+    const elementKeys = new Map<string, KvKey>()
+    values.forEach((value) => {
+      if (typeof value === "undefined") return
+
+      const indexKey = extendKey(
+        collection._keys.secondaryIndexKey,
+        index,
+        value as KvId,
+        id,
+      )
+
+      elementKeys.set(stringifyKey(indexKey), indexKey)
+    })
+
+    indexKeys.push(...elementKeys.values())
+  })
+
+  // Return index keys
+  return indexKeys
+}
+
+/**
+ * Get the fields of every primary index in a collection,
+ * including compound primary indices.
+ *
+ * @param collection - The collection context.
+ * @returns List of index fields, one entry per index.
+ */
+export function getPrimaryIndexFields<
+  T1 extends KvObject,
+  T2 extends IndexableCollectionOptions<T1>,
+>(collection: IndexableCollection<T1, T2, unknown>) {
+  return [
+    ...collection.primaryIndexList.map((index) => [index]),
+    ...collection.compoundPrimaryIndexList,
+  ]
+}
+
+/**
+ * Get the fields of every secondary index in a collection,
+ * including compound secondary indices.
+ *
+ * @param collection - The collection context.
+ * @returns List of index fields, one entry per index.
+ */
+export function getSecondaryIndexFields<
+  T1 extends KvObject,
+  T2 extends IndexableCollectionOptions<T1>,
+>(collection: IndexableCollection<T1, T2, unknown>) {
+  return [
+    ...collection.secondaryIndexList.map((index) => [index]),
+    ...collection.compoundSecondaryIndexList,
+  ]
+}
+
+/**
+ * Get the names of every primary index in a collection.
+ *
+ * @param collection - The collection context.
+ * @returns List of primary index names.
+ */
+export function getPrimaryIndexNames<
+  T1 extends KvObject,
+  T2 extends IndexableCollectionOptions<T1>,
+>(collection: IndexableCollection<T1, T2, unknown>) {
+  return getPrimaryIndexFields(collection).map((fields) =>
+    fields.join(COMPOUND_INDEX_SEPARATOR)
+  )
+}
+
+/**
+ * Get the names of every secondary index in a collection,
+ * including multi-value indices.
+ *
+ * @param collection - The collection context.
+ * @returns List of secondary index names.
+ */
+export function getSecondaryIndexNames<
+  T1 extends KvObject,
+  T2 extends IndexableCollectionOptions<T1>,
+>(collection: IndexableCollection<T1, T2, unknown>) {
+  return [
+    ...getSecondaryIndexFields(collection).map((fields) =>
+      fields.join(COMPOUND_INDEX_SEPARATOR)
+    ),
+    ...collection.multiIndexList,
+  ]
+}
+
+/**
+ * Get the index key parts of a document value for a single or compound index.
+ *
+ * @param fields - Index fields.
+ * @param data - Document value.
+ * @returns Index key parts, or undefined if any of the index values are undefined.
+ */
+export function getIndexKeyParts(fields: string[], data: KvObject) {
+  // Get the index values from data, if any value is undefined return undefined
+  const values = fields.map((field) =>
+    getValueByPath(data, field) as KvId | undefined
+  )
+  if (values.some((value) => typeof value === "undefined")) {
+    return undefined
+  }
+
+  // Return the index name followed by the index values
+  return createIndexKeyParts(fields, values as KvId[])
+}
+
+/**
+ * Get a value from a kv object by a dot separated key path.
+ *
+ * @example
+ * ```ts
+ * getValueByPath({ profile: { email: "oli@mail.com" } }, "profile.email") // "oli@mail.com"
+ * ```
+ *
+ * @param data - Kv object.
+ * @param path - Key path, e.g. "profile.email".
+ * @returns The value found at the key path, or undefined if not found.
+ */
+export function getValueByPath(data: KvObject, path: string) {
+  // Prefer exact keys, also covers top-level keys that contain dots
+  if (path in data) {
+    return data[path]
+  }
+
+  // Walk the key path, return undefined if an intermediate value is not an object
+  let value: KvValue = data
+  for (const key of path.split(KEY_PATH_SEPARATOR)) {
+    if (!isKvObject(value)) {
+      return undefined
+    }
+
+    value = (value as KvObject)[key]
+  }
+
+  return value
+}
+
+/**
+ * Create index key parts from an index and index value.
+ *
+ * Compound indices are given as a list of fields and a list of values,
+ * where the list of values may be a prefix of the index fields.
+ *
+ * @param index - Index field or list of compound index fields.
+ * @param value - Index value or list of compound index values.
+ * @returns Index key parts.
+ */
+export function createIndexKeyParts(
+  index: string | readonly string[],
+  value: KvId | readonly KvId[],
+) {
+  // Create the index name
+  const name = typeof index === "string"
+    ? index
+    : index.join(COMPOUND_INDEX_SEPARATOR)
+
+  // Collect the index values
+  const values = Array.isArray(value) ? value as KvId[] : [value as KvId]
+
+  // Return the index key parts
+  return [name, ...values] as KvKey
+}
+
+/**
+ * Perform kv.getMany with sliced executions to allow for more keys than internal limit.
+ *
+ * @param keys - List of keys.
+ * @param kv - Deno KV instance.
+ * @param options - Find many options.
+ * @returns List of entries.
+ */
+export async function kvGetMany<const T>(
+  keys: Deno.KvKey[],
+  kv: Deno.Kv,
+  options?: FindManyOptions,
+) {
+  // Initialize sliced keys list
+  const slicedKeys: Deno.KvKey[][] = []
+
+  // Slice keys based on getMany keys limit
+  for (let i = 0; i < keys.length; i += GET_MANY_KEY_LIMIT) {
+    slicedKeys.push(keys.slice(i, i + GET_MANY_KEY_LIMIT))
+  }
+
+  // Execute getMany for each sliced keys entry
+  const slicedEntries = await allFulfilled(slicedKeys.map((keys) => {
+    return kv.getMany<T[]>(keys, options)
+  }))
+
+  // Return accumulated result
+  return slicedEntries.flat()
+}
+
+/**
+ * Use optimized atomic operations without hitting mutation limit.
+ *
+ * @param kv - Deno KV instance.
+ * @param elements - Pool of elements.
+ * @param fn - Callback function to be called for each element.
+ * @returns Promise that resolves to list of atomic commit results.
+ */
 export async function useAtomics<const T>(
   kv: Deno.Kv,
   elements: T[],
@@ -325,125 +1670,818 @@ export async function useAtomics<const T>(
     slicedElements.push(elements.slice(i, i + ATOMIC_OPERATION_MUTATION_LIMIT))
   }
 
-  // Invoke callback function for each element and execute atomic operation
-  return await allFulfilled(slicedElements.map(async (elements) => {
-    try {
-      let atomic = kv.atomic()
-
-      elements.forEach((value) => {
-        atomic = fn(value, atomic)
-      })
+  // Invoke callback function for each element and execute atomic operation
+  return await allFulfilled(slicedElements.map(async (elements) => {
+    try {
+      let atomic = kv.atomic()
+
+      elements.forEach((value) => {
+        atomic = fn(value, atomic)
+      })
+
+      return await atomic.commit()
+    } catch (e) {
+      console.error(e)
+      return { ok: false } as Deno.KvCommitError
+    }
+  }))
+}
+
+/**
+ * Get a list of result values from a list of promises.
+ * Only returns the values of fulfilled promises.
+ *
+ * @param promises - List of promises.
+ * @returns Result values from fulfilled promises.
+ */
+export async function allFulfilled<const T>(
+  values: T[],
+) {
+  // Get settled results
+  const settled = await Promise.allSettled(values)
+
+  // Return fulfilled values
+  return settled.reduce(
+    (acc, result) =>
+      result.status === "fulfilled" ? [...acc, result.value] : acc,
+    [] as Awaited<T>[],
+  )
+}
+
+/**
+ * Execute a callback function for each document with bounded concurrency.
+ *
+ * All callbacks are executed, even if some fail.
+ * Errors of failed callbacks are aggregated and thrown once all callbacks have settled.
+ *
+ * @param docs - List of documents.
+ * @param fn - Callback function.
+ * @param concurrency - Maximum number of concurrently executed callbacks, unbounded if undefined.
+ * @returns Results of the callbacks in document order.
+ */
+export async function handleDocuments<const T1 extends KvValue, const T2>(
+  docs: Document<T1>[],
+  fn: (doc: Document<T1>) => T2,
+  concurrency: number | undefined,
+) {
+  // Initiate results, failures and index of the next document
+  const results = new Map<number, Awaited<T2>>()
+  const failures: DocumentCallbackFailure[] = []
+  let next = 0
+
+  // Execute callbacks for remaining documents, one at a time
+  const work = async () => {
+    while (next < docs.length) {
+      const index = next++
+      const doc = docs[index]
+
+      try {
+        results.set(index, await fn(doc))
+      } catch (error) {
+        failures.push({ id: doc.id, error })
+      }
+    }
+  }
+
+  // Start workers, limited by the concurrency and number of documents
+  const limit = concurrency !== undefined && concurrency >= 1
+    ? Math.floor(concurrency)
+    : Infinity
+
+  const workers = Math.max(1, Math.min(limit, docs.length))
+  await Promise.all(Array.from({ length: workers }, work))
+
+  // Throw aggregated errors of failed callbacks
+  if (failures.length > 0) {
+    throw new DocumentCallbackError(failures)
+  }
+
+  // Return results in document order
+  return docs.flatMap((_, i) => results.has(i) ? [results.get(i)!] : [])
+}
+
+/**
+ * Prepare the queue message and options for an enqueue operation.
+ *
+ * @param key - Collection key or null for database enqueue
+ * @param data - Queue message data
+ * @param options - Enqueue options
+ * @returns Prepared enqueue
+ */
+export function prepareEnqueue<const T extends QueueValue>(
+  key: KvKey,
+  data: T,
+  options: EnqueueOptions | undefined,
+): PreparedEnqueue<T> {
+  // Create queue message
+  const msg: QueueMessage<T> = {
+    __data__: data,
+    __handlerId__: createHandlerId(key, options?.topic),
+  }
+
+  // Create keys if undelivered
+  const keysIfUndelivered = options?.idsIfUndelivered?.map((id) =>
+    extendKey(key, UNDELIVERED_KEY_PREFIX, id)
+  )
+
+  // Return prepared enqueue
+  return {
+    msg,
+    options: {
+      ...options,
+      keysIfUndelivered,
+    },
+  }
+}
+
+/**
+ * Create a handler id from a key and topic.
+ *
+ * @param key - Kv key.
+ * @param topic - Queue topic.
+ * @returns A handler id.
+ */
+export function createHandlerId(
+  key: KvKey,
+  topic: string | undefined,
+) {
+  return `${JSON.stringify(key)}${topic ?? ""}`
+}
+
+/**
+ * Parse incoming queue message.
+ *
+ * @param msg - Queue message.
+ * @returns Parsed queue message.
+ */
+export function parseQueueMessage<T extends QueueValue>(
+  msg: unknown,
+): ParsedQueueMessage<T> {
+  // Check for no message
+  if (!msg) {
+    return {
+      ok: false,
+    }
+  }
+
+  // Cast message as QueueMessage
+  const _msg = msg as QueueMessage<T>
+
+  // Check correctness of message parts
+  if (
+    !_msg.__handlerId__ || _msg.__data__ === undefined
+  ) {
+    return {
+      ok: false,
+    }
+  }
+
+  // Return parsed queue message
+  return {
+    ok: true,
+    msg: _msg,
+  }
+}
+
+/**
+ * Create a document iterator that lazily lists documents from a KV list iterator.
+ *
+ * Entries are only listed when the next document is requested,
+ * allowing documents to be processed in constant memory.
+ *
+ * @param iter - KV list iterator.
+ * @param fn - Function constructing a document from a list entry, returning null if no document exists.
+ * @param filter - Document filter function, optional.
+ * @returns A document iterator.
+ */
+export function createDocumentIterator<const T1 extends KvValue, const T2>(
+  iter: Deno.KvListIterator<T2>,
+  fn: (entry: Deno.KvEntry<T2>) => Promise<Document<T1> | null>,
+  filter: ((doc: Document<T1>) => boolean) | undefined,
+): DocumentIterator<T1> {
+  // Track whether the list iterator has been iterated
+  let listed = false
+
+  // Create generator yielding documents of listed entries
+  async function* generate() {
+    for await (const entry of iter) {
+      listed = true
+      const doc = await fn(entry)
+      if (doc && (!filter || filter(doc))) {
+        yield doc
+      }
+    }
+  }
+
+  // Create iterator of generated documents, exposing the current list iterator cursor
+  const docs = generate()
+
+  return {
+    next: () => docs.next(),
+    return: (value) => docs.return(value),
+    throw: (error) => docs.throw(error),
+    [Symbol.asyncIterator]() {
+      return this
+    },
+    get cursor() {
+      return listed ? iter.cursor || undefined : undefined
+    },
+  }
+}
+
+/**
+ * Compare two values, ordering values of different types in the same order as KV keys.
+ *
+ * @param v1 - First value.
+ * @param v2 - Second value.
+ * @returns A negative number if v1 is ordered first, a positive number if v2 is ordered first, or 0 if equal.
+ */
+export function compareValues(v1: unknown, v2: unknown): number {
+  // Order values of different types by type rank
+  const rank1 = getValueRank(v1)
+  const rank2 = getValueRank(v2)
+  if (rank1 !== rank2) {
+    return rank1 - rank2
+  }
+
+  // Compare byte arrays lexicographically
+  if (v1 instanceof Uint8Array && v2 instanceof Uint8Array) {
+    const length = Math.min(v1.length, v2.length)
+    for (let i = 0; i < length; i++) {
+      if (v1[i] !== v2[i]) {
+        return v1[i] - v2[i]
+      }
+    }
+
+    return v1.length - v2.length
+  }
+
+  // Compare dates by time
+  const c1 = v1 instanceof Date ? v1.getTime() : v1 as string | number
+  const c2 = v2 instanceof Date ? v2.getTime() : v2 as string | number
+
+  return c1 < c2 ? -1 : c1 > c2 ? 1 : 0
+}
+
+/**
+ * Check if a document value matches a query condition.
+ *
+ * Array fields compared to a single value match if any element matches,
+ * or for the "!=" operator if no element is equal to the value.
+ *
+ * @param data - Document value.
+ * @param condition - Query condition.
+ * @returns true if the value matches the condition, false if not.
+ */
+export function matchesCondition(data: KvValue, condition: QueryCondition) {
+  // Get the field value
+  const value = getFieldValue(data, condition.field)
+  const matches = (v: unknown) => matchesValue(v, condition)
+
+  // Match whole value if not an array or if compared to an array
+  if (
+    !Array.isArray(value) ||
+    (Array.isArray(condition.value) && condition.operator !== "in")
+  ) {
+    return matches(value)
+  }
+
+  // Match array value as a whole or by its elements
+  return condition.operator === "!="
+    ? matches(value) && value.every(matches)
+    : matches(value) || value.some(matches)
+}
+
+/**
+ * Check if a field value matches a query condition.
+ *
+ * Range operators only match values of the same type as the compared value.
+ *
+ * @param value - Field value.
+ * @param condition - Query condition.
+ * @returns true if the value matches the condition, false if not.
+ */
+function matchesValue(value: unknown, condition: QueryCondition) {
+  // Match equality operators
+  switch (condition.operator) {
+    case "==":
+      return valueEq(value, condition.value)
+    case "!=":
+      return !valueEq(value, condition.value)
+    case "in":
+      return (condition.value as unknown[]).some((v) => valueEq(value, v))
+  }
+
+  // Only match range operators for comparable values of the same type
+  if (
+    value === null || typeof value === "undefined" ||
+    getValueRank(value) !== getValueRank(condition.value)
+  ) {
+    return false
+  }
 
-      return await atomic.commit()
-    } catch (e) {
-      console.error(e)
-      return { ok: false } as Deno.KvCommitError
-    }
-  }))
+  // Match range operators
+  const comparison = compareValues(value, condition.value)
+  switch (condition.operator) {
+    case "<":
+      return comparison < 0
+    case "<=":
+      return comparison <= 0
+    case ">":
+      return comparison > 0
+    case ">=":
+      return comparison >= 0
+  }
 }
 
 /**
- * Get a list of result values from a list of promises.
- * Only returns the values of fulfilled promises.
+ * Create a document filter matching all conditions of a query definition.
  *
- * @param promises - List of promises.
- * @returns Result values from fulfilled promises.
+ * If the query is ordered, only documents where the ordered field is defined are matched.
+ *
+ * @param definition - Query definition.
+ * @returns A document filter function.
  */
-export async function allFulfilled<const T>(
-  values: T[],
+export function createQueryFilter<const T extends KvValue>(
+  { conditions, order }: QueryDefinition,
 ) {
-  // Get settled results
-  const settled = await Promise.allSettled(values)
+  return (doc: Document<T>) =>
+    conditions.every((condition) => matchesCondition(doc.value, condition)) &&
+    (!order || typeof getFieldValue(doc.value, order.field) !== "undefined")
+}
 
-  // Return fulfilled values
-  return settled.reduce(
-    (acc, result) =>
-      result.status === "fulfilled" ? [...acc, result.value] : acc,
-    [] as Awaited<T>[],
-  )
+/**
+ * Get the value of a document field by a dot separated key path.
+ *
+ * @param data - Document value.
+ * @param field - Key path of the field.
+ * @returns The field value, or undefined if the document value is not an object.
+ */
+export function getFieldValue(data: KvValue, field: string) {
+  return isKvObject(data) ? getValueByPath(data as KvObject, field) : undefined
 }
 
 /**
- * Prepare the queue message and options for an enqueue operation.
+ * Check if a value can be used as a KV key part, and thereby as an index value.
  *
- * @param key - Collection key or null for database enqueue
- * @param data - Queue message data
- * @param options - Enqueue options
- * @returns Prepared enqueue
+ * @param value - Value to be checked.
+ * @returns true if the value is a valid KV key part, false if not.
  */
-export function prepareEnqueue<const T extends QueueValue>(
-  key: KvKey,
-  data: T,
-  options: EnqueueOptions | undefined,
-): PreparedEnqueue<T> {
-  // Create queue message
-  const msg: QueueMessage<T> = {
-    __data__: data,
-    __handlerId__: createHandlerId(key, options?.topic),
+export function isKvId(value: unknown): value is KvId {
+  return getValueRank(value) < 5
+}
+
+/**
+ * Aggregate documents, optionally grouped by the value of a field.
+ *
+ * Documents are aggregated as they are iterated, only keeping the aggregate state of each group in memory.
+ *
+ * @param docs - Documents to aggregate.
+ * @param options - Aggregate options, optional.
+ * @returns Promise resolving to the aggregate values, or a map of aggregate values by group value if grouped.
+ */
+export async function aggregateDocuments<const T extends KvValue>(
+  docs: AsyncIterable<Document<T>>,
+  options: AggregateOptions<T> | undefined,
+) {
+  // Initiate aggregate states by serialized group value
+  const states = new Map<string, AggregateState>()
+
+  for await (const { value } of docs) {
+    // Get the aggregate state of the document group
+    const group = options?.groupBy
+      ? getFieldValue(value, options.groupBy)
+      : undefined
+
+    const groupKey = JSON.stringify(serializeValue(group))
+    let state = states.get(groupKey)
+    if (!state) {
+      state = createAggregateState(group)
+      states.set(groupKey, state)
+    }
+
+    // Update aggregate state with the document field values
+    state.count++
+
+    const sum = options?.sum ? getFieldValue(value, options.sum) : undefined
+    if (typeof sum === "number") {
+      state.sum += sum
+    }
+
+    const avg = options?.avg ? getFieldValue(value, options.avg) : undefined
+    if (typeof avg === "number") {
+      state.avgSum += avg
+      state.avgCount++
+    }
+
+    const min = options?.min ? getFieldValue(value, options.min) : undefined
+    if (
+      min !== undefined && min !== null &&
+      (state.min === undefined || compareValues(min, state.min) < 0)
+    ) {
+      state.min = min
+    }
+
+    const max = options?.max ? getFieldValue(value, options.max) : undefined
+    if (
+      max !== undefined && max !== null &&
+      (state.max === undefined || compareValues(max, state.max) > 0)
+    ) {
+      state.max = max
+    }
   }
 
-  // Create keys if undelivered
-  const keysIfUndelivered = options?.idsIfUndelivered?.map((id) =>
-    extendKey(key, UNDELIVERED_KEY_PREFIX, id)
-  )
+  // Create aggregate values from an aggregate state
+  const toValues = (state: AggregateState) => ({
+    count: state.count,
+    ...(options?.sum ? { sum: state.sum } : {}),
+    ...(options?.avg
+      ? {
+        avg: state.avgCount > 0 ? state.avgSum / state.avgCount : undefined,
+      }
+      : {}),
+    ...(options?.min ? { min: state.min } : {}),
+    ...(options?.max ? { max: state.max } : {}),
+  })
 
-  // Return prepared enqueue
+  // Return aggregate values by group value if grouped
+  if (options?.groupBy) {
+    const groups = Array.from(states.values())
+    return new Map(groups.map((state) => [state.group, toValues(state)]))
+  }
+
+  // Return aggregate values of all documents
+  const [state] = states.values()
+  return toValues(state ?? createAggregateState(undefined))
+}
+
+/**
+ * Create an empty aggregate state.
+ *
+ * @param group - Group value.
+ * @returns An aggregate state.
+ */
+function createAggregateState(group: unknown): AggregateState {
   return {
-    msg,
-    options: {
-      ...options,
-      keysIfUndelivered,
-    },
+    group,
+    count: 0,
+    sum: 0,
+    avgSum: 0,
+    avgCount: 0,
+    min: undefined,
+    max: undefined,
   }
 }
 
 /**
- * Create a handler id from a key and topic.
+ * Create a function comparing documents by a field, then by id.
  *
- * @param key - Kv key.
- * @param topic - Queue topic.
- * @returns A handler id.
+ * @param order - Field and direction to order by.
+ * @returns A document compare function.
  */
-export function createHandlerId(
-  key: KvKey,
-  topic: string | undefined,
+export function createDocumentComparator(
+  { field, direction }: { field: string; direction?: QueryOrderDirection },
 ) {
-  return `${JSON.stringify(key)}${topic ?? ""}`
+  const sign = direction === "desc" ? -1 : 1
+  return (d1: OrderedDocument, d2: OrderedDocument) =>
+    sign * (
+      compareValues(
+        getFieldValue(d1.value, field),
+        getFieldValue(d2.value, field),
+      ) || compareValues(d1.id, d2.id)
+    )
 }
 
 /**
- * Parse incoming queue message.
+ * Merge sorted async iterables into a single sorted async iterable.
  *
- * @param msg - Queue message.
- * @returns Parsed queue message.
+ * Only the current element of each iterable is held, ordered in a binary heap.
+ *
+ * @param iterables - Sorted async iterables.
+ * @param compare - Compare function the iterables are sorted by.
+ * @returns An async generator yielding the elements of all iterables in sorted order.
  */
-export function parseQueueMessage<T extends QueueValue>(
-  msg: unknown,
-): ParsedQueueMessage<T> {
-  // Check for no message
-  if (!msg) {
-    return {
-      ok: false,
+export async function* mergeSorted<const T>(
+  iterables: AsyncIterable<T>[],
+  compare: (e1: T, e2: T) => number,
+): AsyncGenerator<T> {
+  // Initiate heap of the current element of each iterator
+  const heap: { value: T; iter: AsyncIterator<T> }[] = []
+
+  // Move an element down the heap until no child is less
+  const siftDown = (i: number) => {
+    while (true) {
+      const min = [i, 2 * i + 1, 2 * i + 2]
+        .filter((j) => j < heap.length)
+        .reduce((min, j) =>
+          compare(heap[j].value, heap[min].value) < 0 ? j : min
+        )
+
+      if (min === i) {
+        return
+      }
+
+      const element = heap[i]
+      heap[i] = heap[min]
+      heap[min] = element
+      i = min
     }
   }
 
-  // Cast message as QueueMessage
-  const _msg = msg as QueueMessage<T>
+  // Add the first element of each iterator
+  for (const iterable of iterables) {
+    const iter = iterable[Symbol.asyncIterator]()
+    const next = await iter.next()
+    if (!next.done) {
+      heap.push({ value: next.value, iter })
+    }
+  }
 
-  // Check correctness of message parts
-  if (
-    !_msg.__handlerId__ || _msg.__data__ === undefined
-  ) {
+  for (let i = Math.floor(heap.length / 2) - 1; i >= 0; i--) {
+    siftDown(i)
+  }
+
+  // Yield the least element, replacing it with the next element of its iterator
+  while (heap.length > 0) {
+    const { value, iter } = heap[0]
+    yield value
+
+    const next = await iter.next()
+    if (next.done) {
+      heap[0] = heap[heap.length - 1]
+      heap.pop()
+    } else {
+      heap[0] = { value: next.value, iter }
+    }
+
+    if (heap.length > 0) {
+      siftDown(0)
+    }
+  }
+}
+
+/**
+ * Encode an order cursor from the ordered field value and id of the last listed document.
+ *
+ * @param doc - Last listed document.
+ * @param field - Ordered field.
+ * @returns An opaque order cursor.
+ */
+export function encodeOrderCursor(doc: OrderedDocument, field: string) {
+  const data = JSON.stringify([
+    serializeValue(getFieldValue(doc.value, field)),
+    serializeValue(doc.id),
+  ])
+
+  return encodeBase64Url(new TextEncoder().encode(data))
+}
+
+/**
+ * Decode an order cursor into a document stub holding the ordered field value and id.
+ *
+ * @param cursor - Order cursor.
+ * @param field - Ordered field.
+ * @returns A document stub that can be compared to listed documents.
+ */
+export function decodeOrderCursor(
+  cursor: string,
+  field: string,
+): OrderedDocument {
+  try {
+    // Parse serialized field value and id
+    const data = new TextDecoder().decode(decodeBase64Url(cursor))
+    const [value, id] = JSON.parse(data)
     return {
-      ok: false,
+      id: deserializeValue(id) as KvId,
+      value: { [field]: deserializeValue(value) } as KvObject,
     }
+  } catch (e) {
+    throw new InvalidQueryError(`Invalid order cursor: ${cursor}`, {
+      cause: e,
+    })
   }
+}
 
-  // Return parsed queue message
-  return {
-    ok: true,
-    msg: _msg,
+/**
+ * Serialize a value as JSON compatible type tagged value.
+ *
+ * @param value - Value to be serialized.
+ * @returns Tuple of type tag and JSON compatible value.
+ */
+function serializeValue(value: unknown): [string, unknown] {
+  return value instanceof Uint8Array
+    ? ["bytes", Array.from(value)]
+    : value instanceof Date
+    ? ["date", value.getTime()]
+    : typeof value === "bigint"
+    ? ["bigint", value.toString()]
+    : [typeof value, value]
+}
+
+/**
+ * Deserialize a type tagged value.
+ *
+ * @param serialized - Tuple of type tag and JSON compatible value.
+ * @returns The deserialized value.
+ */
+function deserializeValue([type, value]: [string, unknown]) {
+  switch (type) {
+    case "bytes":
+      return new Uint8Array(value as number[])
+    case "date":
+      return new Date(value as number)
+    case "bigint":
+      return BigInt(value as string)
+    case "string":
+    case "number":
+    case "boolean":
+      return value
+    default:
+      throw new TypeError(`Unknown value type: ${type}`)
+  }
+}
+
+/**
+ * Encode a query cursor from a KV list cursor or an order cursor of the last sorted document.
+ *
+ * @param cursor - KV list cursor or order cursor.
+ * @returns An opaque query cursor.
+ */
+export function encodeQueryCursor(cursor: { kv: string } | { after: string }) {
+  return btoa(JSON.stringify(cursor))
+}
+
+/**
+ * Decode a query cursor.
+ *
+ * @param cursor - Query cursor.
+ * @returns The decoded KV list cursor or order cursor.
+ */
+export function decodeQueryCursor(
+  cursor: string,
+): { kv: string } | { after: string } {
+  try {
+    // Parse and validate cursor
+    const decoded = JSON.parse(atob(cursor))
+    if (typeof decoded?.kv === "string" || typeof decoded?.after === "string") {
+      return decoded
+    }
+  } catch (_e) {
+    // Fall through to throw invalid cursor error
+  }
+
+  throw new InvalidQueryError(`Invalid query cursor: ${cursor}`)
+}
+
+/**
+ * Encode a page token from a page token payload.
+ *
+ * The token includes a signature of the payload and the collection key,
+ * making tokens that are modified or used for another collection detectable.
+ *
+ * @param payload - Page token payload.
+ * @param key - Collection key.
+ * @param secret - Secret key used to sign the token.
+ * @returns Promise resolving to an opaque page token.
+ */
+export async function encodePageToken(
+  payload: PageTokenPayload,
+  key: KvKey,
+  secret: Uint8Array,
+) {
+  // Encode payload and create signature
+  const data = JSON.stringify(payload)
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importPageTokenKey(secret),
+    createPageTokenMessage(data, key),
+  )
+
+  // Join encoded payload and signature
+  const encoded = encodeBase64Url(new TextEncoder().encode(data))
+  return `${encoded}.${encodeBase64Url(new Uint8Array(signature))}`
+}
+
+/**
+ * Decode and verify a page token.
+ *
+ * @param token - Page token.
+ * @param key - Collection key.
+ * @param secret - Secret key used to sign the token.
+ * @returns Promise resolving to the page token payload.
+ */
+export async function decodePageToken(
+  token: string,
+  key: KvKey,
+  secret: Uint8Array,
+): Promise<PageTokenPayload> {
+  // Split token into encoded payload and signature
+  const [encoded, signature, ...rest] = token.split(".")
+  if (!encoded || !signature || rest.length > 0) {
+    throw new InvalidPaginationError(`Malformed page token: ${token}`)
+  }
+
+  // Decode payload and signature
+  let data: string
+  let signatureBytes: Uint8Array
+  try {
+    data = new TextDecoder().decode(decodeBase64Url(encoded))
+    signatureBytes = decodeBase64Url(signature)
+  } catch (e) {
+    throw new InvalidPaginationError(`Malformed page token: ${token}`, {
+      cause: e,
+    })
+  }
+
+  // Verify signature in constant time
+  const verified = await crypto.subtle.verify(
+    "HMAC",
+    await importPageTokenKey(secret),
+    signatureBytes,
+    createPageTokenMessage(data, key),
+  )
+
+  if (!verified) {
+    throw new InvalidPaginationError(
+      "Invalid page token signature: the token was modified, belongs to another collection, or was signed with a different page token secret. Without the pageTokenSecret option, the secret is generated per process",
+    )
   }
+
+  // Parse verified payload
+  return JSON.parse(data)
+}
+
+/**
+ * Create the signed message of page token data bound to a collection key.
+ *
+ * @param data - Stringified page token payload.
+ * @param key - Collection key.
+ * @returns The message bytes.
+ */
+function createPageTokenMessage(data: string, key: KvKey) {
+  return new TextEncoder().encode(`${stringifyKey(key)}${data}`)
+}
+
+/**
+ * Import a page token secret as an HMAC-SHA-256 signing key.
+ *
+ * @param secret - Secret key bytes.
+ * @returns Promise resolving to the crypto key.
+ */
+async function importPageTokenKey(secret: Uint8Array) {
+  return await crypto.subtle.importKey(
+    "raw",
+    secret,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  )
+}
+
+/**
+ * Encode bytes as an URL safe base64 string without padding.
+ *
+ * @param bytes - Bytes to be encoded.
+ * @returns The base64url encoded string.
+ */
+function encodeBase64Url(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes))
+    .replaceAll("+", "-")
+    .replaceAll("/", "_")
+    .replace(/=+$/, "")
+}
+
+/**
+ * Decode an URL safe base64 string without padding.
+ *
+ * @param encoded - The base64url encoded string.
+ * @returns The decoded bytes.
+ */
+function decodeBase64Url(encoded: string) {
+  const base64 = encoded.replaceAll("-", "+").replaceAll("_", "/")
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+}
+
+/**
+ * Get the rank of a value type, in the same order as KV key parts.
+ *
+ * @param value - Value to be ranked.
+ * @returns The type rank.
+ */
+function getValueRank(value: unknown) {
+  return value instanceof Uint8Array
+    ? 0
+    : typeof value === "string"
+    ? 1
+    : typeof value === "number"
+    ? 2
+    : typeof value === "bigint"
+    ? 3
+    : typeof value === "boolean"
+    ? 4
+    : value instanceof Date
+    ? 5
+    : 6
 }
 
 /**
@@ -479,3 +2517,80 @@ export function createListSelector<const T extends KvValue>(
     end,
   }
 }
+
+/**
+ * Create a list selector for a range of index values from an index prefix key.
+ *
+ * @param prefixKey - Index prefix key, excluding the index value.
+ * @param range - Index value range.
+ * @returns A list selector.
+ */
+export function createIndexRangeSelector(
+  prefixKey: KvKey,
+  range: IndexRange<KvId>,
+): Deno.KvListSelector {
+  // Create start key, exclusive bounds skip past all entries of the value
+  const start = typeof range.gte !== "undefined"
+    ? extendKey(prefixKey, range.gte)
+    : typeof range.gt !== "undefined"
+    ? extendKey(prefixKey, range.gt, ...INDEX_VALUE_UPPER_BOUND_SUFFIX)
+    : undefined
+
+  // Create end key, inclusive bounds include all entries of the value
+  const end = typeof range.lte !== "undefined"
+    ? extendKey(prefixKey, range.lte, ...INDEX_VALUE_UPPER_BOUND_SUFFIX)
+    : typeof range.lt !== "undefined"
+    ? extendKey(prefixKey, range.lt)
+    : undefined
+
+  // Return list selector
+  if (start && end) {
+    return {
+      start,
+      end,
+    }
+  }
+
+  if (start) {
+    return {
+      prefix: prefixKey,
+      start,
+    }
+  }
+
+  if (end) {
+    return {
+      prefix: prefixKey,
+      end,
+    }
+  }
+
+  return {
+    prefix: prefixKey,
+  }
+}
+
+/**
+ * Create a document filter that only accepts the first listed document of each id,
+ * used when a document is listed by multiple index entries of a multi-value index.
+ *
+ * @param filter - Document filter, optional.
+ * @returns A document filter accepting each document once.
+ */
+export function createUniqueFilter<T extends KvValue>(
+  filter: ((doc: Document<T>) => boolean) | undefined,
+) {
+  // Ids of accepted documents
+  const seen = new Set<string>()
+
+  return (doc: Document<T>) => {
+    // Reject documents that do not match the filter, or were already accepted
+    const docId = stringifyKey([doc.id])
+    if ((filter && !filter(doc)) || seen.has(docId)) {
+      return false
+    }
+
+    seen.add(docId)
+    return true
+  }
+}
@@ -0,0 +1,285 @@
+import type {
+  KvValue,
+  ObjectValidatorOutput,
+  StandardSchemaResult,
+  ValidationIssue,
+  ValidationPath,
+  Validator,
+  ValidatorOutput,
+  ValidatorShape,
+} from "./types.ts"
+import { isKvObject } from "./utils.ts"
+
+/**
+ * Lightweight built-in validator for creating validated models.
+ *
+ * Validators implement the Standard Schema interface.
+ *
+ * @example
+ * ```ts
+ * import { model, validator as v } from "https://deno.land/x/kvdex/mod.ts"
+ *
+ * const UserModel = model(v.object({
+ *   username: v.string(),
+ *   age: v.number(),
+ *   address: v.object({
+ *     country: v.string(),
+ *     city: v.string(),
+ *     street: v.optional(v.string()),
+ *   }),
+ * }))
+ * ```
+ */
+export const validator = {
+  string,
+  number,
+  boolean,
+  bigint,
+  date,
+  literal,
+  array,
+  object,
+  optional,
+  nullable,
+  union,
+}
+
+/**
+ * Create a validator that accepts strings.
+ *
+ * @returns A string validator.
+ */
+function string(): Validator<string> {
+  return createTypeValidator("string", (value) => typeof value === "string")
+}
+
+/**
+ * Create a validator that accepts numbers, excluding NaN.
+ *
+ * @returns A number validator.
+ */
+function number(): Validator<number> {
+  return createTypeValidator(
+    "number",
+    (value) => typeof value === "number" && !Number.isNaN(value),
+  )
+}
+
+/**
+ * Create a validator that accepts booleans.
+ *
+ * @returns A boolean validator.
+ */
+function boolean(): Validator<boolean> {
+  return createTypeValidator("boolean", (value) => typeof value === "boolean")
+}
+
+/**
+ * Create a validator that accepts bigints.
+ *
+ * @returns A bigint validator.
+ */
+function bigint(): Validator<bigint> {
+  return createTypeValidator("bigint", (value) => typeof value === "bigint")
+}
+
+/**
+ * Create a validator that accepts valid dates.
+ *
+ * @returns A date validator.
+ */
+function date(): Validator<Date> {
+  return createTypeValidator(
+    "date",
+    (value) => value instanceof Date && !Number.isNaN(value.valueOf()),
+  )
+}
+
+/**
+ * Create a validator that only accepts the given value.
+ *
+ * @example
+ * ```ts
+ * validator.literal("admin")
+ * ```
+ *
+ * @param literal - Accepted value.
+ * @returns A literal validator.
+ */
+function literal<const T extends string | number | boolean | null>(
+  literal: T,
+): Validator<T> {
+  return createValidator((value, path) =>
+    value === literal
+      ? []
+      : [{ path, message: `Expected ${JSON.stringify(literal)}` }]
+  )
+}
+
+/**
+ * Create a validator that accepts arrays where every item is valid.
+ *
+ * @example
+ * ```ts
+ * validator.array(validator.string())
+ * ```
+ *
+ * @param item - Validator of array items.
+ * @returns An array validator.
+ */
+function array<const T extends KvValue>(
+  item: Validator<T>,
+): Validator<T[]> {
+  return createValidator((value, path) => {
+    if (!Array.isArray(value)) {
+      return [{ path, message: "Expected array" }]
+    }
+
+    return value.flatMap((v, i) => item.check(v, [...path, i]))
+  })
+}
+
+/**
+ * Create a validator that accepts objects where every defined field is valid.
+ *
+ * Fields not defined by the shape are kept as is.
+ *
+ * @example
+ * ```ts
+ * validator.object({
+ *   username: validator.string(),
+ *   age: validator.number(),
+ * })
+ * ```
+ *
+ * @param shape - Validators of object fields.
+ * @returns An object validator.
+ */
+function object<const TShape extends ValidatorShape>(
+  shape: TShape,
+): Validator<ObjectValidatorOutput<TShape>> {
+  return createValidator((value, path) => {
+    if (!isKvObject(value as KvValue)) {
+      return [{ path, message: "Expected object" }]
+    }
+
+    return Object.entries(shape).flatMap(([key, field]) =>
+      field.check((value as Record<string, unknown>)[key], [...path, key])
+    )
+  })
+}
+
+/**
+ * Create a validator that accepts undefined in addition to valid values.
+ *
+ * Optional validators make object fields optional.
+ *
+ * @param inner - Validator of defined values.
+ * @returns An optional validator.
+ */
+function optional<const T extends KvValue>(
+  inner: Validator<T>,
+): Validator<T | undefined> {
+  return createValidator((value, path) =>
+    value === undefined ? [] : inner.check(value, path)
+  )
+}
+
+/**
+ * Create a validator that accepts null in addition to valid values.
+ *
+ * @param inner - Validator of non-null values.
+ * @returns A nullable validator.
+ */
+function nullable<const T extends KvValue>(
+  inner: Validator<T>,
+): Validator<T | null> {
+  return createValidator((value, path) =>
+    value === null ? [] : inner.check(value, path)
+  )
+}
+
+/**
+ * Create a validator that accepts values that are valid for any of the given validators.
+ *
+ * @example
+ * ```ts
+ * validator.union(validator.string(), validator.number())
+ * ```
+ *
+ * @param options - Validators of accepted values.
+ * @returns A union validator.
+ */
+function union<const T extends Validator<KvValue>[]>(
+  ...options: T
+): Validator<ValidatorOutput<T[number]>> {
+  return createValidator((value, path) => {
+    const issues = options.map((option) => option.check(value, path))
+    if (issues.some((i) => i.length === 0)) {
+      return []
+    }
+
+    // Report the issues of the option that got the furthest
+    const deepest = issues.reduce((prev, curr) =>
+      depth(curr) > depth(prev) ? curr : prev
+    )
+
+    return deepest.some((issue) => issue.path.length > path.length)
+      ? deepest
+      : [{ path, message: "Expected value matching any union option" }]
+  })
+}
+
+/*************************/
+/*                       */
+/*   UTILITY FUNCTIONS   */
+/*                       */
+/*************************/
+
+/**
+ * Create a validator from a check function.
+ *
+ * @param check - Function collecting validation issues of a value.
+ * @returns A validator.
+ */
+function createValidator<T>(
+  check: (value: unknown, path: ValidationPath) => ValidationIssue[],
+): Validator<T> {
+  return {
+    check,
+    "~standard": {
+      version: 1,
+      vendor: "kvdex",
+      validate: (value): StandardSchemaResult<T> => {
+        const issues = check(value, [])
+        return issues.length > 0 ? { issues } : { value: value as T }
+      },
+    },
+  }
+}
+
+/**
+ * Create a validator from a type predicate.
+ *
+ * @param type - Name of the expected type.
+ * @param predicate - Function checking if a value is of the expected type.
+ * @returns A validator.
+ */
+function createTypeValidator<T>(
+  type: string,
+  predicate: (value: unknown) => boolean,
+): Validator<T> {
+  return createValidator((value, path) =>
+    predicate(value) ? [] : [{ path, message: `Expected ${type}` }]
+  )
+}
+
+/**
+ * Get the greatest path depth of a list of validation issues.
+ *
+ * @param issues - Validation issues.
+ * @returns The greatest path length.
+ */
+function depth(issues: ValidationIssue[]) {
+  return Math.max(...issues.map((issue) => issue.path.length))
+}
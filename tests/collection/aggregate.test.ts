@@ -0,0 +1,90 @@
+import { assert } from "../deps.ts"
+import { generateLargeUsers, useDb } from "../utils.ts"
+
+Deno.test("collection - aggregate", async (t) => {
+  await t.step("Should aggregate all documents", async () => {
+    await useDb(async (db) => {
+      const users = generateLargeUsers(50)
+      const crs = await db.users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const { count, sum, avg, min, max } = await db.users.aggregate({
+        sum: "age",
+        avg: "address.houseNr",
+        min: "username",
+        max: "age",
+      })
+
+      const houseNrs = users.map((user) => user.address.houseNr ?? 0)
+
+      assert(count === 50)
+      assert(sum === users.reduce((acc, user) => acc + user.age, 0))
+      assert(avg === houseNrs.reduce((acc, nr) => acc + nr, 0) / 50)
+      assert(min === "user_0")
+      assert(max === 24)
+    })
+  })
+
+  await t.step("Should aggregate documents by group", async () => {
+    await useDb(async (db) => {
+      const users = generateLargeUsers(50)
+      const crs = await db.users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const result = await db.users.aggregate({
+        groupBy: "address.city",
+        sum: "age",
+        min: "age",
+        filter: (doc) => doc.value.age >= 20,
+      })
+
+      const filtered = users.filter((user) => user.age >= 20)
+      const groups = Array.from(result.values())
+
+      assert(groups.reduce((acc, group) => acc + group.count, 0) === 25)
+
+      for (const city of ["Bergen", "Oslo"]) {
+        const expected = filtered.filter((user) => user.address.city === city)
+        const values = result.get(city)
+
+        if (expected.length === 0) {
+          assert(values === undefined)
+          continue
+        }
+
+        assert(values !== undefined)
+        assert(values.count === expected.length)
+        assert(values.sum === expected.reduce((acc, u) => acc + u.age, 0))
+        assert(values.min === Math.min(...expected.map((u) => u.age)))
+      }
+    })
+  })
+
+  await t.step("Should ignore null values and empty collections", async () => {
+    await useDb(async (db) => {
+      const empty = await db.users.aggregate({ sum: "age", avg: "age" })
+
+      assert(empty.count === 0)
+      assert(empty.sum === 0)
+      assert(empty.avg === undefined)
+
+      const users = generateLargeUsers(4)
+      users[0].address.houseNr = null
+      users[1].address.houseNr = 10
+      users[2].address.houseNr = 20
+      users[3].address.houseNr = null
+
+      const crs = await db.users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const { count, avg, min } = await db.users.aggregate({
+        avg: "address.houseNr",
+        min: "address.houseNr",
+      })
+
+      assert(count === 4)
+      assert(avg === 15)
+      assert(min === 10)
+    })
+  })
+})
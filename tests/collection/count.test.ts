@@ -1,5 +1,7 @@
+import { collection, type Explanation, kvdex, model } from "../../mod.ts"
 import { assert } from "../deps.ts"
-import { generateUsers } from "../utils.ts"
+import type { User } from "../models.ts"
+import { generateLargeUsers, generateUsers, useKv } from "../utils.ts"
 import { useDb } from "../utils.ts"
 
 Deno.test("collection - count", async (t) => {
@@ -19,4 +21,106 @@ Deno.test("collection - count", async (t) => {
       })
     },
   )
+
+  await t.step(
+    "Should explain how documents were counted",
+    async () => {
+      await useDb(async (db) => {
+        const users = generateLargeUsers(50)
+        const crs = await db.users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const explanations: Explanation[] = []
+        const count = await db.users.count({
+          filter: (doc) => doc.value.age >= 20,
+          explain: (e) => explanations.push(e),
+        })
+
+        assert(count === 25)
+        assert(explanations[0].type === "scan")
+        assert(explanations[0].scanned === users.length)
+        assert(explanations[0].returned === count)
+      })
+    },
+  )
+
+  await t.step(
+    "Should count documents using materialized counters",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: collection(model<User>(), { counter: { shards: 3 } }),
+        })
+
+        const users = generateLargeUsers(50)
+        const crs = await db.users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const cr1 = await db.users.set("id", users[0])
+        const cr2 = await db.users.set("id", users[1])
+        const cr3 = await db.users.write("id", users[2])
+        const cr4 = await db.users.write("id2", users[3])
+        assert(cr1.ok && !cr2.ok && cr3.ok && cr4.ok)
+
+        const cr5 = await db.users.delete("id2", {
+          ifVersionstamp: cr1.ok ? cr1.versionstamp : "",
+        })
+        assert(!cr5.ok)
+
+        await db.users.delete("id2", "id3")
+        await db.users.deleteMany({ filter: (doc) => doc.value.age >= 20 })
+
+        const acr = await db
+          .atomic((schema) => schema.users)
+          .set("id4", users[4])
+          .delete("id")
+          .delete("id5")
+          .commit()
+        assert(acr.ok)
+
+        const explanations: Explanation[] = []
+        const count = await db.users.count({
+          explain: (e) => explanations.push(e),
+        })
+
+        assert(count === 26)
+        assert(count === await db.users.count({ filter: () => true }))
+        assert(explanations[0].type === "counter")
+        assert(explanations[0].scanned <= 3)
+        assert(explanations[0].returned === count)
+        assert(await db.countAll() === count)
+      })
+    },
+  )
+
+  await t.step(
+    "Should count documents set at expected versionstamp using materialized counters",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: collection(model<User>(), { counter: true }),
+        })
+
+        const users = generateLargeUsers(3)
+
+        const cr1 = await db.users.set("id", users[0], { ifVersionstamp: null })
+        const cr2 = await db.users.set("id", users[1], { ifVersionstamp: null })
+        assert(cr1.ok && !cr2.ok)
+        assert(await db.users.count() === 1)
+
+        const cr3 = await db.users.write("id", users[2], {
+          ifVersionstamp: cr1.versionstamp,
+        })
+        assert(cr3.ok)
+        assert(await db.users.count() === 1)
+
+        const cr4 = await db.users.write("id2", users[2], {
+          ifVersionstamp: null,
+        })
+        assert(cr4.ok)
+        assert(await db.users.count() === 2)
+        assert(await db.users.count({ filter: () => true }) === 2)
+      })
+    },
+  )
 })
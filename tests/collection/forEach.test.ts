@@ -1,7 +1,8 @@
-import { Document } from "../../mod.ts"
+import { Document, DocumentCallbackError } from "../../mod.ts"
 import { assert } from "../deps.ts"
+import { mockUser1 } from "../mocks.ts"
 import { User } from "../models.ts"
-import { generateUsers } from "../utils.ts"
+import { generateUsers, sleep } from "../utils.ts"
 import { useDb } from "../utils.ts"
 
 Deno.test("collection - forEach", async (t) => {
@@ -25,4 +26,83 @@ Deno.test("collection - forEach", async (t) => {
       })
     },
   )
+
+  await t.step(
+    "Should limit the number of concurrently executed callbacks",
+    async () => {
+      await useDb(async (db) => {
+        const users = generateUsers(50)
+        const crs = await db.users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        let active = 0
+        let maxActive = 0
+        let count = 0
+
+        await db.users.forEach(async () => {
+          active++
+          maxActive = Math.max(maxActive, active)
+          await sleep(1)
+          active--
+          count++
+        }, { concurrency: 5 })
+
+        assert(count === users.length)
+        assert(maxActive === 5)
+      })
+    },
+  )
+
+  await t.step(
+    "Should execute callbacks sequentially in list order",
+    async () => {
+      await useDb(async (db) => {
+        for (let i = 0; i < 20; i++) {
+          const cr = await db.users.set(i, mockUser1)
+          assert(cr.ok)
+        }
+
+        const ids: unknown[] = []
+        await db.users.forEach(async (doc) => {
+          await sleep(Math.random() * 3)
+          ids.push(doc.id)
+        }, { concurrency: 1 })
+
+        assert(ids.length === 20)
+        assert(ids.every((id, i) => id === i))
+      })
+    },
+  )
+
+  await t.step(
+    "Should aggregate errors of failed callbacks",
+    async () => {
+      await useDb(async (db) => {
+        for (let i = 0; i < 10; i++) {
+          const cr = await db.users.set(i, mockUser1)
+          assert(cr.ok)
+        }
+
+        let count = 0
+        let error: unknown = null
+
+        try {
+          await db.users.forEach((doc) => {
+            count++
+            if ((doc.id as number) % 2 === 0) {
+              throw new Error("failed")
+            }
+          }, { concurrency: 3 })
+        } catch (e) {
+          error = e
+        }
+
+        assert(count === 10)
+        assert(error instanceof DocumentCallbackError)
+        assert(error instanceof AggregateError)
+        assert(error.errors.length === 5)
+        assert(error.failures.every(({ id }) => (id as number) % 2 === 0))
+      })
+    },
+  )
 })
@@ -1,6 +1,10 @@
+import { collection, kvdex, model } from "../../mod.ts"
+import type { Document, Explanation } from "../../mod.ts"
 import { assert } from "../deps.ts"
-import { generateUsers } from "../utils.ts"
-import { useDb } from "../utils.ts"
+import { mockUser1 } from "../mocks.ts"
+import type { User } from "../models.ts"
+import { generateLargeUsers, generateUsers } from "../utils.ts"
+import { useDb, useKv } from "../utils.ts"
 
 Deno.test("collection - getMany", async (t) => {
   await t.step("Should get all documents", async () => {
@@ -18,4 +22,212 @@ Deno.test("collection - getMany", async (t) => {
       )
     })
   })
+
+  await t.step("Should explain how documents were read", async () => {
+    await useDb(async (db) => {
+      const users = generateLargeUsers(50)
+      const crs = await db.users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const explanations: Explanation[] = []
+      const { result } = await db.users.getMany({
+        filter: (doc) => doc.value.age < 20,
+        explain: (e) => explanations.push(e),
+      })
+
+      assert(explanations.length === 1)
+      assert(explanations[0].type === "scan")
+      assert(explanations[0].index === undefined)
+      assert(explanations[0].selector !== undefined)
+      assert(explanations[0].scanned === users.length)
+      assert(explanations[0].returned === result.length)
+      assert(result.length === 25)
+    })
+  })
+
+  await t.step("Should get documents ordered by field", async () => {
+    await useDb(async (db) => {
+      const users = generateLargeUsers(1_200)
+      const crs = await db.users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const { result, cursor } = await db.users.getMany({
+        orderBy: { field: "username", direction: "desc" },
+      })
+
+      assert(cursor === undefined)
+      assert(result.length === users.length)
+      assert(
+        result.every((doc, i) =>
+          i === 0 || result[i - 1].value.username > doc.value.username
+        ),
+      )
+    })
+  })
+
+  await t.step("Should page through documents ordered by field", async () => {
+    await useDb(async (db) => {
+      const users = generateLargeUsers(50)
+      const crs = await db.users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const orderBy = { field: "age", direction: "desc" } as const
+      const filter = (doc: { value: User }) => doc.value.username !== "user_49"
+
+      const page1 = await db.users.getMany({ orderBy, filter, limit: 20 })
+      const page2 = await db.users.getMany({
+        orderBy,
+        filter,
+        limit: 20,
+        cursor: page1.cursor,
+      })
+      const page3 = await db.users.getMany({
+        orderBy,
+        filter,
+        limit: 20,
+        cursor: page2.cursor,
+      })
+
+      const docs = [page1, page2, page3].flatMap(({ result }) => result)
+
+      assert(page1.result.length === 20)
+      assert(page3.result.length === 9)
+      assert(page3.cursor === undefined)
+      assert(new Set(docs.map((doc) => doc.id)).size === 49)
+      assert(
+        docs.every((doc, i) =>
+          i === 0 || docs[i - 1].value.age >= doc.value.age
+        ),
+      )
+    })
+  })
+
+  await t.step(
+    "Should get first documents ordered by field beyond the sort buffer",
+    async () => {
+      await useDb(async (db) => {
+        const users = generateLargeUsers(2_100)
+        const crs = await db.users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const { result, cursor } = await db.users.getMany({
+          orderBy: { field: "username", direction: "desc" },
+          limit: 10,
+        })
+
+        const expected = users
+          .map((user) => user.username)
+          .sort()
+          .reverse()
+          .slice(0, 10)
+
+        assert(cursor !== undefined)
+        assert(result.length === 10)
+        assert(result.every((doc, i) => doc.value.username === expected[i]))
+      })
+    },
+  )
+
+  await t.step(
+    "Should page through documents ordered by field with non-Latin-1 values",
+    async () => {
+      await useDb(async (db) => {
+        const usernames = ["日本", "Ørjan", "😀", "ascii"]
+        for (const username of usernames) {
+          const cr = await db.users.add({ ...mockUser1, username })
+          assert(cr.ok)
+        }
+
+        const docs: Document<User>[] = []
+        let cursor: string | undefined = undefined
+
+        do {
+          const page: { result: Document<User>[]; cursor?: string } = await db
+            .users.getMany({
+              orderBy: { field: "username" },
+              limit: 1,
+              cursor,
+            })
+
+          docs.push(...page.result)
+          cursor = page.cursor
+        } while (cursor)
+
+        const expected = usernames.toSorted()
+        assert(docs.length === usernames.length)
+        assert(docs.every((doc, i) => doc.value.username === expected[i]))
+      })
+    },
+  )
+
+  await t.step(
+    "Should sort documents in bounded runs beyond the sort buffer",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: collection(model<User>()),
+        })
+
+        const users = generateLargeUsers(4_100)
+        const crs = await db.users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        // Record the keys of written sorted run entries
+        const sortKey = ["__kvdex__", "users", "__sort__"]
+        const runKeys: Deno.KvKey[] = []
+        const atomic = kv.atomic.bind(kv)
+
+        kv.atomic = () => {
+          const op = atomic()
+          const set = op.set.bind(op)
+          op.set = (key, value, options) => {
+            if (sortKey.every((part, i) => key[i] === part)) {
+              runKeys.push(key)
+            }
+            return set(key, value, options)
+          }
+          return op
+        }
+
+        const docs: Document<User>[] = []
+        let cursor: string | undefined = undefined
+
+        do {
+          const page: { result: Document<User>[]; cursor?: string } = await db
+            .users.getMany({
+              orderBy: { field: "age", direction: "desc" },
+              limit: 1_500,
+              cursor,
+            })
+
+          docs.push(...page.result)
+          cursor = page.cursor
+        } while (cursor)
+
+        const { result } = await db.users.getMany({
+          orderBy: { field: "age", direction: "desc" },
+        })
+
+        kv.atomic = atomic
+
+        // Runs hold at most the buffer of 2 000 documents, and are deleted after sorting
+        const remaining = await Array.fromAsync(kv.list({ prefix: sortKey }))
+        assert(runKeys.length > 0)
+        assert(runKeys.every((key) => (key.at(-1) as number) < 2_000))
+        assert(remaining.length === 0)
+
+        for (const sorted of [docs, result]) {
+          assert(sorted.length === users.length)
+          assert(new Set(sorted.map((doc) => doc.id)).size === users.length)
+          assert(
+            sorted.every((doc, i) =>
+              i === 0 || sorted[i - 1].value.age > doc.value.age ||
+              (sorted[i - 1].value.age === doc.value.age &&
+                String(sorted[i - 1].id) > String(doc.id))
+            ),
+          )
+        }
+      })
+    },
+  )
 })
@@ -0,0 +1,85 @@
+import { assert } from "../deps.ts"
+import { generateUsers, useDb } from "../utils.ts"
+
+Deno.test("collection - list", async (t) => {
+  await t.step("Should list all documents", async () => {
+    await useDb(async (db) => {
+      const users = generateUsers(1_000)
+      const crs = await db.users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const usernames = new Set<string>()
+      for await (const doc of db.users.list()) {
+        usernames.add(doc.value.username)
+      }
+
+      assert(usernames.size === users.length)
+      assert(users.every((user) => usernames.has(user.username)))
+    })
+  })
+
+  await t.step("Should list documents according to options", async () => {
+    await useDb(async (db) => {
+      const users = generateUsers(100)
+      const crs = await db.users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const docs = await Array.fromAsync(
+        db.users.list({
+          filter: (doc) => doc.value.address.city === "Bergen",
+        }),
+      )
+
+      const expected = users.filter((user) => user.address.city === "Bergen")
+      assert(docs.length === expected.length)
+      assert(docs.every((doc) => doc.value.address.city === "Bergen"))
+
+      const limited = await Array.fromAsync(db.users.list({ limit: 10 }))
+      assert(limited.length === 10)
+    })
+  })
+
+  await t.step(
+    "Should resume listing after last yielded document using cursor",
+    async () => {
+      await useDb(async (db) => {
+        const users = generateUsers(100)
+        const crs = await db.users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const iter = db.users.list()
+        assert(iter.cursor === undefined)
+
+        const ids = new Set<unknown>()
+        for await (const doc of iter) {
+          ids.add(doc.id)
+          if (ids.size === 30) {
+            break
+          }
+        }
+
+        assert(typeof iter.cursor === "string")
+
+        for await (const doc of db.users.list({ cursor: iter.cursor })) {
+          assert(!ids.has(doc.id))
+          ids.add(doc.id)
+        }
+
+        assert(ids.size === users.length)
+      })
+    },
+  )
+
+  await t.step("Should lazily list documents when iterated", async () => {
+    await useDb(async (db) => {
+      const iter = db.users.list()
+
+      const users = generateUsers(10)
+      const crs = await db.users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const docs = await Array.fromAsync(iter)
+      assert(docs.length === users.length)
+    })
+  })
+})
@@ -1,5 +1,5 @@
 import { assert } from "../deps.ts"
-import { generateUsers } from "../utils.ts"
+import { generateLargeUsers, generateUsers } from "../utils.ts"
 import { useDb } from "../utils.ts"
 
 Deno.test("collection - map", async (t) => {
@@ -22,4 +22,23 @@ Deno.test("collection - map", async (t) => {
       })
     },
   )
+
+  await t.step(
+    "Should run callback mapper function for each document in field order",
+    async () => {
+      await useDb(async (db) => {
+        const users = generateLargeUsers(50)
+        const crs = await db.users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const { result } = await db.users.map((doc) => doc.value.age, {
+          orderBy: { field: "age" },
+          concurrency: 1,
+        })
+
+        assert(result.length === users.length)
+        assert(result.every((age, i) => i === 0 || result[i - 1] <= age))
+      })
+    },
+  )
 })
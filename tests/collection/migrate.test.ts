@@ -0,0 +1,189 @@
+import { collection, kvdex, model } from "../../mod.ts"
+import type { MigrateProgress, Migration } from "../../mod.ts"
+import { assert } from "../deps.ts"
+import { useKv } from "../utils.ts"
+
+type UserV0 = {
+  name: string
+  age: number
+}
+
+type User = {
+  username: string
+  age: number
+  active: boolean
+}
+
+const migrations: Migration[] = [
+  ({ name, ...rest }) => ({ ...rest, username: name }),
+  (value) => ({ ...value, active: true }),
+]
+
+function createDbs(kv: Deno.Kv, writeBackMigrations?: boolean) {
+  const oldDb = kvdex(kv, {
+    users: collection(model<UserV0>()),
+  })
+
+  const db = kvdex(kv, {
+    users: collection(model<User>(), {
+      migrations,
+      writeBackMigrations,
+    }),
+  })
+
+  return { oldDb, db }
+}
+
+Deno.test("collection - migrate", async (t) => {
+  await t.step("Should lazily migrate documents when read", async () => {
+    await useKv(async (kv) => {
+      const { oldDb, db } = createDbs(kv)
+
+      const cr = await oldDb.users.set("id", { name: "oliver", age: 24 })
+      assert(cr.ok)
+
+      const doc = await db.users.find("id")
+      assert(doc?.value.username === "oliver")
+      assert(doc.value.age === 24)
+      assert(doc.value.active === true)
+      assert(!("__version__" in doc.value))
+      assert(doc.versionstamp === cr.versionstamp)
+
+      const { result } = await db.users.getMany()
+      assert(result.length === 1)
+      assert(result[0].value.username === "oliver")
+
+      const oldDoc = await oldDb.users.find("id")
+      assert(oldDoc?.value.name === "oliver")
+    })
+  })
+
+  await t.step(
+    "Should write back lazily migrated documents if enabled",
+    async () => {
+      await useKv(async (kv) => {
+        const { oldDb, db } = createDbs(kv, true)
+
+        const cr = await oldDb.users.set("id", { name: "oliver", age: 24 })
+        assert(cr.ok)
+
+        const doc = await db.users.find("id")
+        assert(doc?.value.username === "oliver")
+        assert(doc.versionstamp !== cr.versionstamp)
+
+        const entry = await kv.get<Record<string, unknown>>(
+          ["__kvdex__", "users", "__id__", "id"],
+        )
+        assert(entry.value?.username === "oliver")
+        assert(entry.value?.__version__ === migrations.length)
+        assert(entry.versionstamp === doc.versionstamp)
+      })
+    },
+  )
+
+  await t.step(
+    "Should store new documents at current version without migrating",
+    async () => {
+      await useKv(async (kv) => {
+        let count = 0
+
+        const db = kvdex(kv, {
+          users: collection(model<User>(), {
+            migrations: [
+              (value) => {
+                count++
+                return value
+              },
+            ],
+          }),
+        })
+
+        const cr = await db.users.add({
+          username: "oliver",
+          age: 24,
+          active: false,
+        })
+        assert(cr.ok)
+
+        const doc = await db.users.find(cr.id)
+        assert(doc?.value.active === false)
+        assert(count === 0)
+      })
+    },
+  )
+
+  await t.step(
+    "Should eagerly migrate all outdated documents and report progress",
+    async () => {
+      await useKv(async (kv) => {
+        const { oldDb, db } = createDbs(kv)
+
+        for (let i = 0; i < 10; i++) {
+          const cr = await oldDb.users.set(i, { name: `user${i}`, age: i })
+          assert(cr.ok)
+        }
+
+        const cr = await db.users.set(10, {
+          username: "user10",
+          age: 10,
+          active: false,
+        })
+        assert(cr.ok)
+
+        const progress: MigrateProgress[] = []
+        const result = await db.users.migrate({
+          onProgress: (p) => progress.push(p),
+        })
+
+        assert(result.ok)
+        assert(result.cursor === undefined)
+        assert(result.total === 11)
+        assert(result.processed === 11)
+        assert(result.migrated === 10)
+        assert(result.failed === 0)
+        assert(progress.length === 11)
+        assert(progress[0].processed === 1)
+        assert(progress[10].migrated === 10)
+
+        const entries = await Array.fromAsync(
+          kv.list<Record<string, unknown>>({
+            prefix: ["__kvdex__", "users", "__id__"],
+          }),
+        )
+        assert(entries.every((e) => e.value.__version__ === 2))
+        assert(entries.every((e) => typeof e.value.username === "string"))
+
+        const result2 = await db.users.migrate()
+        assert(result2.migrated === 0)
+      })
+    },
+  )
+
+  await t.step("Should migrate documents in pages", async () => {
+    await useKv(async (kv) => {
+      const { oldDb, db } = createDbs(kv)
+
+      for (let i = 0; i < 10; i++) {
+        const cr = await oldDb.users.set(i, { name: `user${i}`, age: i })
+        assert(cr.ok)
+      }
+
+      let cursor: string | undefined = undefined
+      let pages = 0
+      let migrated = 0
+
+      do {
+        const result: Awaited<ReturnType<typeof db.users.migrate>> = await db
+          .users.migrate({ limit: 4, cursor })
+
+        assert(result.ok)
+        cursor = result.cursor
+        migrated += result.migrated
+        pages++
+      } while (cursor)
+
+      assert(pages === 3)
+      assert(migrated === 10)
+    })
+  })
+})
@@ -0,0 +1,217 @@
+import { collection, InvalidPaginationError, kvdex, model } from "../../mod.ts"
+import { assert } from "../deps.ts"
+import type { User } from "../models.ts"
+import { generateLargeUsers, useKv } from "../utils.ts"
+
+async function useUsersDb(
+  fn: (db: ReturnType<typeof createUsersDb>) => unknown,
+) {
+  await useKv(async (kv) => {
+    const db = createUsersDb(kv)
+    const users = generateLargeUsers(50)
+
+    for (let i = 0; i < users.length; i++) {
+      const cr = await db.users.set(i, users[i])
+      assert(cr.ok)
+    }
+
+    await fn(db)
+  })
+}
+
+function createUsersDb(kv: Deno.Kv) {
+  return kvdex(kv, {
+    users: collection(model<User>()),
+  })
+}
+
+Deno.test("collection - paginate", async (t) => {
+  await t.step("Should get full pages of filtered documents", async () => {
+    await useUsersDb(async (db) => {
+      const filter = (doc: { value: User }) => doc.value.age >= 20
+
+      const page1 = await db.users.paginate({ pageSize: 10, filter })
+      const page2 = await db.users.paginate({
+        pageToken: page1.nextPageToken,
+        filter,
+      })
+      const page3 = await db.users.paginate({
+        pageSize: 10,
+        pageToken: page2.nextPageToken,
+        filter,
+      })
+
+      assert(page1.result.length === 10)
+      assert(page2.result.length === 10)
+      assert(page3.result.length === 5)
+      assert(page1.previousPageToken === undefined)
+      assert(page3.nextPageToken === undefined)
+
+      const ids = [page1, page2, page3].flatMap(({ result }) =>
+        result.map((doc) => doc.id)
+      )
+
+      assert(ids.length === 25)
+      assert(ids.every((id, i) => id === i + 25))
+    })
+  })
+
+  await t.step("Should page backward using previous page tokens", async () => {
+    await useUsersDb(async (db) => {
+      const page1 = await db.users.paginate({ pageSize: 20 })
+      const page2 = await db.users.paginate({
+        pageToken: page1.nextPageToken,
+      })
+      const page3 = await db.users.paginate({
+        pageToken: page2.nextPageToken,
+      })
+
+      const back2 = await db.users.paginate({
+        pageToken: page3.previousPageToken,
+      })
+      const back1 = await db.users.paginate({
+        pageToken: back2.previousPageToken,
+      })
+
+      assert(page3.result.length === 10)
+      assert(back2.result.length === page2.result.length)
+      assert(back2.result.every((doc, i) => doc.id === page2.result[i].id))
+      assert(back1.result.every((doc, i) => doc.id === page1.result[i].id))
+      assert(back1.result.length === 20)
+      assert(back1.previousPageToken === undefined)
+
+      const next = await db.users.paginate({
+        pageToken: back1.nextPageToken,
+      })
+
+      assert(next.result.length === page2.result.length)
+      assert(next.result.every((doc, i) => doc.id === page2.result[i].id))
+    })
+  })
+
+  await t.step("Should paginate in reverse order", async () => {
+    await useUsersDb(async (db) => {
+      const page1 = await db.users.paginate({ pageSize: 30, reverse: true })
+      const page2 = await db.users.paginate({
+        pageToken: page1.nextPageToken,
+        reverse: true,
+      })
+
+      const ids = [...page1.result, ...page2.result].map((doc) => doc.id)
+
+      assert(page2.result.length === 20)
+      assert(page2.nextPageToken === undefined)
+      assert(ids.every((id, i) => id === 49 - i))
+
+      const back = await db.users.paginate({
+        pageToken: page2.previousPageToken,
+      })
+
+      assert(back.result.length === page1.result.length)
+      assert(back.result.every((doc, i) => doc.id === page1.result[i].id))
+    })
+  })
+
+  await t.step(
+    "Should reject modified and mismatched page tokens",
+    async () => {
+      await useUsersDb(async (db) => {
+        const { nextPageToken } = await db.users.paginate({ pageSize: 10 })
+        assert(nextPageToken !== undefined)
+
+        const [payload, digest] = nextPageToken.split(".")
+        const data = JSON.parse(atob(payload))
+        const forged = btoa(JSON.stringify({ ...data, pageSize: 50 }))
+          .replace(/=+$/, "")
+
+        const errors = await Promise.allSettled([
+          db.users.paginate({ pageToken: `${forged}.${digest}` }),
+          db.users.paginate({ pageToken: "invalid" }),
+          db.users.paginate({ pageToken: nextPageToken, pageSize: 20 }),
+          db.users.paginate({ pageToken: nextPageToken, reverse: true }),
+          db.users.paginate({ pageSize: 0 }),
+        ])
+
+        assert(
+          errors.every((e) =>
+            e.status === "rejected" &&
+            e.reason instanceof InvalidPaginationError
+          ),
+        )
+      })
+    },
+  )
+
+  await t.step(
+    "Should reject page tokens with a recomputed plain digest",
+    async () => {
+      await useUsersDb(async (db) => {
+        const { nextPageToken } = await db.users.paginate({ pageSize: 10 })
+        assert(nextPageToken !== undefined)
+
+        const [payload] = nextPageToken.split(".")
+        const data = JSON.parse(atob(payload))
+        const forgedData = JSON.stringify({ ...data, pageSize: 50 })
+
+        const digest = await crypto.subtle.digest(
+          "SHA-256",
+          new TextEncoder().encode(
+            `[["string","__kvdex__"],["string","users"]]${forgedData}`,
+          ),
+        )
+
+        const encode = (str: string) =>
+          btoa(str).replaceAll("+", "-").replaceAll("/", "_").replace(/=+$/, "")
+
+        const forged = `${encode(forgedData)}.${
+          encode(String.fromCharCode(...new Uint8Array(digest)))
+        }`
+
+        let assertion = false
+
+        await db.users.paginate({ pageToken: forged }).catch((e) =>
+          assertion = e instanceof InvalidPaginationError
+        )
+
+        assert(assertion)
+      })
+    },
+  )
+
+  await t.step(
+    "Should only accept page tokens signed with the same secret",
+    async () => {
+      await useKv(async (kv) => {
+        const db1 = kvdex(kv, {
+          users: collection(model<User>(), { pageTokenSecret: "secret" }),
+        })
+
+        const db2 = kvdex(kv, {
+          users: collection(model<User>(), { pageTokenSecret: "secret" }),
+        })
+
+        const db3 = kvdex(kv, {
+          users: collection(model<User>(), { pageTokenSecret: "other" }),
+        })
+
+        const crs = await db1.users.addMany(generateLargeUsers(20))
+        assert(crs.every((cr) => cr.ok))
+
+        const { nextPageToken } = await db1.users.paginate({ pageSize: 10 })
+        assert(nextPageToken !== undefined)
+
+        const page = await db2.users.paginate({ pageToken: nextPageToken })
+        assert(page.result.length === 10)
+
+        let assertion = false
+
+        await db3.users.paginate({ pageToken: nextPageToken }).catch((e) =>
+          assertion = e instanceof InvalidPaginationError &&
+            e.message.includes("different page token secret")
+        )
+
+        assert(assertion)
+      })
+    },
+  )
+})
@@ -0,0 +1,139 @@
+import { InvalidQueryError } from "../../mod.ts"
+import { assert, assertThrows } from "../deps.ts"
+import { generateLargeUsers, useDb } from "../utils.ts"
+
+Deno.test("collection - query", async (t) => {
+  await t.step("Should get documents matching all conditions", async () => {
+    await useDb(async (db) => {
+      const users = generateLargeUsers(50)
+      const crs = await db.users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const { result, cursor } = await db.users
+        .query()
+        .where("age", ">=", 20)
+        .where("age", "<", 22)
+        .where("address.city", "==", "Bergen")
+        .get()
+
+      const expected = users.filter((user) =>
+        user.age >= 20 && user.age < 22 && user.address.city === "Bergen"
+      )
+
+      assert(result.length === expected.length)
+      assert(result.every((doc) =>
+        doc.value.age >= 20 && doc.value.age < 22 &&
+        doc.value.address.city === "Bergen"
+      ))
+      assert(cursor === undefined)
+    })
+  })
+
+  await t.step('Should get documents using "in" and "!="', async () => {
+    await useDb(async (db) => {
+      const users = generateLargeUsers(50)
+      const crs = await db.users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const { result } = await db.users
+        .query()
+        .where("age", "in", [15, 16, 30])
+        .where("username", "!=", "user_0")
+        .get()
+
+      assert(result.length === 9)
+      assert(
+        result.every((doc) =>
+          [15, 16].includes(doc.value.age) && doc.value.username !== "user_0"
+        ),
+      )
+    })
+  })
+
+  await t.step("Should order documents by field", async () => {
+    await useDb(async (db) => {
+      const users = generateLargeUsers(50)
+      const crs = await db.users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const { result } = await db.users
+        .query()
+        .orderBy("age", "desc")
+        .get()
+
+      assert(result.length === users.length)
+      assert(
+        result.every((doc, i) =>
+          i === 0 || result[i - 1].value.age >= doc.value.age
+        ),
+      )
+    })
+  })
+
+  await t.step("Should page through documents using cursor", async () => {
+    await useDb(async (db) => {
+      const users = generateLargeUsers(50)
+      const crs = await db.users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const query = db.users.query().where("age", ">", 16).limit(7)
+      const usernames = new Set<string>()
+
+      let cursor: string | undefined = undefined
+      do {
+        const page: Awaited<ReturnType<typeof query.get>> = await query
+          .cursor(cursor)
+          .get()
+
+        assert(page.result.length <= 7)
+        page.result.forEach((doc) => usernames.add(doc.value.username))
+        cursor = page.cursor
+      } while (cursor)
+
+      assert(usernames.size === 40)
+    })
+  })
+
+  await t.step("Should page through ordered documents", async () => {
+    await useDb(async (db) => {
+      const users = generateLargeUsers(50)
+      const crs = await db.users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const query = db.users.query().orderBy("username").limit(20)
+
+      const page1 = await query.get()
+      const page2 = await query.cursor(page1.cursor).get()
+      const page3 = await query.cursor(page2.cursor).get()
+
+      const usernames = [page1, page2, page3]
+        .flatMap(({ result }) => result)
+        .map((doc) => doc.value.username)
+
+      assert(page1.result.length === 20)
+      assert(page3.result.length === 10)
+      assert(page3.cursor === undefined)
+      assert(usernames.length === users.length)
+      assert(
+        usernames.every((username, i) =>
+          i === 0 || usernames[i - 1] < username
+        ),
+      )
+    })
+  })
+
+  await t.step("Should throw on invalid limit and cursor", async () => {
+    await useDb(async (db) => {
+      assertThrows(() => db.users.query().limit(0), InvalidQueryError)
+
+      let error: unknown = null
+      try {
+        await db.users.query().cursor("invalid").get()
+      } catch (e) {
+        error = e
+      }
+
+      assert(error instanceof InvalidQueryError)
+    })
+  })
+})
@@ -0,0 +1,59 @@
+import { collection, kvdex, model } from "../../mod.ts"
+import { assert } from "../deps.ts"
+import type { User } from "../models.ts"
+import { generateLargeUsers, useKv } from "../utils.ts"
+
+Deno.test("collection - recount", async (t) => {
+  await t.step(
+    "Should recount documents and repair counters",
+    async () => {
+      await useKv(async (kv) => {
+        const db1 = kvdex(kv, {
+          users: collection(model<User>()),
+        })
+
+        const db2 = kvdex(kv, {
+          users: collection(model<User>(), { counter: { shards: 2 } }),
+        })
+
+        const users = generateLargeUsers(20)
+        const crs = await db1.users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const cr = await db2.users.add(users[0])
+        assert(cr.ok)
+        assert(await db2.users.count() === 1)
+
+        const count = await db2.users.recount()
+        assert(count === 21)
+        assert(await db2.users.count() === 21)
+
+        await db2.users.delete(cr.id)
+        assert(await db2.users.count() === 20)
+      })
+    },
+  )
+
+  await t.step(
+    "Should only count documents if counters are not maintained",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: collection(model<User>()),
+        })
+
+        const users = generateLargeUsers(10)
+        const crs = await db.users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const count = await db.users.recount()
+        assert(count === 10)
+
+        const iter = kv.list({ prefix: [] })
+        for await (const { key } of iter) {
+          assert(!key.includes("__counter__"))
+        }
+      })
+    },
+  )
+})
@@ -46,4 +46,29 @@ Deno.test("collection - set", async (t) => {
       assert(assertion)
     })
   })
+
+  await t.step(
+    "Should only overwrite existing document at expected versionstamp",
+    async () => {
+      await useDb(async (db) => {
+        const id = "id"
+
+        const cr1 = await db.users.set(id, mockUser1)
+        assert(cr1.ok)
+
+        const cr2 = await db.users.set(id, mockUser2, {
+          ifVersionstamp: "00000000000000000000",
+        })
+        assert(!cr2.ok)
+
+        const cr3 = await db.users.set(id, mockUser2, {
+          ifVersionstamp: cr1.versionstamp,
+        })
+        assert(cr3.ok)
+
+        const doc = await db.users.find(id)
+        assert(doc?.value.username === mockUser2.username)
+      })
+    },
+  )
 })
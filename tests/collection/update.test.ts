@@ -1,4 +1,4 @@
-import { collection, kvdex, model } from "../../mod.ts"
+import { collection, InvalidJsonPatchError, kvdex, model } from "../../mod.ts"
 import { assert } from "../deps.ts"
 import { mockUser1, mockUser2, mockUserInvalid } from "../mocks.ts"
 import { useDb, useKv } from "../utils.ts"
@@ -107,4 +107,169 @@ Deno.test("collection - update", async (t) => {
       assert(assertion)
     })
   })
+
+  await t.step(
+    "Should only update document at expected versionstamp",
+    async () => {
+      await useDb(async (db) => {
+        const cr1 = await db.users.add(mockUser1)
+        assert(cr1.ok)
+
+        const cr2 = await db.users.update(cr1.id, { age: 1 })
+        assert(cr2.ok)
+
+        const cr3 = await db.users.update(cr1.id, { age: 2 }, {
+          ifVersionstamp: cr1.versionstamp,
+        })
+        assert(!cr3.ok)
+
+        const cr4 = await db.users.update(cr1.id, { age: 3 }, {
+          ifVersionstamp: cr2.versionstamp,
+        })
+        assert(cr4.ok)
+
+        const doc = await db.users.find(cr1.id)
+        assert(doc?.value.age === 3)
+      })
+    },
+  )
+
+  await t.step("Should update document using deep merge", async () => {
+    await useKv(async (kv) => {
+      type Data = {
+        settings: {
+          theme: string
+          language: string
+        }
+        tags: string[]
+        roles: Set<string>
+        scores: Map<string, number>
+      }
+
+      const db = kvdex(kv, {
+        data: collection(model<Data>()),
+      })
+
+      const cr = await db.data.add({
+        settings: { theme: "light", language: "en" },
+        tags: ["a"],
+        roles: new Set(["user"]),
+        scores: new Map([["x", 1]]),
+      })
+      assert(cr.ok)
+
+      const updateCr = await db.data.update(cr.id, {
+        settings: { theme: "dark" },
+        tags: ["b"],
+        roles: new Set(["admin"]),
+        scores: new Map([["y", 2]]),
+      }, { strategy: "deep" })
+      assert(updateCr.ok)
+
+      const doc = await db.data.find(cr.id)
+      assert(doc?.value.settings.theme === "dark")
+      assert(doc?.value.settings.language === "en")
+      assert(JSON.stringify(doc?.value.tags) === JSON.stringify(["a", "b"]))
+      assert(doc?.value.roles.has("user") && doc?.value.roles.has("admin"))
+      assert(doc?.value.scores.get("x") === 1)
+      assert(doc?.value.scores.get("y") === 2)
+    })
+  })
+
+  await t.step("Should update document by replacing value", async () => {
+    await useDb(async (db) => {
+      const cr = await db.users.add(mockUser1)
+      assert(cr.ok)
+
+      const updateCr = await db.users.update(cr.id, mockUser2, {
+        strategy: "replace",
+      })
+      assert(updateCr.ok)
+
+      const doc = await db.users.find(cr.id)
+      assert(doc?.value.username === mockUser2.username)
+      assert(doc?.value.address.city === mockUser2.address.city)
+    })
+  })
+
+  await t.step("Should update document using merge patch", async () => {
+    await useDb(async (db) => {
+      const cr = await db.users.add(mockUser1)
+      assert(cr.ok)
+
+      const updateCr = await db.users.update(cr.id, {
+        address: {
+          city: "Oslo",
+          street: null,
+        },
+      }, { strategy: "merge-patch" })
+      assert(updateCr.ok)
+
+      const doc = await db.users.find(cr.id)
+      assert(doc?.value.username === mockUser1.username)
+      assert(doc?.value.address.country === mockUser1.address.country)
+      assert(doc?.value.address.city === "Oslo")
+      assert(doc !== null && !("street" in doc.value.address))
+    })
+  })
+
+  await t.step("Should update document using JSON patch", async () => {
+    await useKv(async (kv) => {
+      type Data = {
+        name: string
+        tags: string[]
+        meta?: { views: number }
+      }
+
+      const db = kvdex(kv, {
+        data: collection(model<Data>()),
+      })
+
+      const cr = await db.data.add({ name: "a", tags: ["x", "y"] })
+      assert(cr.ok)
+
+      const updateCr = await db.data.update(cr.id, [
+        { op: "test", path: "/name", value: "a" },
+        { op: "replace", path: "/name", value: "b" },
+        { op: "add", path: "/tags/-", value: "z" },
+        { op: "remove", path: "/tags/0" },
+        { op: "add", path: "/meta", value: { views: 1 } },
+        { op: "copy", from: "/tags/0", path: "/tags/0" },
+      ], { strategy: "json-patch" })
+      assert(updateCr.ok)
+
+      const doc = await db.data.find(cr.id)
+      assert(doc?.value.name === "b")
+      assert(
+        JSON.stringify(doc?.value.tags) === JSON.stringify(["y", "y", "z"]),
+      )
+      assert(doc?.value.meta?.views === 1)
+    })
+  })
+
+  await t.step(
+    "Should fail to update document using failing JSON patch",
+    async () => {
+      await useDb(async (db) => {
+        const cr = await db.users.add(mockUser1)
+        assert(cr.ok)
+
+        let assertion = false
+
+        try {
+          await db.users.update(cr.id, [
+            { op: "replace", path: "/username", value: "updated" },
+            { op: "test", path: "/age", value: -1 },
+          ], { strategy: "json-patch" })
+        } catch (e) {
+          assertion = e instanceof InvalidJsonPatchError
+        }
+
+        assert(assertion)
+
+        const doc = await db.users.find(cr.id)
+        assert(doc?.value.username === mockUser1.username)
+      })
+    },
+  )
 })
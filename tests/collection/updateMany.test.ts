@@ -1,4 +1,11 @@
-import { collection, CommitResult, kvdex, model } from "../../mod.ts"
+import {
+  collection,
+  CommitResult,
+  DocumentCallbackError,
+  kvdex,
+  model,
+  ValidationError,
+} from "../../mod.ts"
 import { assert } from "../deps.ts"
 import { mockUser1, mockUserInvalid } from "../mocks.ts"
 import { User } from "../models.ts"
@@ -140,4 +147,27 @@ Deno.test("collection - updateMany", async (t) => {
       assert(assertion)
     })
   })
+
+  await t.step(
+    "Should aggregate validation errors of failed updates",
+    async () => {
+      await useDb(async (db) => {
+        const users = generateUsers(10)
+        const crs = await db.z_users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        let error: unknown = null
+
+        try {
+          await db.z_users.updateMany(mockUserInvalid, { concurrency: 2 })
+        } catch (e) {
+          error = e
+        }
+
+        assert(error instanceof DocumentCallbackError)
+        assert(error.failures.length === users.length)
+        assert(error.errors.every((e) => e instanceof ValidationError))
+      })
+    },
+  )
 })
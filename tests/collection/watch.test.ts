@@ -0,0 +1,186 @@
+import { collection, kvdex, type KvId, model } from "../../mod.ts"
+import { assert } from "../deps.ts"
+import type { User } from "../models.ts"
+import { mockUser1, mockUser2 } from "../mocks.ts"
+import { sleep, useKv } from "../utils.ts"
+
+Deno.test("collection - watch", async (t) => {
+  await t.step(
+    "Should emit insert, update and delete events of watched ids",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: collection(model<User>()),
+        })
+
+        const reader = db.users.watch(["id1", "id2"]).getReader()
+
+        await db.users.set("id1", mockUser1)
+        const insert = await reader.read()
+        assert(insert.value?.type === "insert")
+        assert(insert.value.id === "id1")
+        assert(insert.value.oldDoc === null)
+        assert(insert.value.newDoc.value.username === mockUser1.username)
+
+        await db.users.update("id1", { age: 100 })
+        const update = await reader.read()
+        assert(update.value?.type === "update")
+        assert(update.value.oldDoc.value.age === mockUser1.age)
+        assert(update.value.newDoc.value.age === 100)
+
+        await db.users.set("id3", mockUser2)
+        await db.users.delete("id1")
+        const del = await reader.read()
+        assert(del.value?.type === "delete")
+        assert(del.value.id === "id1")
+        assert(del.value.oldDoc.value.age === 100)
+        assert(del.value.newDoc === null)
+
+        await reader.cancel()
+      })
+    },
+  )
+
+  await t.step(
+    "Should emit events of watched ids by polling",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: collection(model<User>()),
+        })
+
+        const reader = db.users.watch("id1", { poll: true, interval: 10 })
+          .getReader()
+
+        await db.users.set("id1", mockUser1)
+        const insert = await reader.read()
+        assert(insert.value?.type === "insert")
+
+        await db.users.delete("id1")
+        const del = await reader.read()
+        assert(del.value?.type === "delete")
+
+        await reader.cancel()
+      })
+    },
+  )
+
+  await t.step(
+    "Should emit events of documents starting and stopping to match filter",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: collection(model<User>()),
+        })
+
+        const reader = db.users.watch((doc) => doc.value.age < 50, {
+          interval: 10,
+        }).getReader()
+
+        await db.users.set("id1", { ...mockUser1, age: 100 })
+        await db.users.set("id2", { ...mockUser2, age: 20 })
+        const insert = await reader.read()
+        assert(insert.value?.type === "insert")
+        assert(insert.value.id === "id2")
+
+        await db.users.update("id2", { age: 60 })
+        const del = await reader.read()
+        assert(del.value?.type === "delete")
+        assert(del.value.id === "id2")
+        assert(del.value.oldDoc.value.age === 20)
+
+        await db.users.update("id2", { age: 70 })
+        await db.users.update("id1", { age: 10 })
+        const next = await reader.read()
+        assert(next.value?.type === "insert")
+        assert(next.value.id === "id1")
+
+        await db.users.update("id1", { age: 30 })
+        const update = await reader.read()
+        assert(update.value?.type === "update")
+        assert(update.value.oldDoc.value.age === 10)
+        assert(update.value.newDoc.value.age === 30)
+
+        await reader.cancel()
+      })
+    },
+  )
+
+  await t.step(
+    "Should only read changed documents when polling",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: collection(model<User>()),
+        })
+
+        await db.users.set("id1", mockUser1)
+        await db.users.set("id2", mockUser2)
+
+        // Record ids of read documents
+        const reads: KvId[][] = []
+        const findMany = db.users.findMany.bind(db.users)
+        db.users.findMany = (ids, options) => {
+          reads.push(ids)
+          return findMany(ids, options)
+        }
+
+        const reader = db.users.watch(undefined, { interval: 10 }).getReader()
+
+        // Wait for the initial read
+        while (reads.length === 0) {
+          await sleep(1)
+        }
+
+        await db.users.update("id2", { age: 60 })
+        const update = await reader.read()
+        assert(update.value?.type === "update")
+        assert(update.value.oldDoc.value.age === mockUser2.age)
+        assert(update.value.newDoc.value.age === 60)
+
+        assert(reads.length === 2)
+        assert(reads[0].length === 2)
+        assert(reads[1].length === 1)
+        assert(reads[1][0] === "id2")
+
+        await reader.cancel()
+      })
+    },
+  )
+
+  await t.step(
+    "Should close the stream when the signal is aborted",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: collection(model<User>()),
+        })
+
+        const controller = new AbortController()
+        const stream1 = db.users.watch("id1", { signal: controller.signal })
+        const stream2 = db.users.watch(undefined, {
+          signal: controller.signal,
+          interval: 10,
+        })
+
+        await db.users.set("id1", mockUser1)
+
+        const events = []
+        for await (const event of stream1) {
+          events.push(event)
+          controller.abort()
+        }
+
+        assert(events.length === 1)
+        assert(events[0].type === "insert")
+
+        const events2 = []
+        for await (const event of stream2) {
+          events2.push(event)
+        }
+
+        assert(events2.length <= 1)
+      })
+    },
+  )
+})
@@ -56,4 +56,35 @@ Deno.test("collection - write", async (t) => {
       })
     },
   )
+
+  await t.step(
+    "Should only write document at expected versionstamp",
+    async () => {
+      await useDb(async (db) => {
+        const id = "id"
+
+        const cr1 = await db.users.write(id, mockUser1)
+        assert(cr1.ok)
+
+        const cr2 = await db.users.write(id, mockUser2)
+        assert(cr2.ok)
+
+        const cr3 = await db.users.write(id, mockUser1, {
+          ifVersionstamp: cr1.versionstamp,
+        })
+        assert(!cr3.ok)
+
+        const doc1 = await db.users.find(id)
+        assert(doc1?.value.username === mockUser2.username)
+
+        const cr4 = await db.users.write(id, mockUser1, {
+          ifVersionstamp: cr2.versionstamp,
+        })
+        assert(cr4.ok)
+
+        const doc2 = await db.users.find(id)
+        assert(doc2?.value.username === mockUser1.username)
+      })
+    },
+  )
 })
@@ -255,6 +255,44 @@ Deno.test("db - atomic", async (t) => {
     })
   })
 
+  await t.step("Should update document using update function", async () => {
+    await useDb(async (db) => {
+      const cr1 = await db.users.add(mockUser1)
+      assert(cr1.ok)
+
+      const cr2 = await db
+        .atomic((schema) => schema.users)
+        .updateWith(cr1.id, (user) => ({ ...user, age: user.age + 1 }))
+        .add(mockUser2)
+        .commit()
+
+      assert(cr2.ok)
+
+      const doc = await db.users.find(cr1.id)
+      const count = await db.users.count()
+      assert(doc?.value.age === mockUser1.age + 1)
+      assert(count === 2)
+    })
+  })
+
+  await t.step(
+    "Should fail operation when updating non-existing document",
+    async () => {
+      await useDb(async (db) => {
+        const cr = await db
+          .atomic((schema) => schema.users)
+          .updateWith("id", (user) => user)
+          .add(mockUser1)
+          .commit()
+
+        assert(!cr.ok)
+
+        const count = await db.users.count()
+        assert(count === 0)
+      })
+    },
+  )
+
   await t.step("Should enqueue message with string data", async () => {
     await useKv(async (kv) => {
       const data = "data"
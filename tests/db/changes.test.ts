@@ -0,0 +1,312 @@
+import {
+  collection,
+  indexableCollection,
+  InvalidChangesOptionsError,
+  kvdex,
+  model,
+} from "../../mod.ts"
+import { assert } from "../deps.ts"
+import type { User } from "../models.ts"
+import { mockUser1, mockUser2 } from "../mocks.ts"
+import { sleep, useKv } from "../utils.ts"
+
+const mockUser3: User = { ...mockUser2, username: "user3" }
+
+function createChangesDb(kv: Deno.Kv) {
+  return kvdex(kv, {
+    numbers: collection(model<number>()),
+    users: collection(model<User>(), { changelog: true }),
+    i_users: indexableCollection(model<User>(), {
+      indices: {
+        username: "primary",
+        age: "secondary",
+      },
+      changelog: true,
+    }),
+  })
+}
+
+Deno.test("db - changes", async (t) => {
+  await t.step(
+    "Should record document writes in versionstamp order",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createChangesDb(kv)
+
+        await db.numbers.add(10)
+        const cr1 = await db.users.set("id1", mockUser1)
+        const cr2 = await db.users.update("id1", { age: 100 })
+        await db.users.delete("id1")
+        await db.users.delete("id2")
+        assert(cr1.ok && cr2.ok)
+
+        const { changes, versionstamp } = await db.changes.since(null)
+        assert(changes.length === 3)
+        assert(changes.every((change) => change.collection.join() === "users"))
+        assert(changes[0].type === "set")
+        assert(changes[0].versionstamp === cr1.versionstamp)
+        assert((changes[0].value as User).username === mockUser1.username)
+        assert(changes[1].type === "set")
+        assert(changes[1].versionstamp === cr2.versionstamp)
+        assert((changes[1].value as User).age === 100)
+        assert(changes[2].type === "delete")
+        assert(changes[2].value === null)
+        assert(versionstamp === changes[2].versionstamp)
+
+        const next = await db.changes.since(cr1.versionstamp)
+        assert(next.changes.length === 2)
+
+        const none = await db.changes.since(versionstamp)
+        assert(none.changes.length === 0)
+        assert(none.versionstamp === versionstamp)
+      })
+    },
+  )
+
+  await t.step(
+    "Should record values without schema version",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: collection(model<User>(), {
+            changelog: true,
+            migrations: [(value) => value],
+          }),
+        })
+
+        await db.users.set("id1", mockUser1)
+
+        const { changes } = await db.changes.since(null)
+        assert(changes.length === 1)
+        assert(!Object.hasOwn(changes[0].value as User, "__version__"))
+      })
+    },
+  )
+
+  await t.step(
+    "Should record writes of indexable collections and atomic operations",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createChangesDb(kv)
+
+        await db.i_users.set("id1", mockUser1)
+        await db.i_users.updateByPrimaryIndex("username", mockUser1.username, {
+          age: 50,
+        })
+        await db.i_users.deleteByPrimaryIndex("username", mockUser1.username)
+
+        const cr = await db
+          .atomic((schema) => schema.users)
+          .set("id2", mockUser2)
+          .set("id3", mockUser3)
+          .commit()
+
+        assert(cr.ok)
+
+        await db
+          .atomic((schema) => schema.users)
+          .updateWith("id2", (user) => ({ ...user, age: 1 }))
+          .delete("id3")
+          .delete("id4")
+          .commit()
+
+        const { changes } = await db.changes.since(null)
+        assert(changes.length === 7)
+        assert(
+          changes.slice(0, 3).every((c) => c.collection.join() === "i_users"),
+        )
+        assert(changes[2].type === "delete")
+        assert(changes[3].versionstamp === cr.versionstamp)
+        assert(changes[4].versionstamp === cr.versionstamp)
+        assert(changes[5].versionstamp === changes[6].versionstamp)
+        assert(
+          changes.slice(5).some((c) => c.type === "delete" && c.id === "id3"),
+        )
+      })
+    },
+  )
+
+  await t.step(
+    "Should limit changes without splitting atomic operations",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createChangesDb(kv)
+
+        await db
+          .atomic((schema) => schema.users)
+          .set("id1", mockUser1)
+          .set("id2", mockUser2)
+          .commit()
+
+        await db.users.set("id3", mockUser3)
+
+        const page1 = await db.changes.since(null, { limit: 1 })
+        assert(page1.changes.length === 2)
+
+        const page2 = await db.changes.since(page1.versionstamp, { limit: 1 })
+        assert(page2.changes.length === 1)
+        assert(page2.changes[0].id === "id3")
+      })
+    },
+  )
+
+  await t.step(
+    "Should reject limits below 1",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createChangesDb(kv)
+
+        await db.users.set("id1", mockUser1)
+
+        for (const limit of [0, -1, 0.5]) {
+          let assertion = false
+
+          await db.changes.since(null, { limit }).catch((e) =>
+            assertion = e instanceof InvalidChangesOptionsError
+          )
+
+          assert(assertion)
+        }
+      })
+    },
+  )
+
+  await t.step(
+    "Should read changes written with an older timestamp after a checkpoint",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createChangesDb(kv)
+
+        await db.users.set("id1", mockUser1)
+        const read1 = await db.changes.read("search")
+        assert(read1.changes.length === 1)
+        await db.changes.checkpoint("search", read1.versionstamp)
+
+        // Write change with a clock an hour behind
+        const now = Date.now
+        const time = now() - 60 * 60 * 1_000
+
+        try {
+          Date.now = () => time
+          await db.users.set("id2", mockUser2)
+        } finally {
+          Date.now = now
+        }
+
+        const read2 = await db.changes.read("search")
+        assert(read2.changes.length === 1)
+        assert(read2.changes[0].id === "id2")
+        assert(read2.changes[0].timestamp === time)
+      })
+    },
+  )
+
+  await t.step(
+    "Should only read entries after the versionstamp up to the limit",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createChangesDb(kv)
+
+        for (let i = 0; i < 5; i++) {
+          await db.users.set(`id${i}`, mockUser1)
+        }
+
+        // Order pending entries
+        await db.changes.since(null, { limit: 1 })
+
+        // Count read change log entries
+        const list = kv.list.bind(kv)
+        let reads = 0
+
+        kv.list = ((selector, options) => {
+          const iter = list(selector, options)
+          const next = iter.next.bind(iter)
+
+          iter.next = async () => {
+            const result = await next()
+            if (!result.done) {
+              reads++
+            }
+            return result
+          }
+
+          return iter
+        }) as typeof kv.list
+
+        const page1 = await db.changes.since(null, { limit: 2 })
+        assert(page1.changes.length === 2)
+        assert(page1.changes[1].id === "id1")
+        assert(page1.versionstamp === page1.changes[1].versionstamp)
+        assert(reads === 3)
+
+        reads = 0
+        const page2 = await db.changes.since(page1.versionstamp, { limit: 2 })
+        assert(page2.changes.length === 2)
+        assert(page2.changes[0].id === "id2")
+        assert(page2.changes[1].id === "id3")
+        assert(reads === 3)
+
+        reads = 0
+        await db.changes.checkpoint("search", page2.versionstamp)
+        const read = await db.changes.read("search")
+        assert(read.changes.length === 1)
+        assert(read.changes[0].id === "id4")
+        assert(reads === 1)
+      })
+    },
+  )
+
+  await t.step(
+    "Should read changes from consumer checkpoints",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createChangesDb(kv)
+
+        await db.users.set("id1", mockUser1)
+        assert(await db.changes.getCheckpoint("search") === null)
+
+        const read1 = await db.changes.read("search")
+        assert(read1.changes.length === 1)
+        assert(read1.versionstamp !== null)
+
+        await db.changes.checkpoint("search", read1.versionstamp)
+        assert(await db.changes.getCheckpoint("search") === read1.versionstamp)
+
+        await db.users.set("id2", mockUser2)
+        const read2 = await db.changes.read("search")
+        assert(read2.changes.length === 1)
+        assert(read2.changes[0].id === "id2")
+
+        const other = await db.changes.read("other")
+        assert(other.changes.length === 2)
+
+        await db.changes.checkpoint("search", null)
+        assert(await db.changes.getCheckpoint("search") === null)
+      })
+    },
+  )
+
+  await t.step(
+    "Should compact changes older than the retention period",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createChangesDb(kv)
+
+        await db.users.set("id1", mockUser1)
+        await db.users.set("id2", mockUser2)
+        await sleep(20)
+        await db.users.set("id3", mockUser3)
+
+        assert(await db.changes.compact() === 0)
+        assert(await db.changes.compact({ retention: 10 }) === 2)
+
+        const { changes } = await db.changes.since(null)
+        assert(changes.length === 1)
+        assert(changes[0].id === "id3")
+
+        const count = await db.countAll()
+        assert(count === 3)
+      })
+    },
+  )
+})
@@ -123,4 +123,34 @@ Deno.test("db - indexable_atomic", async (t) => {
       })
     },
   )
+
+  await t.step(
+    "Should update document and indices using update function",
+    async () => {
+      await useDb(async (db) => {
+        const cr1 = await db.i_users.add(mockUser1)
+        assert(cr1.ok)
+
+        const cr2 = await db
+          .atomic((schema) => schema.i_users)
+          .updateWith(cr1.id, (user) => ({ ...user, username: "updated" }))
+          .commit()
+
+        assert(cr2.ok)
+
+        const byOld = await db.i_users.findByPrimaryIndex(
+          "username",
+          mockUser1.username,
+        )
+
+        const byNew = await db.i_users.findByPrimaryIndex(
+          "username",
+          "updated",
+        )
+
+        assert(byOld === null)
+        assert(byNew?.id === cr1.id)
+      })
+    },
+  )
 })
@@ -0,0 +1,53 @@
+import { collection, indexableCollection, kvdex, model } from "../../mod.ts"
+import { assert } from "../deps.ts"
+import type { User } from "../models.ts"
+import { mockUser1 } from "../mocks.ts"
+import { useKv } from "../utils.ts"
+
+Deno.test("db - watch", async (t) => {
+  await t.step(
+    "Should emit change events of all collections",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          numbers: collection(model<number>()),
+          nested: {
+            users: indexableCollection(model<User>(), {
+              indices: {
+                username: "primary",
+              },
+            }),
+          },
+        })
+
+        const reader = db.watch({ interval: 10 }).getReader()
+
+        await db.numbers.set("n1", 10)
+        const insert = await reader.read()
+        assert(insert.value?.type === "insert")
+        assert(insert.value.collection.join() === "numbers")
+        assert(insert.value.newDoc.value === 10)
+
+        await db.numbers.delete("n1")
+        await db.nested.users.set("u1", mockUser1)
+
+        const events = [await reader.read(), await reader.read()]
+          .map(({ value }) => value)
+
+        assert(
+          events.some((event) =>
+            event?.type === "delete" && event.collection.join() === "numbers"
+          ),
+        )
+
+        assert(events.some((event) =>
+          event?.type === "insert" &&
+          event.collection.join() === "nested,users" &&
+          event.id === "u1"
+        ))
+
+        await reader.cancel()
+      })
+    },
+  )
+})
@@ -0,0 +1,71 @@
+import {
+  collection,
+  derivedCollection,
+  InvalidDerivedCollectionError,
+  kvdex,
+  model,
+} from "../../mod.ts"
+import { assert } from "../deps.ts"
+import type { User } from "../models.ts"
+import { generateLargeUsers, useKv } from "../utils.ts"
+
+Deno.test("derived_collection - rebuild", async (t) => {
+  await t.step(
+    "Should rebuild derived documents from source documents",
+    async () => {
+      await useKv(async (kv) => {
+        const users = collection(model<User>())
+
+        const db1 = kvdex(kv, {
+          users,
+        })
+
+        const db2 = kvdex(kv, {
+          users,
+          ages: derivedCollection(users, model<number>(), {
+            id: (user) => user.address.city,
+            reduce: (total, user, op) =>
+              (total ?? 0) + (op === "add" ? user.age : -user.age),
+          }),
+        })
+
+        const docs = generateLargeUsers(20)
+        const crs = await db1.users.addMany(docs)
+        assert(crs.every((cr) => cr.ok))
+        assert(await db2.ages.count() === 0)
+
+        await kv.set(["__kvdex__", "ages", "__id__", "Stale"], 1)
+
+        const count = await db2.ages.rebuild()
+        const cities = new Set(docs.map((user) => user.address.city))
+        assert(count === cities.size)
+        assert(await db2.ages.count() === cities.size)
+        assert(await db2.ages.find("Stale") === null)
+
+        const { result } = await db2.ages.getMany()
+        const total = result.reduce((sum, doc) => sum + doc.value, 0)
+        assert(total === docs.reduce((sum, user) => sum + user.age, 0))
+      })
+    },
+  )
+
+  await t.step(
+    "Should throw if not linked to a source collection",
+    async () => {
+      await useKv(async (kv) => {
+        const users = collection(model<User>())
+        const ages = derivedCollection(users, model<number>(), {
+          reduce: (_, user) => user.age,
+        })
+
+        const view = ages(kv, ["ages"], new Map(), () => {})
+        const [result] = await Promise.allSettled([view.rebuild()])
+
+        assert(
+          result.status === "rejected" &&
+            result.reason instanceof InvalidDerivedCollectionError,
+        )
+      })
+    },
+  )
+})
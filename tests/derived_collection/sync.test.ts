@@ -0,0 +1,408 @@
+import {
+  collection,
+  derivedCollection,
+  indexableCollection,
+  InvalidAtomicBuilderCollectionError,
+  InvalidDerivedCollectionError,
+  kvdex,
+  largeCollection,
+  model,
+} from "../../mod.ts"
+import type { Collection, CollectionOptions } from "../../mod.ts"
+import { assert, assertThrows } from "../deps.ts"
+import type { User } from "../models.ts"
+import { generateLargeUsers, useKv } from "../utils.ts"
+
+type CityStats = {
+  count: number
+  totalAge: number
+}
+
+function reduceCityStats(
+  stats: CityStats | null,
+  user: User,
+  op: "add" | "remove",
+) {
+  const sign = op === "add" ? 1 : -1
+  const count = (stats?.count ?? 0) + sign
+  const totalAge = (stats?.totalAge ?? 0) + sign * user.age
+  return count > 0 ? { count, totalAge } : null
+}
+
+function createViewDb(kv: Deno.Kv) {
+  const users = collection(model<User>())
+  const i_users = indexableCollection(model<User>(), {
+    indices: {
+      username: "primary",
+      age: "secondary",
+    },
+  })
+
+  return kvdex(kv, {
+    users,
+    i_users,
+    cities: derivedCollection(users, model<CityStats>(), {
+      id: (user) => user.address.city,
+      reduce: reduceCityStats,
+    }),
+    i_cities: derivedCollection(i_users, model<CityStats>(), {
+      id: (user) => user.address.city,
+      reduce: reduceCityStats,
+    }),
+    usernames: derivedCollection(users, model<string>(), {
+      reduce: (_, user, op) => op === "add" ? user.username : null,
+    }),
+  })
+}
+
+function expectedCityStats(users: User[], city: string) {
+  const matches = users.filter((user) => user.address.city === city)
+  return {
+    count: matches.length,
+    totalAge: matches.reduce((sum, user) => sum + user.age, 0),
+  }
+}
+
+Deno.test("derived_collection - sync", async (t) => {
+  await t.step(
+    "Should project source documents by id",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createViewDb(kv)
+        const [user1, user2] = generateLargeUsers(2)
+
+        await db.users.set("id1", user1)
+        await db.users.set("id2", user2)
+
+        const doc1 = await db.usernames.find("id1")
+        const doc2 = await db.usernames.find("id2")
+        assert(doc1?.value === user1.username)
+        assert(doc2?.value === user2.username)
+
+        await db.users.delete("id1")
+        assert(await db.usernames.find("id1") === null)
+      })
+    },
+  )
+
+  await t.step(
+    "Should reduce source documents on add, set and delete",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createViewDb(kv)
+        const users = generateLargeUsers(20)
+
+        const crs = await db.users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const bergen = await db.cities.find("Bergen")
+        const oslo = await db.cities.find("Oslo")
+        const bergenCount = bergen?.value.count ?? 0
+        const osloCount = oslo?.value.count ?? 0
+        assert(bergenCount + osloCount === 20)
+        assert(
+          (bergen?.value.totalAge ?? 0) + (oslo?.value.totalAge ?? 0) ===
+            users.reduce((sum, user) => sum + user.age, 0),
+        )
+
+        const ids = crs.flatMap((cr) => cr.ok ? [cr.id] : [])
+        await db.users.delete(...ids)
+
+        assert(await db.cities.count() === 0)
+      })
+    },
+  )
+
+  await t.step(
+    "Should move reduced values when source documents are updated or overwritten",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createViewDb(kv)
+        const [user] = generateLargeUsers(1)
+
+        const bergenUser = {
+          ...user,
+          address: { ...user.address, city: "Bergen" },
+        }
+
+        await db.users.set("id", bergenUser)
+        const bergen1 = await db.cities.find("Bergen")
+        assert(bergen1?.value.count === 1)
+
+        const cr1 = await db.users.update("id", {
+          address: { ...user.address, city: "Oslo" },
+        })
+        assert(cr1.ok)
+        assert(await db.cities.find("Bergen") === null)
+
+        const oslo1 = await db.cities.find("Oslo")
+        assert(oslo1?.value.count === 1)
+        assert(oslo1.value.totalAge === user.age)
+
+        const cr2 = await db.users.write("id", { ...bergenUser, age: 100 })
+        assert(cr2.ok)
+        assert(await db.cities.find("Oslo") === null)
+
+        const bergen2 = await db.cities.find("Bergen")
+        assert(bergen2?.value.count === 1)
+        assert(bergen2.value.totalAge === 100)
+      })
+    },
+  )
+
+  await t.step(
+    "Should not update derived documents when source write fails",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createViewDb(kv)
+        const [user1, user2] = generateLargeUsers(2)
+
+        const cr1 = await db.users.set("id", user1)
+        assert(cr1.ok)
+
+        const cr2 = await db.users.set("id", user2)
+        assert(!cr2.ok)
+
+        const cr3 = await db.users.update("id", { age: user1.age })
+        assert(cr3.ok)
+
+        const cr4 = await db.users.delete("id", {
+          ifVersionstamp: cr1.versionstamp,
+        })
+        assert(!cr4.ok)
+
+        assert(
+          await db.usernames.find("id").then((doc) => doc?.value) ===
+            user1.username,
+        )
+        assert(await db.cities.count() === 1)
+      })
+    },
+  )
+
+  await t.step(
+    "Should keep derived documents in sync with indexable source collections",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createViewDb(kv)
+        const users = generateLargeUsers(10)
+
+        const crs = await db.i_users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const bergen1 = await db.i_cities.find("Bergen")
+        assert(
+          (bergen1?.value.count ?? 0) ===
+            expectedCityStats(users, "Bergen").count,
+        )
+
+        await db.i_users.updateByPrimaryIndex("username", users[0].username, {
+          age: 1000,
+        })
+
+        const city = users[0].address.city
+        const stats = await db.i_cities.find(city)
+        const expected = expectedCityStats(users, city)
+        assert(stats?.value.count === expected.count)
+        assert(
+          stats.value.totalAge === expected.totalAge - users[0].age + 1000,
+        )
+
+        await db.i_users.deleteMany()
+        assert(await db.i_cities.count() === 0)
+      })
+    },
+  )
+
+  await t.step(
+    "Should keep derived documents in sync with atomic operations",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createViewDb(kv)
+        const [user1, user2, user3] = generateLargeUsers(3)
+
+        const cr1 = await db
+          .atomic((schema) => schema.users)
+          .set("id1", user1)
+          .set("id2", user2)
+          .select((schema) => schema.i_users)
+          .set("id3", user3)
+          .commit()
+
+        assert(cr1.ok)
+        assert(await db.usernames.count() === 2)
+        assert(await db.i_cities.count() === 1)
+
+        const cr2 = await db
+          .atomic((schema) => schema.users)
+          .updateWith("id1", (user) => ({ ...user, username: "updated" }))
+          .delete("id2")
+          .commit()
+
+        assert(cr2.ok)
+        assert(
+          await db.usernames.find("id1").then((doc) => doc?.value) ===
+            "updated",
+        )
+        assert(await db.usernames.find("id2") === null)
+
+        const cities = await db.cities.getMany()
+        assert(cities.result.length === 1)
+        assert(cities.result[0].value.count === 1)
+
+        const cr3 = await db
+          .atomic((schema) => schema.users)
+          .mutate({ type: "delete", id: "id1" }, {
+            type: "set",
+            id: "id4",
+            value: user2,
+          })
+          .commit()
+
+        assert(cr3.ok)
+        assert(await db.usernames.find("id1") === null)
+        assert(
+          await db.usernames.find("id4").then((doc) => doc?.value) ===
+            user2.username,
+        )
+      })
+    },
+  )
+
+  await t.step(
+    "Should throw if the source collection is invalid",
+    async () => {
+      await useKv((kv) => {
+        const users = collection(model<User>())
+        const l_users = largeCollection(model<User>())
+
+        assertThrows(
+          () =>
+            kvdex(kv, {
+              usernames: derivedCollection(users, model<string>(), {
+                reduce: (_, user) => user.username,
+              }),
+            }),
+          InvalidDerivedCollectionError,
+        )
+
+        assertThrows(
+          () =>
+            kvdex(kv, {
+              l_users,
+              usernames: derivedCollection(l_users, model<string>(), {
+                reduce: (_, user: User) => user.username,
+              }),
+            }),
+          InvalidDerivedCollectionError,
+        )
+      })
+    },
+  )
+
+  await t.step(
+    "Should reject direct writes to derived collections",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createViewDb(kv)
+        const [user] = generateLargeUsers(1)
+
+        await db.users.set("id1", user)
+
+        // Write through the base collection type, as direct writes do not type check
+        const cities: Collection<CityStats, CollectionOptions<CityStats>> =
+          db.cities
+        const usernames: Collection<string, CollectionOptions<string>> =
+          db.usernames
+
+        const writes = [
+          () => cities.add({ count: 1, totalAge: 1 }),
+          () => cities.set("Bergen", { count: 1, totalAge: 1 }),
+          () => cities.write("Bergen", { count: 1, totalAge: 1 }),
+          () => cities.addMany([{ count: 1, totalAge: 1 }]),
+          () => cities.update("Bergen", { count: 1 }),
+          () => cities.updateWith("Bergen", (stats) => stats),
+          () => cities.updateMany({ count: 1 }),
+          () =>
+            cities.upsert("Bergen", {
+              update: { count: 1 },
+              set: { count: 1, totalAge: 1 },
+            }),
+          () => usernames.delete("id1"),
+          () => usernames.deleteMany(),
+        ]
+
+        const results = await Promise.allSettled(writes.map((fn) => fn()))
+        assert(
+          results.every((result) =>
+            result.status === "rejected" &&
+            result.reason instanceof InvalidDerivedCollectionError
+          ),
+        )
+
+        assertThrows(
+          () => db.atomic((schema) => schema.usernames),
+          InvalidAtomicBuilderCollectionError,
+        )
+
+        const doc = await db.usernames.find("id1")
+        assert(doc?.value === user.username)
+
+        await db.deleteAll()
+        assert(await db.usernames.count() === 0)
+        assert(await db.cities.count() === 0)
+      })
+    },
+  )
+
+  await t.step(
+    "Should stop retrying writes when derived documents are always concurrently modified",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createViewDb(kv)
+        const [user1, user2] = generateLargeUsers(2)
+
+        const cr1 = await db.i_users.set("id1", user1)
+        assert(cr1.ok)
+
+        // Concurrently modify the derived documents before every commit, counting failed commits
+        const atomic = kv.atomic.bind(kv)
+        let failed = 0
+
+        kv.atomic = () => {
+          const op = atomic()
+          const commit = op.commit.bind(op)
+          op.commit = async () => {
+            const stats = { count: failed, totalAge: 0 }
+            await kv.set(["__kvdex__", "i_cities", "__id__", "Bergen"], stats)
+            await kv.set(["__kvdex__", "i_cities", "__id__", "Oslo"], stats)
+
+            const cr = await commit()
+            if (!cr.ok) {
+              failed++
+            }
+
+            return cr
+          }
+          return op
+        }
+
+        const cr2 = await db.i_users.set("id2", user2)
+        assert(!cr2.ok)
+        assert(failed === 101)
+
+        failed = 0
+        const cr3 = await db.i_users.update("id1", { age: 100 }, { retry: 2 })
+        assert(!cr3.ok)
+        assert(failed === 3)
+
+        failed = 0
+        const cr4 = await db.i_users.delete("id1", {
+          ifVersionstamp: cr1.versionstamp,
+        })
+        assert(!cr4.ok)
+        assert(failed === 101)
+      })
+    },
+  )
+})
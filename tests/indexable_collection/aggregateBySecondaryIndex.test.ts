@@ -0,0 +1,49 @@
+import { assert } from "../deps.ts"
+import { generateLargeUsers, useDb } from "../utils.ts"
+
+Deno.test("indexable_collection - aggregateBySecondaryIndex", async (t) => {
+  await t.step("Should aggregate documents by secondary index", async () => {
+    await useDb(async (db) => {
+      const users = generateLargeUsers(50)
+      const crs = await db.i_users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const { count, sum, max } = await db.i_users.aggregateBySecondaryIndex(
+        "age",
+        20,
+        { sum: "age", max: "username" },
+      )
+
+      assert(count === 5)
+      assert(sum === 100)
+      assert(max === "user_29")
+    })
+  })
+
+  await t.step(
+    "Should aggregate documents by secondary index and group",
+    async () => {
+      await useDb(async (db) => {
+        const users = generateLargeUsers(50)
+        const crs = await db.i_users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const result = await db.i_users.aggregateBySecondaryIndex("age", 15, {
+          groupBy: "address.city",
+          avg: "address.houseNr",
+        })
+
+        const expected = users.filter((user) => user.age === 15)
+        const groups = Array.from(result.entries())
+
+        assert(groups.reduce((acc, [, { count }]) => acc + count, 0) === 5)
+        assert(groups.every(([city, { count, avg }]) => {
+          const inCity = expected.filter((u) => u.address.city === city)
+          const houseNrs = inCity.map((u) => u.address.houseNr ?? 0)
+          return count === inCity.length &&
+            avg === houseNrs.reduce((acc, nr) => acc + nr, 0) / count
+        }))
+      })
+    },
+  )
+})
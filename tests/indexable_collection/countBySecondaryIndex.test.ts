@@ -0,0 +1,104 @@
+import { indexableCollection, kvdex, model } from "../../mod.ts"
+import type { Explanation } from "../../mod.ts"
+import { assert } from "../deps.ts"
+import type { User } from "../models.ts"
+import { generateLargeUsers, useDb, useKv } from "../utils.ts"
+
+function createUsersDb(kv: Deno.Kv) {
+  return kvdex(kv, {
+    users: indexableCollection(model<User>(), {
+      indices: {
+        username: "primary",
+        age: "secondary",
+      },
+      compoundIndices: [
+        { fields: ["address.city", "age"], type: "secondary" },
+      ],
+      counter: true,
+    }),
+  })
+}
+
+Deno.test("indexable_collection - countBySecondaryIndex", async (t) => {
+  await t.step("Should count documents by secondary index", async () => {
+    await useDb(async (db) => {
+      const users = generateLargeUsers(50)
+      const crs = await db.i_users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const count = await db.i_users.countBySecondaryIndex("age", 20)
+      const filtered = await db.i_users.countBySecondaryIndex("age", 20, {
+        filter: (doc) => doc.value.username !== "user_25",
+      })
+
+      assert(count === 5)
+      assert(filtered === 4)
+    })
+  })
+
+  await t.step(
+    "Should count documents using materialized index value counters",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createUsersDb(kv)
+        const users = generateLargeUsers(50)
+        const crs = await db.users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const doc = await db.users.findByPrimaryIndex("username", "user_25")
+        assert(doc !== null)
+
+        const cr = await db.users.update(doc.id, { age: 30 })
+        assert(cr.ok)
+
+        await db.users.deleteByPrimaryIndex("username", "user_26")
+
+        const explanations: Explanation[] = []
+        const count = await db.users.countBySecondaryIndex("age", 20, {
+          explain: (e) => explanations.push(e),
+        })
+
+        assert(count === 3)
+        assert(explanations[0].type === "counter")
+        assert(explanations[0].index === "age")
+        assert(await db.users.countBySecondaryIndex("age", 30) === 1)
+        assert(await db.users.count() === 49)
+
+        const bergen = users.filter((user, i) =>
+          user.address.city === "Bergen" && i !== 26
+        )
+
+        const bergenCount = await db.users.countBySecondaryIndex(
+          ["address.city", "age"],
+          ["Bergen"],
+        )
+
+        assert(bergenCount === bergen.length)
+      })
+    },
+  )
+
+  await t.step(
+    "Should repair index value counters when recounting",
+    async () => {
+      await useKv(async (kv) => {
+        const db = createUsersDb(kv)
+        const users = generateLargeUsers(50)
+        const crs = await db.users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const iter = kv.list({ prefix: db.users._keys.counterKey })
+        for await (const { key } of iter) {
+          await kv.delete(key)
+        }
+
+        assert(await db.users.countBySecondaryIndex("age", 20) === 0)
+
+        const count = await db.users.recount()
+        assert(count === 50)
+        assert(await db.users.count() === 50)
+        assert(await db.users.countBySecondaryIndex("age", 20) === 5)
+      })
+    },
+  )
+})
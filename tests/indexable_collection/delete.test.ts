@@ -62,4 +62,39 @@ Deno.test("indexable_collection - delete", async (t) => {
       })
     },
   )
+
+  await t.step(
+    "Should only delete document at expected versionstamp",
+    async () => {
+      await useDb(async (db) => {
+        const cr1 = await db.i_users.add(mockUser1)
+        assert(cr1.ok)
+
+        const cr2 = await db.i_users.update(cr1.id, { age: 1 })
+        assert(cr2.ok)
+
+        const dcr1 = await db.i_users.delete(cr1.id, {
+          ifVersionstamp: cr1.versionstamp,
+        })
+        assert(!dcr1.ok)
+
+        const doc1 = await db.i_users.find(cr1.id)
+        assert(doc1 !== null)
+
+        const dcr2 = await db.i_users.delete(cr1.id, {
+          ifVersionstamp: cr2.versionstamp,
+        })
+        assert(dcr2.ok)
+
+        const doc2 = await db.i_users.find(cr1.id)
+        assert(doc2 === null)
+
+        const byPrimary = await db.i_users.findByPrimaryIndex(
+          "username",
+          mockUser1.username,
+        )
+        assert(byPrimary === null)
+      })
+    },
+  )
 })
@@ -1,6 +1,8 @@
+import { indexableCollection, kvdex, model } from "../../mod.ts"
 import { assert } from "../deps.ts"
-import { mockUser1 } from "../mocks.ts"
-import { useDb } from "../utils.ts"
+import { mockUser1, mockUser2 } from "../mocks.ts"
+import { User } from "../models.ts"
+import { useDb, useKv } from "../utils.ts"
 
 Deno.test("indexable_collection - findByPrimaryIndex", async (t) => {
   await t.step("Should find document by primary index", async () => {
@@ -28,4 +30,84 @@ Deno.test("indexable_collection - findByPrimaryIndex", async (t) => {
       assert(doc === null)
     })
   })
+
+  await t.step("Should find document by compound primary index", async () => {
+    await useKv(async (kv) => {
+      const db = kvdex(kv, {
+        users: indexableCollection(model<User>(), {
+          indices: {},
+          compoundIndices: [
+            { fields: ["username", "age"], type: "primary" },
+          ],
+        }),
+      })
+
+      const cr1 = await db.users.add(mockUser1)
+      const cr2 = await db.users.add(mockUser2)
+      assert(cr1.ok && cr2.ok)
+
+      const doc = await db.users.findByPrimaryIndex(
+        ["username", "age"],
+        [mockUser1.username, mockUser1.age],
+      )
+      assert(doc !== null)
+      assert(doc.id === cr1.id)
+      assert(doc.value.username === mockUser1.username)
+
+      const notFound = await db.users.findByPrimaryIndex(
+        ["username", "age"],
+        [mockUser1.username, -1],
+      )
+      assert(notFound === null)
+    })
+  })
+
+  await t.step(
+    "Should not add document with colliding compound primary index",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: indexableCollection(model<User>(), {
+            indices: {},
+            compoundIndices: [
+              { fields: ["username", "age"], type: "primary" },
+            ],
+          }),
+        })
+
+        const cr1 = await db.users.add(mockUser1)
+        const cr2 = await db.users.add({ ...mockUser2, age: 20 })
+        const cr3 = await db.users.add({ ...mockUser2, age: 20 })
+        assert(cr1.ok && cr2.ok)
+        assert(!cr3.ok)
+      })
+    },
+  )
+
+  await t.step("Should find document by nested primary index", async () => {
+    await useKv(async (kv) => {
+      const db = kvdex(kv, {
+        users: indexableCollection(model<User>(), {
+          indices: {
+            "address.city": "primary",
+          },
+        }),
+      })
+
+      const cr1 = await db.users.add(mockUser1)
+      const cr2 = await db.users.add(mockUser2)
+      assert(cr1.ok && cr2.ok)
+
+      const doc = await db.users.findByPrimaryIndex(
+        "address.city",
+        mockUser1.address.city,
+      )
+      assert(doc !== null)
+      assert(doc.id === cr1.id)
+      assert(doc.value.address.city === mockUser1.address.city)
+
+      const cr3 = await db.users.add(mockUser1)
+      assert(!cr3.ok)
+    })
+  })
 })
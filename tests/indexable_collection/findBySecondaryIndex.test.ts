@@ -1,6 +1,9 @@
+import { indexableCollection, kvdex, model } from "../../mod.ts"
+import type { Explanation } from "../../mod.ts"
 import { assert } from "../deps.ts"
 import { mockUser1, mockUser2 } from "../mocks.ts"
-import { useDb } from "../utils.ts"
+import { User } from "../models.ts"
+import { generateLargeUsers, useDb, useKv } from "../utils.ts"
 
 Deno.test("indexable_collection - findBySecondaryIndex", async (t) => {
   await t.step("Should find documents by secondary index", async () => {
@@ -37,4 +40,195 @@ Deno.test("indexable_collection - findBySecondaryIndex", async (t) => {
       })
     },
   )
+
+  await t.step(
+    "Should find documents by compound secondary index and index prefix",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: indexableCollection(model<User>(), {
+            indices: {},
+            compoundIndices: [
+              { fields: ["age", "username"], type: "secondary" },
+            ],
+          }),
+        })
+
+        const cr1 = await db.users.add(mockUser1)
+        const cr2 = await db.users.add(mockUser2)
+        const cr3 = await db.users.add({ ...mockUser1, age: 20 })
+        assert(cr1.ok && cr2.ok && cr3.ok)
+
+        const byCompound = await db.users.findBySecondaryIndex(
+          ["age", "username"],
+          [mockUser1.age, mockUser1.username],
+        )
+
+        assert(byCompound.result.length === 1)
+        assert(byCompound.result.at(0)?.id === cr1.id)
+
+        const byPrefix = await db.users.findBySecondaryIndex(
+          ["age", "username"],
+          [mockUser1.age],
+        )
+
+        assert(byPrefix.result.length === 2)
+        assert(byPrefix.result.some((doc) => doc.id === cr1.id))
+        assert(byPrefix.result.some((doc) => doc.id === cr2.id))
+      })
+    },
+  )
+
+  await t.step("Should find documents by nested secondary index", async () => {
+    await useKv(async (kv) => {
+      const db = kvdex(kv, {
+        users: indexableCollection(model<User>(), {
+          indices: {
+            "address.country": "secondary",
+          },
+        }),
+      })
+
+      const cr1 = await db.users.add(mockUser1)
+      const cr2 = await db.users.add(mockUser2)
+      const cr3 = await db.users.add({
+        ...mockUser1,
+        address: { ...mockUser1.address, country: "Sweden" },
+      })
+      assert(cr1.ok && cr2.ok && cr3.ok)
+
+      const { result } = await db.users.findBySecondaryIndex(
+        "address.country",
+        mockUser1.address.country,
+      )
+
+      assert(result.length === 2)
+      assert(result.some((doc) => doc.id === cr1.id))
+      assert(result.some((doc) => doc.id === cr2.id))
+
+      const updateCr = await db.users.update(cr1.id, {
+        address: { ...mockUser1.address, country: "Sweden" },
+      })
+      assert(updateCr.ok)
+
+      const bySweden = await db.users.findBySecondaryIndex(
+        "address.country",
+        "Sweden",
+      )
+
+      assert(bySweden.result.length === 2)
+      assert(bySweden.result.some((doc) => doc.id === cr1.id))
+      assert(bySweden.result.some((doc) => doc.id === cr3.id))
+    })
+  })
+
+  await t.step(
+    "Should find documents by multi-value secondary index",
+    async () => {
+      await useKv(async (kv) => {
+        type Post = {
+          title: string
+          tags: string[]
+        }
+
+        const db = kvdex(kv, {
+          posts: indexableCollection(model<Post>(), {
+            indices: {
+              tags: "multi",
+            },
+          }),
+        })
+
+        const cr1 = await db.posts.add({ title: "p1", tags: ["a", "b", "b"] })
+        const cr2 = await db.posts.add({ title: "p2", tags: ["b", "c"] })
+        const cr3 = await db.posts.add({ title: "p3", tags: [] })
+        assert(cr1.ok && cr2.ok && cr3.ok)
+
+        const byA = await db.posts.findBySecondaryIndex("tags", "a")
+        const byB = await db.posts.findBySecondaryIndex("tags", "b")
+        const byD = await db.posts.findBySecondaryIndex("tags", "d")
+
+        assert(byA.result.length === 1)
+        assert(byA.result.at(0)?.id === cr1.id)
+        assert(byB.result.length === 2)
+        assert(byB.result.some((doc) => doc.id === cr1.id))
+        assert(byB.result.some((doc) => doc.id === cr2.id))
+        assert(byD.result.length === 0)
+      })
+    },
+  )
+
+  await t.step(
+    "Should find documents by secondary index storing only document ids",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: indexableCollection(model<User>(), {
+            indices: {
+              age: "secondary",
+            },
+            secondaryIndexStorage: "id",
+          }),
+        })
+
+        const cr1 = await db.users.add(mockUser1)
+        const cr2 = await db.users.add(mockUser2)
+        assert(cr1.ok && cr2.ok)
+
+        const indexEntries: Deno.KvEntry<unknown>[] = []
+        const iter = kv.list({ prefix: db.users._keys.secondaryIndexKey })
+        for await (const entry of iter) {
+          indexEntries.push(entry)
+        }
+
+        assert(indexEntries.length === 2)
+        assert(
+          indexEntries.every((entry) =>
+            Object.keys(entry.value as object).join() === "__id__"
+          ),
+        )
+
+        const updateCr = await db.users.update(cr1.id, { username: "updated" })
+        assert(updateCr.ok)
+
+        const { result } = await db.users.findBySecondaryIndex(
+          "age",
+          mockUser1.age,
+        )
+
+        const doc1 = result.find((doc) => doc.id === cr1.id)
+
+        assert(result.length === 2)
+        assert(result.some((doc) => doc.id === cr2.id))
+        assert(doc1?.value.username === "updated")
+        assert(doc1.versionstamp === updateCr.versionstamp)
+      })
+    },
+  )
+
+  await t.step(
+    "Should explain which index was used to find documents",
+    async () => {
+      await useDb(async (db) => {
+        const users = generateLargeUsers(50)
+        const crs = await db.i_users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const explanations: Explanation[] = []
+        const { result } = await db.i_users.findBySecondaryIndex("age", 20, {
+          filter: (doc) => doc.value.username !== "user_25",
+          explain: (e) => explanations.push(e),
+        })
+
+        assert(result.length === 4)
+        assert(explanations[0].type === "secondary")
+        assert(explanations[0].index === "age")
+        assert(explanations[0].scanned === 5)
+        assert(explanations[0].returned === 4)
+        const selector = explanations[0].selector
+        assert(selector && "prefix" in selector)
+        assert(selector.prefix.at(-1) === 20)
+      })
+    },
+  )
 })
@@ -0,0 +1,137 @@
+import { indexableCollection, kvdex, model } from "../../mod.ts"
+import { assert } from "../deps.ts"
+import { generateLargeUsers, useDb, useKv } from "../utils.ts"
+
+Deno.test("indexable_collection - findBySecondaryIndexRange", async (t) => {
+  await t.step(
+    "Should find documents by inclusive secondary index range",
+    async () => {
+      await useDb(async (db) => {
+        const users = generateLargeUsers(50)
+        const crs = await db.i_users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const { result } = await db.i_users.findBySecondaryIndexRange("age", {
+          gte: 18,
+          lte: 20,
+        })
+
+        const expected = users.filter((user) =>
+          user.age >= 18 && user.age <= 20
+        )
+
+        assert(result.length === expected.length)
+        assert(
+          result.every((doc) => doc.value.age >= 18 && doc.value.age <= 20),
+        )
+      })
+    },
+  )
+
+  await t.step(
+    "Should find documents by exclusive secondary index range",
+    async () => {
+      await useDb(async (db) => {
+        const users = generateLargeUsers(50)
+        const crs = await db.i_users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const { result } = await db.i_users.findBySecondaryIndexRange("age", {
+          gt: 18,
+          lt: 20,
+        })
+
+        const expected = users.filter((user) => user.age > 18 && user.age < 20)
+
+        assert(result.length === expected.length)
+        assert(result.every((doc) => doc.value.age === 19))
+      })
+    },
+  )
+
+  await t.step(
+    "Should find documents by open-ended secondary index range",
+    async () => {
+      await useDb(async (db) => {
+        const users = generateLargeUsers(50)
+        const crs = await db.i_users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const gte = await db.i_users.findBySecondaryIndexRange("age", {
+          gte: 20,
+        })
+
+        const lt = await db.i_users.findBySecondaryIndexRange("age", {
+          lt: 20,
+        })
+
+        assert(gte.result.every((doc) => doc.value.age >= 20))
+        assert(lt.result.every((doc) => doc.value.age < 20))
+        assert(gte.result.length + lt.result.length === users.length)
+      })
+    },
+  )
+
+  await t.step(
+    "Should find documents in index order when reversed",
+    async () => {
+      await useDb(async (db) => {
+        const users = generateLargeUsers(50)
+        const crs = await db.i_users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const { result } = await db.i_users.findBySecondaryIndexRange(
+          "age",
+          { gte: 18 },
+          { reverse: true, limit: 5 },
+        )
+
+        const maxAge = Math.max(...users.map((user) => user.age))
+
+        assert(result.length === 5)
+        assert(result.every((doc) => doc.value.age === maxAge))
+      })
+    },
+  )
+
+  await t.step(
+    "Should list each document once by multi-value index range",
+    async () => {
+      await useKv(async (kv) => {
+        type Post = {
+          title: string
+          tags: string[]
+        }
+
+        const db = kvdex(kv, {
+          data: indexableCollection(model<Post>(), {
+            indices: {
+              tags: "multi",
+            },
+          }),
+          id: indexableCollection(model<Post>(), {
+            indices: {
+              tags: "multi",
+            },
+            secondaryIndexStorage: "id",
+          }),
+        })
+
+        for (const storage of ["data", "id"] as const) {
+          await db[storage].set("p1", { title: "p1", tags: ["x", "y", "z"] })
+          await db[storage].set("p2", { title: "p2", tags: ["a", "y"] })
+          await db[storage].set("p3", { title: "p3", tags: ["a", "b"] })
+
+          const { result } = await db[storage].findBySecondaryIndexRange(
+            "tags",
+            { gte: "x" },
+          )
+
+          assert(result.length === 2)
+          assert(result[0].id === "p1")
+          assert(result[1].id === "p2")
+        }
+      })
+    },
+  )
+})
@@ -1,5 +1,6 @@
+import type { Explanation } from "../../mod.ts"
 import { assert } from "../deps.ts"
-import { generateUsers } from "../utils.ts"
+import { generateLargeUsers, generateUsers } from "../utils.ts"
 import { useDb } from "../utils.ts"
 
 Deno.test("indexable_collection - getMany", async (t) => {
@@ -18,4 +19,40 @@ Deno.test("indexable_collection - getMany", async (t) => {
       )
     })
   })
+
+  await t.step(
+    "Should get documents in secondary index order",
+    async () => {
+      await useDb(async (db) => {
+        const users = generateLargeUsers(50)
+        const crs = await db.i_users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const explanations: Explanation[] = []
+        const orderBy = { field: "age", direction: "desc" } as const
+
+        const page1 = await db.i_users.getMany({
+          orderBy,
+          limit: 30,
+          explain: (e) => explanations.push(e),
+        })
+
+        const page2 = await db.i_users.getMany({
+          orderBy,
+          limit: 30,
+          cursor: page1.cursor,
+        })
+
+        const ages = [...page1.result, ...page2.result].map((doc) =>
+          doc.value.age
+        )
+
+        assert(explanations[0].type === "ordered")
+        assert(explanations[0].index === "age")
+        assert(page2.result.length === 20)
+        assert(ages.length === 50)
+        assert(ages.every((age, i) => i === 0 || ages[i - 1] >= age))
+      })
+    },
+  )
 })
@@ -0,0 +1,56 @@
+import { indexableCollection, kvdex, model } from "../../mod.ts"
+import { assert } from "../deps.ts"
+import type { User } from "../models.ts"
+import { generateLargeUsers, useDb, useKv } from "../utils.ts"
+
+Deno.test("indexable_collection - listBySecondaryIndex", async (t) => {
+  await t.step("Should list documents by secondary index", async () => {
+    await useDb(async (db) => {
+      const users = generateLargeUsers(50)
+      const crs = await db.i_users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const docs = await Array.fromAsync(
+        db.i_users.listBySecondaryIndex("age", 20),
+      )
+
+      const expected = users.filter((user) => user.age === 20)
+      assert(docs.length === expected.length)
+      assert(docs.every((doc) => doc.value.age === 20))
+    })
+  })
+
+  await t.step(
+    "Should list documents by secondary index storing document ids",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: indexableCollection(model<User>(), {
+            indices: {
+              username: "primary",
+              age: "secondary",
+            },
+            secondaryIndexStorage: "id",
+          }),
+        })
+
+        const users = generateLargeUsers(50)
+        const crs = await db.users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const iter = db.users.listBySecondaryIndex("age", 20, {
+          filter: (doc) => doc.value.username !== "user_25",
+        })
+
+        const docs = await Array.fromAsync(iter)
+        const expected = users.filter((user) =>
+          user.age === 20 && user.username !== "user_25"
+        )
+
+        assert(docs.length === expected.length)
+        assert(docs.every((doc) => doc.value.age === 20))
+        assert(iter.cursor === undefined)
+      })
+    },
+  )
+})
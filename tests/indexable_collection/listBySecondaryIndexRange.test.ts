@@ -0,0 +1,76 @@
+import { indexableCollection, kvdex, type KvId, model } from "../../mod.ts"
+import { assert } from "../deps.ts"
+import { generateLargeUsers, useDb, useKv } from "../utils.ts"
+
+Deno.test("indexable_collection - listBySecondaryIndexRange", async (t) => {
+  await t.step(
+    "Should list documents by secondary index range",
+    async () => {
+      await useDb(async (db) => {
+        const users = generateLargeUsers(50)
+        const crs = await db.i_users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const ages: number[] = []
+        const iter = db.i_users.listBySecondaryIndexRange("age", {
+          gt: 18,
+          lte: 20,
+        }, { reverse: true })
+
+        for await (const doc of iter) {
+          ages.push(doc.value.age)
+        }
+
+        const expected = users.filter((user) => user.age > 18 && user.age <= 20)
+        assert(ages.length === expected.length)
+        assert(ages.every((age, i) => i === 0 || age <= ages[i - 1]))
+        assert(ages[0] === 20 && ages.at(-1) === 19)
+      })
+    },
+  )
+
+  await t.step(
+    "Should list each document once by multi-value index range",
+    async () => {
+      await useKv(async (kv) => {
+        type Post = {
+          title: string
+          tags: string[]
+        }
+
+        const db = kvdex(kv, {
+          data: indexableCollection(model<Post>(), {
+            indices: {
+              tags: "multi",
+            },
+          }),
+          id: indexableCollection(model<Post>(), {
+            indices: {
+              tags: "multi",
+            },
+            secondaryIndexStorage: "id",
+          }),
+        })
+
+        for (const storage of ["data", "id"] as const) {
+          await db[storage].set("p1", { title: "p1", tags: ["x", "y", "z"] })
+          await db[storage].set("p2", { title: "p2", tags: ["a", "y"] })
+          await db[storage].set("p3", { title: "p3", tags: ["a", "b"] })
+
+          const ids: KvId[] = []
+          const iter = db[storage].listBySecondaryIndexRange("tags", {
+            gte: "x",
+          })
+
+          for await (const doc of iter) {
+            ids.push(doc.id)
+          }
+
+          assert(ids.length === 2)
+          assert(ids[0] === "p1")
+          assert(ids[1] === "p2")
+        }
+      })
+    },
+  )
+})
@@ -0,0 +1,117 @@
+import { indexableCollection, kvdex, model } from "../../mod.ts"
+import type { Migration } from "../../mod.ts"
+import { assert } from "../deps.ts"
+import { useKv } from "../utils.ts"
+
+type UserV0 = {
+  username: string
+  age: string
+}
+
+type User = {
+  username: string
+  age: number
+}
+
+const migrations: Migration[] = [
+  (value) => ({ ...value, age: Number(value.age) }),
+]
+
+function createDbs(kv: Deno.Kv, writeBackMigrations?: boolean) {
+  const oldDb = kvdex(kv, {
+    users: indexableCollection(model<UserV0>(), {
+      indices: {
+        username: "primary",
+      },
+    }),
+  })
+
+  const db = kvdex(kv, {
+    users: indexableCollection(model<User>(), {
+      indices: {
+        username: "primary",
+        age: "secondary",
+      },
+      migrations,
+      writeBackMigrations,
+    }),
+  })
+
+  return { oldDb, db }
+}
+
+Deno.test("indexable_collection - migrate", async (t) => {
+  await t.step(
+    "Should lazily migrate documents found by primary index",
+    async () => {
+      await useKv(async (kv) => {
+        const { oldDb, db } = createDbs(kv)
+
+        const cr = await oldDb.users.add({ username: "oliver", age: "24" })
+        assert(cr.ok)
+
+        const doc = await db.users.findByPrimaryIndex("username", "oliver")
+        assert(doc?.id === cr.id)
+        assert(doc.value.age === 24)
+        assert(!("__version__" in doc.value))
+      })
+    },
+  )
+
+  await t.step(
+    "Should write back lazily migrated documents including index entries",
+    async () => {
+      await useKv(async (kv) => {
+        const { oldDb, db } = createDbs(kv, true)
+
+        const cr = await oldDb.users.add({ username: "oliver", age: "24" })
+        assert(cr.ok)
+
+        const doc = await db.users.findByPrimaryIndex("username", "oliver")
+        assert(doc?.value.age === 24)
+
+        const { result } = await db.users.findBySecondaryIndex("age", 24)
+        assert(result.length === 1)
+        assert(result[0].id === cr.id)
+        assert(result[0].value.age === 24)
+      })
+    },
+  )
+
+  await t.step(
+    "Should eagerly migrate documents and update index entries",
+    async () => {
+      await useKv(async (kv) => {
+        const { oldDb, db } = createDbs(kv)
+
+        for (let i = 0; i < 5; i++) {
+          const cr = await oldDb.users.add({
+            username: `user${i}`,
+            age: String(i % 2),
+          })
+          assert(cr.ok)
+        }
+
+        const result = await db.users.migrate()
+        assert(result.ok)
+        assert(result.migrated === 5)
+
+        const { result: docs } = await db.users.findBySecondaryIndex("age", 1)
+        assert(docs.length === 2)
+        assert(docs.every((doc) => doc.value.age === 1))
+
+        const doc = await db.users.findByPrimaryIndex("username", "user0")
+        assert(doc?.value.age === 0)
+
+        const entry = await kv.get<Record<string, unknown>>([
+          "__kvdex__",
+          "users",
+          "__index_primary__",
+          "username",
+          "user0",
+        ])
+        assert(entry.value?.__version__ === 1)
+      })
+    },
+  )
+})
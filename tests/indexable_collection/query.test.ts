@@ -0,0 +1,249 @@
+import { indexableCollection, kvdex, model } from "../../mod.ts"
+import { assert } from "../deps.ts"
+import type { User } from "../models.ts"
+import { generateLargeUsers, useDb, useKv } from "../utils.ts"
+
+// Create db with document ids in reverse age order,
+// so that documents listed by id and by index are ordered differently
+async function useUsersDb(
+  fn: (db: ReturnType<typeof createUsersDb>, users: User[]) => unknown,
+  secondaryIndexStorage?: "data" | "id",
+) {
+  await useKv(async (kv) => {
+    const db = createUsersDb(kv, secondaryIndexStorage)
+    const users = generateLargeUsers(50)
+
+    for (let i = 0; i < users.length; i++) {
+      const cr = await db.users.set(100 - i, users[i])
+      assert(cr.ok)
+    }
+
+    await fn(db, users)
+  })
+}
+
+function createUsersDb(kv: Deno.Kv, secondaryIndexStorage?: "data" | "id") {
+  return kvdex(kv, {
+    users: indexableCollection(model<User>(), {
+      indices: {
+        username: "primary",
+        age: "secondary",
+      },
+      secondaryIndexStorage,
+    }),
+  })
+}
+
+Deno.test("indexable_collection - query", async (t) => {
+  await t.step("Should get document by primary index", async () => {
+    await useDb(async (db) => {
+      const users = generateLargeUsers(50)
+      const crs = await db.i_users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const { result, cursor } = await db.i_users
+        .query()
+        .where("username", "==", "user_10")
+        .where("age", ">=", 17)
+        .get()
+
+      assert(result.length === 1)
+      assert(result[0].value.username === "user_10")
+      assert(cursor === undefined)
+
+      const { result: empty } = await db.i_users
+        .query()
+        .where("username", "==", "user_10")
+        .where("age", "<", 17)
+        .get()
+
+      assert(empty.length === 0)
+    })
+  })
+
+  await t.step("Should get documents by secondary index", async () => {
+    await useUsersDb(async (db) => {
+      const { result } = await db.users
+        .query()
+        .where("age", "==", 20)
+        .orderBy("username", "desc")
+        .get()
+
+      assert(result.length === 5)
+      assert(result.every((doc) => doc.value.age === 20))
+      assert(
+        result.every((doc, i) =>
+          i === 0 || result[i - 1].value.username > doc.value.username
+        ),
+      )
+    })
+  })
+
+  await t.step("Should get documents by secondary index range", async () => {
+    await useUsersDb(async (db) => {
+      const { result } = await db.users
+        .query()
+        .where("age", ">", 17)
+        .where("age", "<=", 20)
+        .get()
+
+      assert(result.length === 15)
+      assert(result.every((doc) => doc.value.age > 17 && doc.value.age <= 20))
+      assert(
+        result.every((doc, i) =>
+          i === 0 || result[i - 1].value.age <= doc.value.age
+        ),
+      )
+    })
+  })
+
+  await t.step(
+    "Should page through documents in secondary index order",
+    async () => {
+      await useUsersDb(async (db) => {
+        const query = db.users.query().orderBy("age", "desc").limit(20)
+
+        const page1 = await query.get()
+        const page2 = await query.cursor(page1.cursor).get()
+        const page3 = await query.cursor(page2.cursor).get()
+
+        const ages = [page1, page2, page3]
+          .flatMap(({ result }) => result)
+          .map((doc) => doc.value.age)
+
+        assert(page1.result.length === 20)
+        assert(page3.result.length === 10)
+        assert(ages.length === 50)
+        assert(ages.every((age, i) => i === 0 || ages[i - 1] >= age))
+      })
+    },
+  )
+
+  await t.step("Should fall back to scanning all documents", async () => {
+    await useUsersDb(async (db, users) => {
+      const { result } = await db.users
+        .query()
+        .where("address.city", "==", "Oslo")
+        .get()
+
+      const expected = users.filter((user) => user.address.city === "Oslo")
+      assert(result.length === expected.length)
+      assert(result.every((doc) => doc.value.address.city === "Oslo"))
+      assert(
+        result.every((doc, i) =>
+          i === 0 || result[i - 1].value.age >= doc.value.age
+        ),
+      )
+    })
+  })
+
+  await t.step(
+    "Should get documents by secondary index storing document ids",
+    async () => {
+      await useUsersDb(async (db) => {
+        const { result, cursor } = await db.users
+          .query()
+          .where("age", ">=", 23)
+          .limit(5)
+          .get()
+
+        assert(result.length === 5)
+        assert(result.every((doc) => doc.value.age === 23))
+        assert(cursor !== undefined)
+      }, "id")
+    },
+  )
+
+  await t.step("Should explain which index was chosen", async () => {
+    await useUsersDb(async (db) => {
+      const primary = await db.users
+        .query()
+        .where("age", ">=", 17)
+        .where("username", "==", "user_10")
+        .explain()
+
+      assert(primary.type === "primary")
+      assert(primary.index === "username")
+      assert(primary.scanned === 1)
+      assert(primary.returned === 1)
+
+      const range = await db.users
+        .query()
+        .where("age", ">", 17)
+        .where("address.city", "==", "Bergen")
+        .explain()
+
+      assert(range.type === "range")
+      assert(range.index === "age")
+      assert(range.scanned === 35)
+
+      const scan = await db.users
+        .query()
+        .where("address.country", "==", "Norway")
+        .limit(10)
+        .explain()
+
+      assert(scan.type === "scan")
+      assert(scan.index === undefined)
+      assert(scan.returned === 10)
+    })
+  })
+
+  await t.step(
+    "Should match multi-value index fields by their elements",
+    async () => {
+      await useKv(async (kv) => {
+        type Post = {
+          title: string
+          tags: string[]
+        }
+
+        const db = kvdex(kv, {
+          posts: indexableCollection(model<Post>(), {
+            indices: {
+              tags: "multi",
+            },
+          }),
+        })
+
+        await db.posts.set("p1", { title: "p1", tags: ["x", "y", "z"] })
+        await db.posts.set("p2", { title: "p2", tags: ["a", "y"] })
+        await db.posts.set("p3", { title: "p3", tags: ["a", "b"] })
+
+        const { result: range } = await db.posts
+          .query()
+          .where("tags", ">=", "x")
+          .get()
+
+        assert(range.length === 2)
+        assert(range[0].id === "p1")
+        assert(range[1].id === "p2")
+
+        const { result: equal } = await db.posts
+          .query()
+          .where("tags", "==", "a")
+          .get()
+
+        assert(equal.length === 2)
+        assert(equal[0].id === "p2")
+        assert(equal[1].id === "p3")
+
+        const { result: notEqual } = await db.posts
+          .query()
+          .where("tags", "!=", "y")
+          .get()
+
+        assert(notEqual.length === 1)
+        assert(notEqual[0].id === "p3")
+
+        const { result: whole } = await db.posts
+          .query()
+          .where("tags", "==", ["a", "b"])
+          .get()
+
+        assert(whole.length === 1)
+        assert(whole[0].id === "p3")
+      })
+    },
+  )
+})
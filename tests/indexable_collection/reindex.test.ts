@@ -0,0 +1,262 @@
+import { indexableCollection, kvdex, model } from "../../mod.ts"
+import { assert } from "../deps.ts"
+import { mockUser1, mockUser2 } from "../mocks.ts"
+import { User } from "../models.ts"
+import { generateLargeUsers, useKv } from "../utils.ts"
+
+Deno.test("indexable_collection - reindex", async (t) => {
+  await t.step("Should backfill entries of added indices", async () => {
+    await useKv(async (kv) => {
+      const db1 = kvdex(kv, {
+        users: indexableCollection(model<User>(), {
+          indices: {},
+        }),
+      })
+
+      const users = generateLargeUsers(100)
+      const crs = await db1.users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const db2 = kvdex(kv, {
+        users: indexableCollection(model<User>(), {
+          indices: {
+            username: "primary",
+            age: "secondary",
+          },
+        }),
+      })
+
+      const before = await db2.users.findByPrimaryIndex(
+        "username",
+        users[0].username,
+      )
+      assert(before === null)
+
+      const result = await db2.users.reindex()
+      assert(result.ok)
+      assert(result.cursor === undefined)
+      assert(result.reindexed === users.length)
+      assert(result.collisions.length === 0)
+
+      const byPrimary = await db2.users.findByPrimaryIndex(
+        "username",
+        users[0].username,
+      )
+
+      const bySecondary = await db2.users.findBySecondaryIndex(
+        "age",
+        users[0].age,
+      )
+
+      assert(byPrimary?.value.username === users[0].username)
+      assert(
+        bySecondary.result.length ===
+          users.filter((user) => user.age === users[0].age).length,
+      )
+    })
+  })
+
+  await t.step(
+    "Should count backfilled secondary index entries once",
+    async () => {
+      await useKv(async (kv) => {
+        const db1 = kvdex(kv, {
+          users: indexableCollection(model<User>(), {
+            indices: {},
+            counter: true,
+          }),
+        })
+
+        const users = generateLargeUsers(100)
+        const crs = await db1.users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const db2 = kvdex(kv, {
+          users: indexableCollection(model<User>(), {
+            indices: {
+              age: "secondary",
+            },
+            counter: true,
+          }),
+        })
+
+        const result1 = await db2.users.reindex()
+        const result2 = await db2.users.reindex()
+        assert(result1.ok && result2.ok)
+
+        for (const age of new Set(users.map((user) => user.age))) {
+          const count = await db2.users.countBySecondaryIndex("age", age)
+          assert(count === users.filter((user) => user.age === age).length)
+        }
+      })
+    },
+  )
+
+  await t.step("Should delete entries of removed indices", async () => {
+    await useKv(async (kv) => {
+      const db1 = kvdex(kv, {
+        users: indexableCollection(model<User>(), {
+          indices: {
+            username: "primary",
+            age: "secondary",
+          },
+        }),
+      })
+
+      const cr1 = await db1.users.add(mockUser1)
+      const cr2 = await db1.users.add(mockUser2)
+      assert(cr1.ok && cr2.ok)
+
+      const db2 = kvdex(kv, {
+        users: indexableCollection(model<User>(), {
+          indices: {
+            username: "primary",
+          },
+        }),
+      })
+
+      const result = await db2.users.reindex()
+      assert(result.ok)
+      assert(result.deleted === 2)
+
+      let count = 0
+      const iter = kv.list({ prefix: db2.users._keys.secondaryIndexKey })
+      for await (const _ of iter) {
+        count++
+      }
+
+      const byPrimary = await db2.users.findByPrimaryIndex(
+        "username",
+        mockUser1.username,
+      )
+
+      assert(count === 0)
+      assert(byPrimary?.id === cr1.id)
+    })
+  })
+
+  await t.step("Should report primary index collisions", async () => {
+    await useKv(async (kv) => {
+      const db1 = kvdex(kv, {
+        users: indexableCollection(model<User>(), {
+          indices: {},
+        }),
+      })
+
+      const cr1 = await db1.users.set("id1", mockUser1)
+      const cr2 = await db1.users.set("id2", mockUser2)
+      const cr3 = await db1.users.set("id3", mockUser1)
+      assert(cr1.ok && cr2.ok && cr3.ok)
+
+      const db2 = kvdex(kv, {
+        users: indexableCollection(model<User>(), {
+          indices: {
+            username: "primary",
+          },
+        }),
+      })
+
+      const result = await db2.users.reindex()
+      assert(result.ok)
+      assert(result.collisions.length === 1)
+      assert(result.collisions[0].id === "id3")
+      assert(result.collisions[0].conflictingId === "id1")
+      assert(result.collisions[0].index === "username")
+
+      const byPrimary = await db2.users.findByPrimaryIndex(
+        "username",
+        mockUser1.username,
+      )
+
+      assert(byPrimary?.id === "id1")
+    })
+  })
+
+  await t.step("Should reindex in pages using cursor", async () => {
+    await useKv(async (kv) => {
+      const db1 = kvdex(kv, {
+        users: indexableCollection(model<User>(), {
+          indices: {},
+        }),
+      })
+
+      const users = generateLargeUsers(100)
+      const crs = await db1.users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const db2 = kvdex(kv, {
+        users: indexableCollection(model<User>(), {
+          indices: {
+            username: "primary",
+          },
+        }),
+      })
+
+      let pages = 0
+      let reindexed = 0
+      let cursor: string | undefined = undefined
+      do {
+        const result = await db2.users.reindex({ limit: 30, cursor })
+        assert(result.ok)
+        reindexed += result.reindexed
+        cursor = result.cursor
+        pages++
+      } while (cursor)
+
+      assert(pages === 4)
+      assert(reindexed === users.length)
+
+      const docs = await Promise.all(
+        users.map((user) =>
+          db2.users.findByPrimaryIndex("username", user.username)
+        ),
+      )
+
+      assert(docs.every((doc) => doc !== null))
+    })
+  })
+
+  await t.step(
+    "Should not write index entries of documents modified while reindexing",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: indexableCollection(model<User>(), {
+            indices: {
+              username: "primary",
+              age: "secondary",
+            },
+          }),
+        })
+
+        const cr = await db.users.set("id", { ...mockUser1, age: 20 })
+        assert(cr.ok)
+
+        // Update the document after it has been listed by reindex
+        const list = kv.list.bind(kv)
+        let update = true
+
+        kv.list = ((selector, options) => {
+          const iter = list(selector, options)
+          if (!update) {
+            return iter
+          }
+
+          update = false
+          return (async function* () {
+            yield* iter
+            await db.users.update("id", { age: 30 })
+          })()
+        }) as typeof kv.list
+
+        const result = await db.users.reindex()
+        assert(result.ok)
+
+        const stale = await db.users.findBySecondaryIndex("age", 20)
+        const current = await db.users.findBySecondaryIndex("age", 30)
+        assert(stale.result.length === 0)
+        assert(current.result.length === 1)
+      })
+    },
+  )
+})
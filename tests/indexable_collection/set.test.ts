@@ -72,4 +72,41 @@ Deno.test("indexable_collection - set", async (t) => {
       assert(assertion)
     })
   })
+
+  await t.step(
+    "Should only overwrite existing document at expected versionstamp",
+    async () => {
+      await useDb(async (db) => {
+        const id = "id"
+
+        const cr1 = await db.i_users.set(id, mockUser1)
+        assert(cr1.ok)
+
+        const cr2 = await db.i_users.set(id, mockUser2, {
+          ifVersionstamp: "00000000000000000000",
+        })
+        assert(!cr2.ok)
+
+        const cr3 = await db.i_users.set(id, mockUser2, {
+          ifVersionstamp: cr1.versionstamp,
+        })
+        assert(cr3.ok)
+
+        const doc = await db.i_users.find(id)
+        assert(doc?.value.username === mockUser2.username)
+
+        const byOld = await db.i_users.findByPrimaryIndex(
+          "username",
+          mockUser1.username,
+        )
+        const byNew = await db.i_users.findByPrimaryIndex(
+          "username",
+          mockUser2.username,
+        )
+
+        assert(byOld === null)
+        assert(byNew?.id === id)
+      })
+    },
+  )
 })
@@ -1,8 +1,9 @@
-import { Document } from "../../mod.ts"
+import { Document, indexableCollection, kvdex, model } from "../../mod.ts"
+import type { Migration } from "../../mod.ts"
 import { assert } from "../deps.ts"
 import { mockUser1, mockUser2, mockUserInvalid } from "../mocks.ts"
 import { User } from "../models.ts"
-import { useDb } from "../utils.ts"
+import { useDb, useKv } from "../utils.ts"
 
 Deno.test("indexable_collection - update", async (t) => {
   await t.step(
@@ -86,4 +87,227 @@ Deno.test("indexable_collection - update", async (t) => {
       assert(assertion)
     })
   })
+
+  await t.step(
+    "Should update multi-value index entries by diffing old and new elements",
+    async () => {
+      await useKv(async (kv) => {
+        type Post = {
+          title: string
+          tags: string[]
+        }
+
+        const db = kvdex(kv, {
+          posts: indexableCollection(model<Post>(), {
+            indices: {
+              tags: "multi",
+            },
+          }),
+        })
+
+        const cr = await db.posts.add({ title: "p1", tags: ["a", "b"] })
+        assert(cr.ok)
+
+        const updateCr = await db.posts.update(cr.id, { tags: ["b", "c"] })
+        assert(updateCr.ok)
+
+        const byA = await db.posts.findBySecondaryIndex("tags", "a")
+        const byB = await db.posts.findBySecondaryIndex("tags", "b")
+        const byC = await db.posts.findBySecondaryIndex("tags", "c")
+
+        assert(byA.result.length === 0)
+        assert(byB.result.length === 1)
+        assert(byB.result.at(0)?.value.tags.includes("c"))
+        assert(byC.result.length === 1)
+        assert(byC.result.at(0)?.id === cr.id)
+      })
+    },
+  )
+
+  await t.step(
+    "Should apply concurrent updates without losing changes",
+    async () => {
+      await useDb(async (db) => {
+        const cr = await db.i_users.add(mockUser1)
+        assert(cr.ok)
+
+        const [cr1, cr2] = await Promise.all([
+          db.i_users.update(cr.id, { username: "updated" }),
+          db.i_users.update(cr.id, { age: 100 }),
+        ])
+
+        assert(cr1.ok)
+        assert(cr2.ok)
+
+        const doc = await db.i_users.find(cr.id)
+        const byPrimary = await db.i_users.findByPrimaryIndex(
+          "username",
+          "updated",
+        )
+        const byOldPrimary = await db.i_users.findByPrimaryIndex(
+          "username",
+          mockUser1.username,
+        )
+        const bySecondary = await db.i_users.findBySecondaryIndex("age", 100)
+
+        assert(doc?.value.username === "updated")
+        assert(doc?.value.age === 100)
+        assert(byPrimary?.value.age === 100)
+        assert(byOldPrimary === null)
+        assert(bySecondary.result.length === 1)
+        assert(bySecondary.result.at(0)?.value.username === "updated")
+      })
+    },
+  )
+
+  await t.step(
+    "Should only update document at expected versionstamp",
+    async () => {
+      await useDb(async (db) => {
+        const cr1 = await db.i_users.add(mockUser1)
+        assert(cr1.ok)
+
+        const cr2 = await db.i_users.update(cr1.id, { age: 1 })
+        assert(cr2.ok)
+
+        const cr3 = await db.i_users.update(cr1.id, { age: 2 }, {
+          ifVersionstamp: cr1.versionstamp,
+        })
+        assert(!cr3.ok)
+
+        const cr4 = await db.i_users.update(cr1.id, { age: 3 }, {
+          ifVersionstamp: cr2.versionstamp,
+        })
+        assert(cr4.ok)
+
+        const doc = await db.i_users.find(cr1.id)
+        assert(doc?.value.age === 3)
+      })
+    },
+  )
+
+  await t.step(
+    "Should update document and indices using JSON patch",
+    async () => {
+      await useDb(async (db) => {
+        const cr = await db.i_users.add(mockUser1)
+        assert(cr.ok)
+
+        const updateCr = await db.i_users.update(cr.id, [
+          { op: "replace", path: "/username", value: "updated" },
+          { op: "replace", path: "/age", value: 100 },
+        ], { strategy: "json-patch" })
+        assert(updateCr.ok)
+
+        const byOld = await db.i_users.findByPrimaryIndex(
+          "username",
+          mockUser1.username,
+        )
+        const byNew = await db.i_users.findByPrimaryIndex(
+          "username",
+          "updated",
+        )
+        const bySecondary = await db.i_users.findBySecondaryIndex("age", 100)
+
+        assert(byOld === null)
+        assert(byNew?.id === cr.id)
+        assert(byNew?.value.address.city === mockUser1.address.city)
+        assert(bySecondary.result.length === 1)
+      })
+    },
+  )
+
+  await t.step(
+    "Should stop retrying update of concurrently modified document when retry attempts are spent",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: indexableCollection(model<User>(), {
+            indices: {
+              username: "primary",
+            },
+          }),
+        })
+
+        const cr1 = await db.users.set("id", mockUser1)
+        assert(cr1.ok)
+
+        // Concurrently modify the document before every commit
+        const atomic = kv.atomic.bind(kv)
+        let commits = 0
+
+        kv.atomic = () => {
+          const op = atomic()
+          const commit = op.commit.bind(op)
+          op.commit = async () => {
+            commits++
+            const entry = await kv.get(["__kvdex__", "users", "__id__", "id"])
+            await kv.set(entry.key, entry.value)
+            return await commit()
+          }
+          return op
+        }
+
+        const cr2 = await db.users.update("id", { age: 100 }, { retry: 2 })
+        assert(!cr2.ok)
+        assert(commits === 3)
+      })
+    },
+  )
+
+  await t.step(
+    "Should replace index entries of the stored value of migrated document",
+    async () => {
+      await useKv(async (kv) => {
+        type Item = {
+          tag: string
+          n: number
+        }
+
+        const migrations: Migration[] = [
+          (value) => ({
+            ...value,
+            tag: value.tag === "old" ? "new" : value.tag,
+          }),
+        ]
+
+        const oldDb = kvdex(kv, {
+          items: indexableCollection(model<Item>(), {
+            indices: {
+              tag: "secondary",
+            },
+          }),
+        })
+
+        const db = kvdex(kv, {
+          items: indexableCollection(model<Item>(), {
+            indices: {
+              tag: "secondary",
+            },
+            migrations,
+          }),
+        })
+
+        const cr1 = await oldDb.items.set("x", { tag: "old", n: 1 })
+        assert(cr1.ok)
+
+        const cr2 = await db.items.update("x", { n: 2 })
+        assert(cr2.ok)
+
+        const { result: oldResult } = await db.items.findBySecondaryIndex(
+          "tag",
+          "old",
+        )
+
+        const { result: newResult } = await db.items.findBySecondaryIndex(
+          "tag",
+          "new",
+        )
+
+        assert(oldResult.length === 0)
+        assert(newResult.length === 1)
+        assert(newResult[0].value.n === 2)
+      })
+    },
+  )
 })
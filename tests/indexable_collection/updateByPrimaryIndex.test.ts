@@ -96,4 +96,30 @@ Deno.test("indexable_collection - updateByPrimaryIndex", async (t) => {
       assert(assertion)
     })
   })
+
+  await t.step(
+    "Should update document by primary index using deep merge",
+    async () => {
+      await useDb(async (db) => {
+        const cr = await db.i_users.add(mockUser1)
+        assert(cr.ok)
+
+        const updateCr = await db.i_users.updateByPrimaryIndex(
+          "username",
+          mockUser1.username,
+          { address: { city: "Oslo" } },
+          { strategy: "deep" },
+        )
+        assert(updateCr.ok)
+
+        const doc = await db.i_users.findByPrimaryIndex(
+          "username",
+          mockUser1.username,
+        )
+
+        assert(doc?.value.address.city === "Oslo")
+        assert(doc?.value.address.street === mockUser1.address.street)
+      })
+    },
+  )
 })
@@ -0,0 +1,97 @@
+import { assert } from "../deps.ts"
+import { mockUser1, mockUser2 } from "../mocks.ts"
+import { useDb } from "../utils.ts"
+
+Deno.test("indexable_collection - updateWith", async (t) => {
+  await t.step(
+    "Should update document by applying function to current value",
+    async () => {
+      await useDb(async (db) => {
+        const cr1 = await db.i_users.add(mockUser1)
+        assert(cr1.ok)
+
+        const cr2 = await db.i_users.updateWith(cr1.id, (user) => ({
+          ...user,
+          age: user.age + 1,
+        }))
+        assert(cr2.ok)
+
+        const doc = await db.i_users.find(cr1.id)
+        assert(doc?.value.age === mockUser1.age + 1)
+        assert(doc?.versionstamp === cr2.versionstamp)
+
+        const bySecondary = await db.i_users.findBySecondaryIndex(
+          "age",
+          mockUser1.age + 1,
+        )
+        assert(bySecondary.result.length === 1)
+      })
+    },
+  )
+
+  await t.step("Should fail to update non-existing document", async () => {
+    await useDb(async (db) => {
+      let called = false
+
+      const cr = await db.i_users.updateWith("id", (user) => {
+        called = true
+        return user
+      })
+
+      assert(!cr.ok)
+      assert(!called)
+    })
+  })
+
+  await t.step(
+    "Should re-run update function on concurrent updates",
+    async () => {
+      await useDb(async (db) => {
+        const cr = await db.i_users.add(mockUser1)
+        assert(cr.ok)
+
+        const crs = await Promise.all(
+          Array.from({ length: 5 }).map(() =>
+            db.i_users.updateWith(cr.id, (user) => ({
+              ...user,
+              age: user.age + 1,
+            }))
+          ),
+        )
+
+        assert(crs.every((cr) => cr.ok))
+
+        const doc = await db.i_users.find(cr.id)
+        assert(doc?.value.age === mockUser1.age + 5)
+      })
+    },
+  )
+
+  await t.step(
+    "Should re-run update function until retry attempts are spent",
+    async () => {
+      await useDb(async (db) => {
+        const cr1 = await db.i_users.add(mockUser1)
+        const cr2 = await db.i_users.add(mockUser2)
+        assert(cr1.ok && cr2.ok)
+
+        let calls = 0
+
+        const cr = await db.i_users.updateWith(
+          cr1.id,
+          (user) => {
+            calls++
+            return { ...user, username: mockUser2.username }
+          },
+          { retry: 2 },
+        )
+
+        assert(!cr.ok)
+        assert(calls === 3)
+
+        const doc = await db.i_users.find(cr1.id)
+        assert(doc?.value.username === mockUser1.username)
+      })
+    },
+  )
+})
@@ -0,0 +1,90 @@
+import { assert } from "../deps.ts"
+import { mockUser1, mockUser2 } from "../mocks.ts"
+import { useDb } from "../utils.ts"
+
+Deno.test("indexable_collection - upsert", async (t) => {
+  await t.step("Should insert new document if none exists", async () => {
+    await useDb(async (db) => {
+      const id = "id"
+
+      const cr = await db.i_users.upsert(id, {
+        update: { age: 100 },
+        set: mockUser1,
+      })
+
+      assert(cr.ok)
+      assert(cr.inserted)
+      assert(cr.id === id)
+
+      const doc = await db.i_users.find(id)
+      assert(doc?.value.username === mockUser1.username)
+      assert(doc?.value.age === mockUser1.age)
+    })
+  })
+
+  await t.step("Should update existing document", async () => {
+    await useDb(async (db) => {
+      const id = "id"
+
+      const cr1 = await db.i_users.set(id, mockUser1)
+      assert(cr1.ok)
+
+      const cr2 = await db.i_users.upsert(id, {
+        update: { age: 100 },
+        set: mockUser2,
+      })
+
+      assert(cr2.ok)
+      assert(!cr2.inserted)
+
+      const doc = await db.i_users.find(id)
+      assert(doc?.value.username === mockUser1.username)
+      assert(doc?.value.age === 100)
+    })
+  })
+
+  await t.step("Should update existing document using strategy", async () => {
+    await useDb(async (db) => {
+      const id = "id"
+
+      const cr1 = await db.i_users.set(id, mockUser1)
+      assert(cr1.ok)
+
+      const cr2 = await db.i_users.upsert(id, {
+        update: { address: { city: "Oslo" } },
+        set: mockUser2,
+      }, { strategy: "deep" })
+
+      assert(cr2.ok)
+      assert(!cr2.inserted)
+
+      const doc = await db.i_users.find(id)
+      assert(doc?.value.address.city === "Oslo")
+      assert(doc?.value.address.country === mockUser1.address.country)
+    })
+  })
+
+  await t.step(
+    "Should only insert one document on concurrent upserts",
+    async () => {
+      await useDb(async (db) => {
+        const id = "id"
+
+        const crs = await Promise.all(
+          Array.from({ length: 5 }).map(() =>
+            db.i_users.upsert(id, {
+              update: { age: 100 },
+              set: mockUser1,
+            })
+          ),
+        )
+
+        assert(crs.every((cr) => cr.ok))
+        assert(crs.filter((cr) => cr.ok && cr.inserted).length === 1)
+
+        const count = await db.i_users.count()
+        assert(count === 1)
+      })
+    },
+  )
+})
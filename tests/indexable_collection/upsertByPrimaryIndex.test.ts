@@ -0,0 +1,105 @@
+import { InvalidUpsertError } from "../../mod.ts"
+import { assert } from "../deps.ts"
+import { mockUser1, mockUser2 } from "../mocks.ts"
+import { useDb } from "../utils.ts"
+
+Deno.test("indexable_collection - upsertByPrimaryIndex", async (t) => {
+  await t.step("Should insert new document if none exists", async () => {
+    await useDb(async (db) => {
+      const cr = await db.i_users.upsertByPrimaryIndex(
+        "username",
+        mockUser1.username,
+        {
+          update: { age: 100 },
+          set: mockUser1,
+        },
+      )
+
+      assert(cr.ok)
+      assert(cr.inserted)
+
+      const doc = await db.i_users.findByPrimaryIndex(
+        "username",
+        mockUser1.username,
+      )
+
+      assert(doc?.id === cr.id)
+      assert(doc?.value.age === mockUser1.age)
+    })
+  })
+
+  await t.step("Should update existing document", async () => {
+    await useDb(async (db) => {
+      const cr1 = await db.i_users.add(mockUser1)
+      assert(cr1.ok)
+
+      const cr2 = await db.i_users.upsertByPrimaryIndex(
+        "username",
+        mockUser1.username,
+        {
+          update: { age: 100 },
+          set: mockUser2,
+        },
+      )
+
+      assert(cr2.ok)
+      assert(!cr2.inserted)
+      assert(cr2.id === cr1.id)
+
+      const doc = await db.i_users.find(cr1.id)
+      const bySecondary = await db.i_users.findBySecondaryIndex("age", 100)
+
+      assert(doc?.value.age === 100)
+      assert(bySecondary.result.length === 1)
+    })
+  })
+
+  await t.step(
+    "Should only insert one document on concurrent upserts",
+    async () => {
+      await useDb(async (db) => {
+        const crs = await Promise.all(
+          Array.from({ length: 5 }).map(() =>
+            db.i_users.upsertByPrimaryIndex(
+              "username",
+              mockUser1.username,
+              {
+                update: { age: 100 },
+                set: mockUser1,
+              },
+            )
+          ),
+        )
+
+        assert(crs.every((cr) => cr.ok))
+        assert(crs.filter((cr) => cr.ok && cr.inserted).length === 1)
+
+        const count = await db.i_users.count()
+        assert(count === 1)
+      })
+    },
+  )
+
+  await t.step(
+    "Should not insert new document that does not hold the primary index value",
+    async () => {
+      await useDb(async (db) => {
+        let assertion = false
+
+        await db.i_users.upsertByPrimaryIndex(
+          "username",
+          mockUser1.username,
+          {
+            update: { age: 100 },
+            set: mockUser2,
+          },
+        ).catch((e) => assertion = e instanceof InvalidUpsertError)
+
+        assert(assertion)
+
+        const count = await db.i_users.count()
+        assert(count === 0)
+      })
+    },
+  )
+})
@@ -0,0 +1,155 @@
+import { assert } from "../deps.ts"
+import { mockUser1, mockUser2 } from "../mocks.ts"
+import { createDb, generateUsers, useKv } from "../utils.ts"
+
+Deno.test("indexable_collection - verifyIndices", async (t) => {
+  await t.step("Should report no issues for consistent indices", async () => {
+    await useKv(async (kv) => {
+      const db = createDb(kv)
+
+      const users = generateUsers(50)
+      const crs = await db.i_users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const result = await db.i_users.verifyIndices()
+      assert(result.ok)
+      assert(result.issues.length === 0)
+      assert(result.collisions.length === 0)
+    })
+  })
+
+  await t.step("Should report and repair orphaned entries", async () => {
+    await useKv(async (kv) => {
+      const db = createDb(kv)
+
+      const { primaryIndexKey, secondaryIndexKey } = db.i_users._keys
+      const primaryKey = [...primaryIndexKey, "username", mockUser1.username]
+      const secondaryKey = [...secondaryIndexKey, "age", mockUser1.age, "id1"]
+
+      await kv.set(primaryKey, { ...mockUser1, __id__: "id1" })
+      await kv.set(secondaryKey, mockUser1)
+
+      const result1 = await db.i_users.verifyIndices()
+      assert(!result1.ok)
+      assert(result1.issues.length === 2)
+      assert(result1.issues.every((issue) => issue.type === "orphaned"))
+      assert(result1.issues.every((issue) => issue.id === "id1"))
+      assert(result1.repaired === 0)
+
+      const result2 = await db.i_users.verifyIndices({ repair: true })
+      assert(result2.ok)
+      assert(result2.repaired === 2)
+
+      const primary = await kv.get(primaryKey)
+      const secondary = await kv.get(secondaryKey)
+      assert(primary.versionstamp === null)
+      assert(secondary.versionstamp === null)
+
+      const result3 = await db.i_users.verifyIndices()
+      assert(result3.ok)
+      assert(result3.issues.length === 0)
+    })
+  })
+
+  await t.step("Should report and repair missing entries", async () => {
+    await useKv(async (kv) => {
+      const db = createDb(kv)
+
+      const cr = await db.i_users.add(mockUser1)
+      assert(cr.ok)
+
+      const { primaryIndexKey, secondaryIndexKey } = db.i_users._keys
+      await kv.delete([...primaryIndexKey, "username", mockUser1.username])
+      await kv.delete([...secondaryIndexKey, "age", mockUser1.age, cr.id])
+
+      const result1 = await db.i_users.verifyIndices({ repair: true })
+      assert(result1.ok)
+      assert(result1.issues.length === 2)
+      assert(result1.issues.every((issue) => issue.type === "missing"))
+      assert(result1.issues.every((issue) => issue.id === cr.id))
+      assert(result1.repaired === 2)
+
+      const byPrimary = await db.i_users.findByPrimaryIndex(
+        "username",
+        mockUser1.username,
+      )
+
+      const bySecondary = await db.i_users.findBySecondaryIndex(
+        "age",
+        mockUser1.age,
+      )
+
+      assert(byPrimary?.id === cr.id)
+      assert(bySecondary.result.length === 1)
+      assert(bySecondary.result[0].id === cr.id)
+    })
+  })
+
+  await t.step("Should report and repair mismatched entries", async () => {
+    await useKv(async (kv) => {
+      const db = createDb(kv)
+
+      const cr = await db.i_users.add(mockUser1)
+      assert(cr.ok)
+
+      const { secondaryIndexKey } = db.i_users._keys
+      const secondaryKey = [...secondaryIndexKey, "age", mockUser1.age, cr.id]
+      await kv.set(secondaryKey, mockUser2)
+
+      const result = await db.i_users.verifyIndices({ repair: true })
+      assert(result.ok)
+      assert(result.issues.length === 1)
+      assert(result.issues[0].type === "mismatched")
+      assert(result.issues[0].index === "age")
+      assert(result.repaired === 1)
+
+      const { result: docs } = await db.i_users.findBySecondaryIndex(
+        "age",
+        mockUser1.age,
+      )
+
+      assert(docs.length === 1)
+      assert(docs[0].value.username === mockUser1.username)
+    })
+  })
+
+  await t.step("Should verify and repair entries across pages", async () => {
+    await useKv(async (kv) => {
+      const db = createDb(kv)
+
+      const users = Array.from({ length: 1_200 }, (_, i) => ({
+        ...mockUser1,
+        username: `user_${i}`,
+        age: i % 50,
+      }))
+
+      const crs = await db.i_users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      // Delete and corrupt index entries of a single document
+      const doc = await db.i_users.findByPrimaryIndex("username", "user_1199")
+      assert(doc !== null)
+
+      const { primaryIndexKey, secondaryIndexKey } = db.i_users._keys
+      const orphanKey = [...secondaryIndexKey, "age", 1_000, "orphan"]
+      await kv.delete([...primaryIndexKey, "username", doc.value.username])
+      await kv.set(
+        [...secondaryIndexKey, "age", doc.value.age, doc.id],
+        mockUser2,
+      )
+      await kv.set(orphanKey, mockUser2)
+
+      const result1 = await db.i_users.verifyIndices({ repair: true })
+      assert(result1.ok)
+      assert(result1.issues.length === 3)
+      assert(result1.issues.some((issue) => issue.type === "missing"))
+      assert(result1.issues.some((issue) => issue.type === "mismatched"))
+      assert(result1.issues.some((issue) => issue.type === "orphaned"))
+      assert(result1.repaired === 3)
+
+      const result2 = await db.i_users.verifyIndices()
+      assert(result2.ok)
+      assert(result2.issues.length === 0)
+    })
+  })
+})
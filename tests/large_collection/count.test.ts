@@ -1,5 +1,7 @@
+import { kvdex, largeCollection, model } from "../../mod.ts"
 import { assert } from "../deps.ts"
-import { generateLargeUsers } from "../utils.ts"
+import type { User } from "../models.ts"
+import { generateLargeUsers, useKv } from "../utils.ts"
 import { useDb } from "../utils.ts"
 
 Deno.test("large_collection - count", async (t) => {
@@ -19,4 +21,27 @@ Deno.test("large_collection - count", async (t) => {
       })
     },
   )
+
+  await t.step(
+    "Should count documents using materialized counters",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          l_users: largeCollection(model<User>(), { counter: true }),
+        })
+
+        const users = generateLargeUsers(10)
+        const crs = await db.l_users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const cr1 = await db.l_users.write("id", users[0])
+        const cr2 = await db.l_users.write("id", users[1])
+        assert(cr1.ok && cr2.ok)
+        assert(await db.l_users.count() === 11)
+
+        await db.l_users.delete("id", crs[0].ok ? crs[0].id : "")
+        assert(await db.l_users.count() === 9)
+      })
+    },
+  )
 })
@@ -1,7 +1,7 @@
 import { Document } from "../../mod.ts"
 import { assert } from "../deps.ts"
 import { User } from "../models.ts"
-import { generateLargeUsers } from "../utils.ts"
+import { generateLargeUsers, sleep } from "../utils.ts"
 import { useDb } from "../utils.ts"
 
 Deno.test("large_collection - forEach", async (t) => {
@@ -25,4 +25,30 @@ Deno.test("large_collection - forEach", async (t) => {
       })
     },
   )
+
+  await t.step(
+    "Should limit the number of concurrently executed callbacks",
+    async () => {
+      await useDb(async (db) => {
+        const users = generateLargeUsers(20)
+        const crs = await db.l_users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        let active = 0
+        let maxActive = 0
+        let count = 0
+
+        await db.l_users.forEach(async () => {
+          active++
+          maxActive = Math.max(maxActive, active)
+          await sleep(1)
+          active--
+          count++
+        }, { concurrency: 3 })
+
+        assert(count === users.length)
+        assert(maxActive === 3)
+      })
+    },
+  )
 })
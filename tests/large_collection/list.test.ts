@@ -0,0 +1,42 @@
+import { assert } from "../deps.ts"
+import { generateLargeUsers, useDb } from "../utils.ts"
+
+Deno.test("large_collection - list", async (t) => {
+  await t.step("Should list all documents", async () => {
+    await useDb(async (db) => {
+      const users = generateLargeUsers(100)
+      const crs = await db.l_users.addMany(users)
+      assert(crs.every((cr) => cr.ok))
+
+      const usernames = new Set<string>()
+      for await (const doc of db.l_users.list()) {
+        usernames.add(doc.value.username)
+      }
+
+      assert(usernames.size === users.length)
+      assert(users.every((user) => usernames.has(user.username)))
+    })
+  })
+
+  await t.step(
+    "Should resume listing after last yielded document using cursor",
+    async () => {
+      await useDb(async (db) => {
+        const users = generateLargeUsers(20)
+        const crs = await db.l_users.addMany(users)
+        assert(crs.every((cr) => cr.ok))
+
+        const iter = db.l_users.list()
+        const first = await iter.next()
+        assert(!first.done)
+
+        const rest = await Array.fromAsync(
+          db.l_users.list({ cursor: iter.cursor }),
+        )
+
+        assert(rest.length === users.length - 1)
+        assert(rest.every((doc) => doc.id !== first.value.id))
+      })
+    },
+  )
+})
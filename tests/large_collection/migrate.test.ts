@@ -0,0 +1,57 @@
+import { kvdex, largeCollection, model } from "../../mod.ts"
+import type { Migration } from "../../mod.ts"
+import { assert } from "../deps.ts"
+import { useKv } from "../utils.ts"
+
+type UserV0 = {
+  name: string
+}
+
+type User = {
+  username: string
+}
+
+const migrations: Migration[] = [
+  ({ name }) => ({ username: name }),
+]
+
+Deno.test("large_collection - migrate", async (t) => {
+  await t.step(
+    "Should lazily and eagerly migrate large documents",
+    async () => {
+      await useKv(async (kv) => {
+        const oldDb = kvdex(kv, {
+          users: largeCollection(model<UserV0>()),
+        })
+
+        const db = kvdex(kv, {
+          users: largeCollection(model<User>(), {
+            migrations,
+          }),
+        })
+
+        const name = "a".repeat(100_000)
+
+        const cr1 = await oldDb.users.set("id1", { name })
+        const cr2 = await oldDb.users.set("id2", { name: "elias" })
+        assert(cr1.ok && cr2.ok)
+
+        const doc = await db.users.find("id1")
+        assert(doc?.value.username === name)
+
+        const result = await db.users.migrate()
+        assert(result.ok)
+        assert(result.migrated === 2)
+
+        const oldDoc = await oldDb.users.find("id2")
+        assert(oldDoc?.value.name === undefined)
+
+        const doc2 = await db.users.find("id2")
+        assert(doc2?.value.username === "elias")
+
+        const result2 = await db.users.migrate()
+        assert(result2.migrated === 0)
+      })
+    },
+  )
+})
@@ -1,6 +1,8 @@
+import { kvdex, largeCollection, model } from "../../mod.ts"
 import { assert } from "../deps.ts"
 import { mockUser1, mockUser2, mockUserInvalid } from "../mocks.ts"
-import { useDb } from "../utils.ts"
+import { User } from "../models.ts"
+import { useDb, useKv } from "../utils.ts"
 
 Deno.test("large_collection - set", async (t) => {
   await t.step("Should set new document entry in collection", async () => {
@@ -46,4 +48,165 @@ Deno.test("large_collection - set", async (t) => {
       assert(assertion)
     })
   })
+
+  await t.step(
+    "Should only overwrite existing document at expected versionstamp",
+    async () => {
+      await useDb(async (db) => {
+        const id = "id"
+
+        const cr1 = await db.l_users.set(id, mockUser1)
+        assert(cr1.ok)
+
+        const cr2 = await db.l_users.set(id, mockUser2, {
+          ifVersionstamp: "00000000000000000000",
+        })
+        assert(!cr2.ok)
+
+        const cr3 = await db.l_users.set(id, mockUser2, {
+          ifVersionstamp: cr1.versionstamp,
+        })
+        assert(cr3.ok)
+
+        const doc = await db.l_users.find(id)
+        assert(doc?.value.username === mockUser2.username)
+
+        const cr4 = await db.l_users.set(id, mockUser1, {
+          ifVersionstamp: null,
+        })
+        assert(!cr4.ok)
+
+        const cr5 = await db.l_users.set("id2", mockUser1, {
+          ifVersionstamp: null,
+        })
+        assert(cr5.ok)
+      })
+    },
+  )
+
+  await t.step(
+    "Should not retry set at expected versionstamp of concurrently written document",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: largeCollection(model<User>()),
+        })
+
+        const cr1 = await db.users.set("id", mockUser1)
+        assert(cr1.ok)
+
+        // Concurrently write the document before the document entry is set
+        const idKey = ["__kvdex__", "users", "__id__", "id"]
+        const atomic = kv.atomic.bind(kv)
+        let written: string | null = null
+
+        kv.atomic = () => {
+          const op = atomic()
+          const set = op.set.bind(op)
+          const commit = op.commit.bind(op)
+          let isEntry = false
+
+          op.set = (key, value, options) => {
+            isEntry ||= JSON.stringify(key) === JSON.stringify(idKey)
+            return set(key, value, options)
+          }
+
+          op.commit = async () => {
+            if (isEntry && written === null) {
+              const cr = await kv.set(idKey, { ids: [] })
+              written = cr.versionstamp
+            }
+            return await commit()
+          }
+
+          return op
+        }
+
+        const cr2 = await db.users.set("id", mockUser2, {
+          ifVersionstamp: cr1.versionstamp,
+          retry: 2,
+        })
+
+        assert(!cr2.ok)
+
+        const entry = await kv.get(idKey)
+        assert(written !== null)
+        assert(entry.versionstamp === written)
+      })
+    },
+  )
+
+  await t.step(
+    "Should keep existing document if conditional write fails",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: largeCollection(model<User>()),
+        })
+
+        const cr1 = await db.users.set("id", mockUser1)
+        assert(cr1.ok)
+
+        // Fail every segment write
+        const atomic = kv.atomic.bind(kv)
+        kv.atomic = () => {
+          const op = atomic()
+          const set = op.set.bind(op)
+          let isSegment = false
+
+          op.set = (key, value, options) => {
+            isSegment ||= key.includes("__segment__")
+            return set(key, value, options)
+          }
+
+          const commit = op.commit.bind(op)
+          op.commit = () =>
+            isSegment ? Promise.resolve({ ok: false as const }) : commit()
+
+          return op
+        }
+
+        const cr2 = await db.users.set("id", mockUser2, {
+          ifVersionstamp: cr1.versionstamp,
+        })
+        assert(!cr2.ok)
+
+        kv.atomic = atomic
+
+        const doc = await db.users.find("id")
+        assert(doc?.versionstamp === cr1.versionstamp)
+        assert(doc.value.username === mockUser1.username)
+      })
+    },
+  )
+
+  await t.step(
+    "Should delete replaced segments after overwriting document",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: largeCollection(model<User>()),
+        })
+
+        const cr1 = await db.users.set("id", mockUser1)
+        assert(cr1.ok)
+
+        const cr2 = await db.users.set("id", mockUser2, {
+          ifVersionstamp: cr1.versionstamp,
+        })
+        assert(cr2.ok)
+
+        const cr3 = await db.users.write("id", mockUser1)
+        assert(cr3.ok)
+
+        const segments = await Array.fromAsync(
+          kv.list({ prefix: ["__kvdex__", "users", "__segment__", "id"] }),
+        )
+
+        const doc = await db.users.find("id")
+        assert(doc?.value.username === mockUser1.username)
+        assert(segments.length === 1)
+      })
+    },
+  )
 })
@@ -107,4 +107,47 @@ Deno.test("large_collection - update", async (t) => {
       assert(assertion)
     })
   })
+
+  await t.step(
+    "Should only update document at expected versionstamp",
+    async () => {
+      await useDb(async (db) => {
+        const cr1 = await db.l_users.add(mockUser1)
+        assert(cr1.ok)
+
+        const cr2 = await db.l_users.update(cr1.id, { age: 1 })
+        assert(cr2.ok)
+
+        const cr3 = await db.l_users.update(cr1.id, { age: 2 }, {
+          ifVersionstamp: cr1.versionstamp,
+        })
+        assert(!cr3.ok)
+
+        const cr4 = await db.l_users.update(cr1.id, { age: 3 }, {
+          ifVersionstamp: cr2.versionstamp,
+        })
+        assert(cr4.ok)
+
+        const doc = await db.l_users.find(cr1.id)
+        assert(doc?.value.age === 3)
+      })
+    },
+  )
+
+  await t.step("Should update document using merge patch", async () => {
+    await useDb(async (db) => {
+      const cr = await db.l_users.add(mockUser1)
+      assert(cr.ok)
+
+      const updateCr = await db.l_users.update(cr.id, {
+        address: { city: "Oslo", street: null },
+      }, { strategy: "merge-patch" })
+      assert(updateCr.ok)
+
+      const doc = await db.l_users.find(cr.id)
+      assert(doc?.value.address.city === "Oslo")
+      assert(doc?.value.address.country === mockUser1.address.country)
+      assert(doc !== null && !("street" in doc.value.address))
+    })
+  })
 })
@@ -0,0 +1,39 @@
+import { assert } from "../deps.ts"
+import { mockUser1 } from "../mocks.ts"
+import { useDb } from "../utils.ts"
+
+Deno.test("large_collection - updateWith", async (t) => {
+  await t.step(
+    "Should update document by applying function to current value",
+    async () => {
+      await useDb(async (db) => {
+        const cr1 = await db.l_users.add(mockUser1)
+        assert(cr1.ok)
+
+        const cr2 = await db.l_users.updateWith(cr1.id, (user) => ({
+          ...user,
+          age: user.age + 1,
+        }))
+        assert(cr2.ok)
+
+        const doc = await db.l_users.find(cr1.id)
+        assert(doc?.value.age === mockUser1.age + 1)
+        assert(doc?.versionstamp === cr2.versionstamp)
+      })
+    },
+  )
+
+  await t.step("Should fail to update non-existing document", async () => {
+    await useDb(async (db) => {
+      let called = false
+
+      const cr = await db.l_users.updateWith("id", (user) => {
+        called = true
+        return user
+      })
+
+      assert(!cr.ok)
+      assert(!called)
+    })
+  })
+})
@@ -0,0 +1,301 @@
+import {
+  collection,
+  Document,
+  indexableCollection,
+  kvdex,
+  model,
+  ValidationError,
+  validator as v,
+} from "../../mod.ts"
+import type { StandardSchema } from "../../mod.ts"
+import { assert, z } from "../deps.ts"
+import { mockUser1, mockUserInvalid } from "../mocks.ts"
+import { User } from "../models.ts"
+import { useDb, useKv } from "../utils.ts"
+
+const UserValidator = v.object({
+  username: v.string(),
+  age: v.number(),
+  address: v.object({
+    country: v.string(),
+    city: v.string(),
+    street: v.optional(v.string()),
+    houseNr: v.nullable(v.number()),
+  }),
+})
+
+Deno.test("model - model", async (t) => {
+  await t.step("Should create standard model without validation", () => {
+    const UserModel = model<User>()
+    const parsed = UserModel.parse(mockUserInvalid)
+    assert(parsed === mockUserInvalid)
+  })
+
+  await t.step("Should parse valid data using zod model", () => {
+    const UserModel = model(z.object({
+      username: z.string(),
+      age: z.number().default(0),
+    }))
+
+    const parsed = UserModel.parse({ username: "oliver" })
+    assert(parsed.username === "oliver")
+    assert(parsed.age === 0)
+  })
+
+  await t.step(
+    "Should throw validation error including path using zod model",
+    () => {
+      const UserModel = model(z.object({
+        address: z.object({
+          city: z.string(),
+        }),
+      }))
+
+      let error: unknown = null
+
+      try {
+        UserModel.parse({ address: { city: 100 } })
+      } catch (e) {
+        error = e
+      }
+
+      assert(error instanceof ValidationError)
+      assert(error.path.join(".") === "address.city")
+      assert(error.issues.length === 1)
+      assert(error.message.includes("address.city"))
+    },
+  )
+
+  await t.step("Should parse valid data using built-in validator", () => {
+    const UserModel = model(UserValidator)
+    const parsed = UserModel.parse(mockUser1)
+    assert(parsed.username === mockUser1.username)
+    assert(parsed.address.city === mockUser1.address.city)
+  })
+
+  await t.step(
+    "Should throw validation error including all paths using built-in validator",
+    () => {
+      const UserModel = model(UserValidator)
+
+      let error: unknown = null
+
+      try {
+        UserModel.parse(mockUserInvalid)
+      } catch (e) {
+        error = e
+      }
+
+      assert(error instanceof ValidationError)
+      assert(error.path.join(".") === "username")
+
+      const paths = error.issues.map((issue) => issue.path.join("."))
+      assert(paths.includes("address.country"))
+      assert(paths.includes("address.city"))
+      assert(paths.includes("address.houseNr"))
+      assert(!paths.includes("address.street"))
+    },
+  )
+
+  await t.step("Should validate arrays, literals and unions", () => {
+    const DataModel = model(v.object({
+      tags: v.array(v.string()),
+      role: v.union(v.literal("admin"), v.literal("user")),
+      ids: v.array(v.union(v.string(), v.bigint())),
+    }))
+
+    const parsed = DataModel.parse({
+      tags: ["a"],
+      role: "user",
+      ids: ["1", 2n],
+    })
+    assert(parsed.role === "user")
+
+    let error: unknown = null
+
+    try {
+      DataModel.parse({
+        tags: ["a", 1],
+        role: "user",
+        ids: [],
+      })
+    } catch (e) {
+      error = e
+    }
+
+    assert(error instanceof ValidationError)
+    assert(JSON.stringify(error.path) === JSON.stringify(["tags", 1]))
+
+    try {
+      DataModel.parse({
+        tags: [],
+        role: "owner",
+        ids: [],
+      })
+    } catch (e) {
+      error = e
+    }
+
+    assert(error instanceof ValidationError)
+    assert(error.path.join(".") === "role")
+  })
+
+  await t.step("Should create model from standard schema", () => {
+    const schema: StandardSchema<string, number> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) =>
+          typeof value === "string" ? { value: value.length } : {
+            issues: [{ message: "Expected string", path: [{ key: "x" }] }],
+          },
+      },
+    }
+
+    const LengthModel = model(schema)
+    assert(LengthModel.parse("abc") === 3)
+
+    let error: unknown = null
+
+    try {
+      LengthModel.parse(100)
+    } catch (e) {
+      error = e
+    }
+
+    assert(error instanceof ValidationError)
+    assert(error.path.join(".") === "x")
+  })
+
+  await t.step(
+    "Should write model input values and read model output values",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          lengths: collection(model(z.string().transform((s) => s.length))),
+          posts: indexableCollection(
+            model(z.object({
+              title: z.string(),
+              tags: z.string().transform((s) => s.split(",")),
+            })),
+            { indices: { title: "primary" } },
+          ),
+        })
+
+        const cr1 = await db.lengths.set("id", "abc")
+        assert(cr1.ok)
+
+        const doc1 = await db.lengths.find("id")
+        assert(doc1?.value === 3)
+
+        const cr2 = await db.lengths.update("id", "abcd")
+        assert(cr2.ok)
+
+        const doc2 = await db.lengths.find("id")
+        assert(doc2?.value === 4)
+
+        await db
+          .atomic((schema) => schema.lengths)
+          .set("id2", "abcde")
+          .commit()
+
+        const doc3 = await db.lengths.find("id2")
+        assert(doc3?.value === 5)
+
+        const cr3 = await db.posts.set("id", { title: "post", tags: "a,b" })
+        assert(cr3.ok)
+
+        const doc4 = await db.posts.findByPrimaryIndex("title", "post")
+        assert(doc4?.value.tags.join() === "a,b")
+
+        const cr4 = await db.posts.update("id", {
+          title: "post",
+          tags: "c",
+        }, { strategy: "replace" })
+        assert(cr4.ok)
+
+        const doc5 = await db.posts.find("id")
+        assert(doc5?.value.tags.join() === "c")
+      })
+    },
+  )
+
+  await t.step(
+    "Should throw validation error when constructing document",
+    () => {
+      let assertion = false
+
+      try {
+        new Document(z.number(), {
+          id: "id",
+          versionstamp: "000",
+          value: "100" as unknown as number,
+        })
+      } catch (e) {
+        assertion = e instanceof ValidationError
+      }
+
+      assert(assertion)
+    },
+  )
+
+  await t.step(
+    "Should throw validation error when adding invalid document using zod schema",
+    async () => {
+      await useDb(async (db) => {
+        let error: unknown = null
+
+        try {
+          await db.zi_users.add(mockUserInvalid)
+        } catch (e) {
+          error = e
+        }
+
+        assert(error instanceof ValidationError)
+        assert(error.path.join(".") === "username")
+
+        const count = await db.zi_users.count()
+        assert(count === 0)
+      })
+    },
+  )
+
+  await t.step(
+    "Should throw validation error when setting invalid document using built-in validator",
+    async () => {
+      await useKv(async (kv) => {
+        const db = kvdex(kv, {
+          users: collection(model(UserValidator)),
+          i_users: indexableCollection(model(UserValidator), {
+            indices: {
+              username: "primary",
+            },
+          }),
+        })
+
+        let assertion1 = false
+        let assertion2 = false
+
+        await db.users.set("id", mockUserInvalid).catch((e) =>
+          assertion1 = e instanceof ValidationError
+        )
+
+        await db.i_users.set("id", mockUserInvalid).catch((e) =>
+          assertion2 = e instanceof ValidationError
+        )
+
+        assert(assertion1)
+        assert(assertion2)
+
+        const cr = await db.i_users.add(mockUser1)
+        assert(cr.ok)
+
+        const doc = await db.i_users.findByPrimaryIndex(
+          "username",
+          mockUser1.username,
+        )
+        assert(doc?.id === cr.id)
+      })
+    },
+  )
+})